@@ -0,0 +1,258 @@
+import * as os from 'os';
+import * as path from 'path';
+import { ChunkTranslator, describeKeyProviders } from '../chunkTranslator';
+import { LLMService } from '../llmService';
+import { Logger } from '../logger';
+import { TranslationMemory } from '../translationMemory';
+
+describe('ChunkTranslator', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const usage = { inputTokens: 1, outputTokens: 1 };
+
+    const createTranslator = (translate: jest.Mock, validationRetries = 2) =>
+        new ChunkTranslator({ translate, getLanguageModel: () => ({ llmProvider: 'openai' }) } as unknown as LLMService, logger, { validationRetries });
+
+    it('should send masked ICU syntax and restore it in the result', async () => {
+        const translate = jest.fn(async (content: Record<string, string>) => ({
+            translatedContent: { greeting: content.greeting.replace('Hello', 'Hola'), plain: 'Guardar' },
+            tokensUsed: usage
+        }));
+
+        const result = await createTranslator(translate).translateChunk(
+            { greeting: 'Hello <b>{name}</b>', plain: 'Save' },
+            'es',
+            'chunk_1'
+        );
+
+        const [request, lang, hints] = translate.mock.calls[0] as any[];
+        expect(request.greeting).toBe('Hello ⟦0⟧⟦1⟧⟦2⟧');
+        expect(lang).toBe('es');
+        expect(hints.instructions[0]).toContain('⟦0⟧');
+        expect(result.translatedContent).toEqual({ greeting: 'Hola <b>{name}</b>', plain: 'Guardar' });
+        expect(result.failedKeys).toEqual([]);
+    });
+
+    it('should retry only keys whose structure broke', async () => {
+        const translate = jest.fn()
+            .mockResolvedValueOnce({ translatedContent: { count: '{cuenta} elementos', plain: 'Guardar' }, tokensUsed: usage })
+            .mockResolvedValueOnce({ translatedContent: { count: '⟦0⟧ elementos' }, tokensUsed: usage });
+
+        const result = await createTranslator(translate).translateChunk(
+            { count: '{n} items', plain: 'Save' },
+            'es',
+            'chunk_1'
+        );
+
+        expect(translate).toHaveBeenCalledTimes(2);
+        expect(translate.mock.calls[1][0]).toEqual({ count: '⟦0⟧ items' });
+        expect(result.translatedContent).toEqual({ count: '{n} elementos', plain: 'Guardar' });
+        expect(result.tokensUsed).toEqual({ inputTokens: 2, outputTokens: 2 });
+    });
+
+    it('should drop keys that stay broken after all retries', async () => {
+        const translate = jest.fn().mockResolvedValue({
+            translatedContent: { count: '{count, plural, other {# elementos}}' },
+            tokensUsed: usage
+        });
+
+        const result = await createTranslator(translate, 1).translateChunk(
+            { count: '{count, plural, one {# item} other {# items}}' },
+            'de',
+            'chunk_1'
+        );
+
+        expect(translate).toHaveBeenCalledTimes(2);
+        expect(result.translatedContent).toEqual({});
+        expect(result.failedKeys).toEqual(['count']);
+    });
+
+    it('should discard unknown keys and re-request missing ones', async () => {
+        const translate = jest.fn()
+            .mockResolvedValueOnce({ translatedContent: { save: 'Guardar', bonus: 'Extra' }, tokensUsed: usage })
+            .mockResolvedValueOnce({ translatedContent: { cancel: 'Cancelar' }, tokensUsed: usage });
+
+        const result = await createTranslator(translate).translateChunk({ save: 'Save', cancel: 'Cancel' }, 'es', 'chunk_1');
+
+        expect(translate.mock.calls[1][0]).toEqual({ cancel: 'Cancel' });
+        expect(result.translatedContent).toEqual({ save: 'Guardar', cancel: 'Cancelar' });
+        expect(result.missingKeys).toEqual([]);
+    });
+
+    it('should report keys that are still missing after all retries', async () => {
+        const translate = jest.fn().mockResolvedValue({ translatedContent: { save: 'Guardar' }, tokensUsed: usage });
+
+        const result = await new ChunkTranslator({ translate } as unknown as LLMService, logger, { missingKeyRetries: 1 })
+            .translateChunk({ save: 'Save', cancel: 'Cancel' }, 'es', 'chunk_1');
+
+        expect(translate).toHaveBeenCalledTimes(2);
+        expect(result.translatedContent).toEqual({ save: 'Guardar' });
+        expect(result.missingKeys).toEqual(['cancel']);
+        expect(result.failedKeys).toEqual([]);
+    });
+
+    it('should ask for and require every plural category of the target locale', async () => {
+        const source = '{count, plural, =0 {No files} one {# file} other {# files}}';
+        const complete = '{count, plural, =0 {Нет файлов} one {# файл} few {# файла} many {# файлов} other {# файла}}';
+        const translate = jest.fn()
+            .mockResolvedValueOnce({ translatedContent: { files: '{count, plural, =0 {Нет файлов} one {# файл} other {# файлов}}' }, tokensUsed: usage })
+            .mockResolvedValueOnce({ translatedContent: { files: complete }, tokensUsed: usage });
+
+        const result = await createTranslator(translate).translateChunk({ files: source }, 'ru', 'chunk_1');
+
+        const [request, , hints] = translate.mock.calls[0] as any[];
+        expect(request.files).toBe(source);
+        expect(hints.keyInstructions.files[0]).toContain('{count, plural}: =0, one, few, many, other');
+        expect(translate).toHaveBeenCalledTimes(2);
+        expect(result.translatedContent).toEqual({ files: complete });
+    });
+
+    it('should send relevant glossary terms and report values that ignore them', async () => {
+        const translate = jest.fn().mockResolvedValue({
+            translatedContent: { open: 'Abrir el tablero', close: 'Cerrar' },
+            tokensUsed: usage
+        });
+        const translator = createTranslator(translate);
+        translator.setGlossary({ doNotTranslate: [], terms: { Dashboard: { es: 'Panel' }, Workspace: { es: 'Espacio' } } });
+
+        const result = await translator.translateChunk({ open: 'Open dashboard', close: 'Close' }, 'es', 'chunk_1');
+
+        expect(translate.mock.calls[0][2].glossary).toEqual([{ term: 'Dashboard', translation: 'Panel' }]);
+        expect(result.translatedContent).toEqual({ open: 'Abrir el tablero', close: 'Cerrar' });
+        expect(result.glossaryViolations).toEqual({ open: [{ term: 'Dashboard', expected: 'Panel' }] });
+    });
+
+    it('should serve repeated source text from the translation memory', async () => {
+        const memory = { lookup: jest.fn(), store: jest.fn(), findSimilar: jest.fn(() => []) };
+        memory.lookup.mockImplementation((source: string) => source === 'Save' ? { translation: 'Guardar', tokens: 6 } : undefined);
+        const translate = jest.fn().mockResolvedValue({
+            translatedContent: { delete: 'Eliminar' },
+            tokensUsed: { inputTokens: 10, outputTokens: 4 }
+        });
+        const translator = createTranslator(translate);
+        translator.setTranslationMemory(memory as unknown as TranslationMemory, { sourceLang: 'en' });
+
+        const result = await translator.translateChunk({ save: 'Save', delete: 'Delete' }, 'es', 'chunk_1');
+
+        expect(translate.mock.calls[0][0]).toEqual({ delete: 'Delete' });
+        expect(result.translatedContent).toEqual({ save: 'Guardar', delete: 'Eliminar' });
+        expect(result.memoryHits).toBe(1);
+        expect(result.tokensSaved).toBe(6);
+        expect(memory.store).toHaveBeenCalledWith('Delete', 'Eliminar', 14, { sourceLang: 'en', provider: 'openai/default', targetLang: 'es' });
+    });
+
+    it('should skip the provider when every key is in the translation memory', async () => {
+        const memory = { lookup: jest.fn(() => ({ translation: 'Guardar', tokens: 3 })), store: jest.fn(), findSimilar: jest.fn() };
+        const translate = jest.fn();
+        const translator = createTranslator(translate);
+        translator.setTranslationMemory(memory as unknown as TranslationMemory, { sourceLang: 'en' });
+
+        const result = await translator.translateChunk({ save: 'Save' }, 'es', 'chunk_1');
+
+        expect(translate).not.toHaveBeenCalled();
+        expect(result.translatedContent).toEqual({ save: 'Guardar' });
+        expect(result.tokensUsed).toEqual({ inputTokens: 0, outputTokens: 0 });
+    });
+
+    it('should pass similar translation memory entries as references', async () => {
+        const reference = { source: 'Delete users', translation: 'Eliminar usuarios', similarity: 0.92 };
+        const memory = { lookup: jest.fn(), store: jest.fn(), findSimilar: jest.fn(() => [reference]) };
+        const translate = jest.fn().mockResolvedValue({ translatedContent: { remove: 'Eliminar usuario' }, tokensUsed: usage });
+        const translator = createTranslator(translate);
+        translator.setTranslationMemory(memory as unknown as TranslationMemory, { sourceLang: 'en' });
+
+        await translator.translateChunk({ remove: 'Delete user' }, 'es', 'chunk_1');
+
+        expect(memory.findSimilar).toHaveBeenCalledWith('Delete user', { sourceLang: 'en', provider: 'openai/default', targetLang: 'es' }, 3, 0.8);
+        expect(translate.mock.calls[0][2].references).toEqual({ remove: [reference] });
+    });
+
+    it('should send developer notes for the keys in the request', async () => {
+        const translate = jest.fn().mockResolvedValue({ translatedContent: { post: 'Publicar' }, tokensUsed: usage });
+
+        await createTranslator(translate).translateChunk(
+            { post: 'Post' },
+            'es',
+            'chunk_1',
+            { post: ['Verb: publish a post'], other: ['Not in this chunk'] }
+        );
+
+        expect(translate.mock.calls[0][2].keyNotes).toEqual({ post: ['Verb: publish a post'] });
+    });
+
+    it('should not use the translation memory for keys with developer notes', async () => {
+        const memory = { lookup: jest.fn(() => ({ translation: 'Entrada', tokens: 3 })), store: jest.fn(), findSimilar: jest.fn(() => []) };
+        const translate = jest.fn().mockResolvedValue({ translatedContent: { post: 'Publicar' }, tokensUsed: usage });
+        const translator = createTranslator(translate);
+        translator.setTranslationMemory(memory as unknown as TranslationMemory, { sourceLang: 'en' });
+
+        const result = await translator.translateChunk({ post: 'Post', title: 'Post' }, 'es', 'chunk_1', { post: ['Verb: publish a post'] });
+
+        expect(translate.mock.calls[0][0]).toEqual({ post: 'Post' });
+        expect(translate.mock.calls[0][2].keyNotes).toEqual({ post: ['Verb: publish a post'] });
+        expect(result.translatedContent).toEqual({ post: 'Publicar', title: 'Entrada' });
+        expect(memory.store).not.toHaveBeenCalled();
+    });
+
+    it('should report streamed keys restored and skip ones that will be retried', async () => {
+        const translate = jest.fn(async (_content: any, _lang: string, _hints: any, onEntry?: (key: string, value: any) => void) => {
+            const response = { greeting: 'Hola ⟦0⟧⟦1⟧⟦2⟧', count: '{cuenta} elementos', extra: 'Extra', plain: 'Guardar' };
+            Object.entries(response).forEach(([key, value]) => onEntry?.(key, value));
+            return { translatedContent: response, tokensUsed: usage };
+        });
+        const streamed: Array<[string, any]> = [];
+
+        await createTranslator(translate, 0).translateChunk(
+            { greeting: 'Hello <b>{name}</b>', count: '{n} items', plain: 'Save' },
+            'es',
+            'chunk_1',
+            {},
+            (key, value) => streamed.push([key, value])
+        );
+
+        expect(streamed).toEqual([['greeting', 'Hola <b>{name}</b>'], ['plain', 'Guardar']]);
+    });
+
+    it('should record which provider translated each accepted key', async () => {
+        const primary = 'openai (gpt-4o-mini)';
+        const fallback = 'ollama (gemma3:4b)';
+        const translate = jest.fn()
+            .mockResolvedValueOnce({
+                translatedContent: { save: 'Guardar', count: '{cuenta} elementos' },
+                tokensUsed: usage,
+                keyProviders: { save: fallback, count: fallback },
+                fallbackKeys: ['save', 'count']
+            })
+            .mockResolvedValueOnce({
+                translatedContent: { count: '⟦0⟧ elementos' },
+                tokensUsed: usage,
+                keyProviders: { count: primary },
+                fallbackKeys: []
+            });
+
+        const result = await createTranslator(translate).translateChunk({ save: 'Save', count: '{n} items' }, 'es', 'chunk_1');
+
+        expect(result.keyProviders).toEqual({ save: fallback, count: primary });
+        expect(result.fallbackKeys).toEqual(['save']);
+        expect(describeKeyProviders(result.keyProviders, result.fallbackKeys)).toBe(
+            'ollama (gemma3:4b) (fallback): 1 keys: save; openai (gpt-4o-mini): 1 keys'
+        );
+    });
+
+    it('should not serve fallback translations from the translation memory', async () => {
+        const fallback = { keyProviders: { save: 'ollama (gemma3:4b)', cancel: 'ollama (gemma3:4b)' }, fallbackKeys: ['save', 'cancel'] };
+        const translate = jest.fn()
+            .mockResolvedValueOnce({ translatedContent: { save: 'Speichern', cancel: 'Abbrechen' }, tokensUsed: usage, ...fallback })
+            .mockResolvedValueOnce({ translatedContent: { save: 'Sichern', cancel: 'Abbrechen' }, tokensUsed: usage, ...fallback });
+        const translator = createTranslator(translate);
+        // Never saved, so nothing is written to the path
+        translator.setTranslationMemory(new TranslationMemory(path.join(os.tmpdir(), 'i18n-nexus-unused', 'translation-memory.json'), logger), { sourceLang: 'en' });
+
+        await translator.translateChunk({ save: 'Save', cancel: 'Cancel' }, 'de', 'chunk_1');
+        const result = await translator.translateChunk({ save: 'Save', cancel: 'Cancel' }, 'de', 'chunk_1');
+
+        expect(translate).toHaveBeenCalledTimes(2);
+        expect(translate.mock.calls[1][0]).toEqual({ save: 'Save', cancel: 'Cancel' });
+        expect(result.memoryHits).toBe(0);
+        expect(result.fallbackKeys).toEqual(['save', 'cancel']);
+    });
+});
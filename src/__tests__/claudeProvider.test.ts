@@ -0,0 +1,166 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '../logger';
+import { StaticConfiguration } from '../cliSettings';
+import { ClaudeProvider, resolveMessagesUrl } from '../providers/claude-provider';
+import { RetryPolicy } from '../providers/retry-policy';
+
+interface RecordedRequest {
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+describe('ClaudeProvider', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let reply: (body: any) => { status: number; body?: any; events?: any[] };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => raw += chunk);
+            req.on('end', () => {
+                const body = JSON.parse(raw);
+                requests.push({ url: req.url, headers: req.headers, body });
+                const response = reply(body);
+                if (response.events) {
+                    res.writeHead(response.status, { 'Content-Type': 'text/event-stream' });
+                    response.events.forEach(event => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+                    res.end();
+                    return;
+                }
+                res.writeHead(response.status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify(response.body));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+    });
+
+    const createProvider = (model = 'claude-3-5-haiku-20241022') => {
+        const provider = new ClaudeProvider();
+        provider.initialize(
+            new StaticConfiguration({ llmApiKey: 'test-key', llmApiUrl: baseUrl, llmModel: model }),
+            logger,
+            new RetryPolicy(logger, { maxRetries: 0 })
+        );
+        return provider;
+    };
+    const toolReply = (input: Record<string, string>, stopReason = 'tool_use') => ({
+        status: 200,
+        body: {
+            type: 'message',
+            role: 'assistant',
+            content: [{ type: 'tool_use', id: 'toolu_1', name: 'translations', input }],
+            stop_reason: stopReason,
+            usage: { input_tokens: 321, output_tokens: 45, cache_read_input_tokens: 10 }
+        }
+    });
+
+    it('should post to the Messages API with a system prompt and report the real usage', async () => {
+        reply = () => toolReply({ 'home.title': 'Inicio' });
+
+        const result = await createProvider().translate({ 'home.title': 'Home' }, 'es', { instructions: ['Use the informal "tú"'] });
+
+        const [request] = requests;
+        expect(request.url).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('test-key');
+        expect(request.headers['anthropic-version']).toBe('2023-06-01');
+        expect(request.body.model).toBe('claude-3-5-haiku-20241022');
+        expect(request.body.system).toContain('to es');
+        expect(request.body.system).toContain('Use the informal "tú"');
+        expect(request.body.messages).toEqual([{ role: 'user', content: expect.stringContaining('"home.title": "Home"') }]);
+        expect(request.body.tool_choice).toEqual({ type: 'tool', name: 'translations' });
+        expect(request.body).not.toHaveProperty('prompt');
+        expect(result).toEqual({ translatedContent: { 'home.title': 'Inicio' }, tokensUsed: { inputTokens: 331, outputTokens: 45 } });
+    });
+
+    it('should size max_tokens from the chunk within the model output limit', async () => {
+        reply = body => toolReply(Object.fromEntries(Object.keys(body.tools[0].input_schema.properties).map(key => [key, 'x'])));
+        const chunk = (keys: number) => Object.fromEntries(
+            Array.from({ length: keys }, (_, i) => [`page.section${i}.text`, 'A sentence of medium length that needs translating.'])
+        );
+
+        await createProvider().translate(chunk(2), 'de');
+        await createProvider().translate(chunk(200), 'de');
+        await createProvider('claude-3-haiku-20240307').translate(chunk(400), 'ja');
+
+        const maxTokens = requests.map(request => request.body.max_tokens);
+        expect(maxTokens[0]).toBe(1024);
+        expect(maxTokens[1]).toBeGreaterThan(3000);
+        expect(maxTokens[1]).toBeLessThanOrEqual(8192);
+        expect(maxTokens[2]).toBe(4096);
+    });
+
+    it('should fail instead of returning a truncated translation', async () => {
+        reply = () => toolReply({ 'home.title': 'Inicio' }, 'max_tokens');
+
+        await expect(createProvider().translate({ 'home.title': 'Home' }, 'es')).rejects.toThrow('stopped at max_tokens (1024)');
+    });
+
+    it('should surface API errors', async () => {
+        reply = () => ({ status: 400, body: { type: 'error', error: { type: 'invalid_request_error', message: 'model: not found' } } });
+
+        await expect(createProvider().translate({ 'home.title': 'Home' }, 'es')).rejects.toMatchObject({ response: { status: 400 } });
+    });
+
+    it('should stream the tool input with the usage of the whole message', async () => {
+        const partialJson = ['{"home.ti', 'tle": "Ini', 'cio", "home.save": "Guar', 'dar"}'];
+        reply = () => ({
+            status: 200,
+            events: [
+                { type: 'message_start', message: { usage: { input_tokens: 300, cache_read_input_tokens: 20, output_tokens: 1 } } },
+                { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'translations', input: {} } },
+                ...partialJson.map(partial_json => ({ type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json } })),
+                { type: 'content_block_stop', index: 0 },
+                { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 42 } },
+                { type: 'message_stop' }
+            ]
+        });
+
+        const deltas = [];
+        for await (const delta of createProvider().translateStream({ 'home.title': 'Home', 'home.save': 'Save' }, 'es')) {
+            deltas.push(delta);
+        }
+
+        expect(requests[0].body).toMatchObject({ stream: true, tool_choice: { type: 'tool', name: 'translations' } });
+        expect(deltas.map(delta => delta.text).join('')).toBe('{"home.title": "Inicio", "home.save": "Guardar"}');
+        expect(deltas[deltas.length - 1].tokensUsed).toEqual({ inputTokens: 320, outputTokens: 42 });
+
+        reply = () => ({ status: 200, events: [{ type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 1024 } }] });
+        const truncated = createProvider().translateStream({ 'home.title': 'Home' }, 'es')[Symbol.asyncIterator]();
+        await expect(truncated.next()).rejects.toThrow('stopped at max_tokens (1024)');
+    });
+
+    it('should read text blocks for validation', async () => {
+        reply = () => ({
+            status: 200,
+            body: { content: [{ type: 'text', text: 'true' }], stop_reason: 'end_turn', usage: { input_tokens: 20, output_tokens: 1 } }
+        });
+
+        const result = await createProvider().validateTranslation({ a: 'Home' }, { a: 'Inicio' }, 'es');
+
+        expect(result).toEqual({ isValid: true, tokensUsed: { inputTokens: 20, outputTokens: 1 } });
+        expect(requests[0].body).not.toHaveProperty('tools');
+    });
+
+    it('should accept the API base, the Messages endpoint or the legacy completions URL, but not another provider\'s API', () => {
+        expect(resolveMessagesUrl(undefined)).toBe('https://api.anthropic.com/v1/messages');
+        expect(resolveMessagesUrl('https://api.anthropic.com/v1/')).toBe('https://api.anthropic.com/v1/messages');
+        expect(resolveMessagesUrl('https://api.anthropic.com/v1/messages')).toBe('https://api.anthropic.com/v1/messages');
+        expect(resolveMessagesUrl('https://proxy.example.com/v1/complete')).toBe('https://proxy.example.com/v1/messages');
+        expect(resolveMessagesUrl('https://api.openai.com/v1/responses')).toBe('https://api.anthropic.com/v1/messages');
+        expect(resolveMessagesUrl('http://localhost:11434')).toBe('https://api.anthropic.com/v1/messages');
+    });
+});
@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main, parseArgs, EXIT_OK, EXIT_TRANSLATION_FAILED, EXIT_USAGE, CliIO } from '../cli';
+import { StaticConfiguration, getTargetLanguages, loadSettingsFile } from '../cliSettings';
+import { createProvider } from '../provider-factory';
+
+jest.mock('../provider-factory', () => ({
+    createProvider: jest.fn()
+}));
+
+describe('CLI', () => {
+    let workDir: string;
+    let io: CliIO;
+    let stdout: string[];
+    let stderr: string[];
+
+    const writeJson = (relativePath: string, content: any) => {
+        const filePath = path.join(workDir, relativePath);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, JSON.stringify(content, null, 2));
+    };
+    const readJson = (relativePath: string) => JSON.parse(fs.readFileSync(path.join(workDir, relativePath), 'utf8'));
+
+    const mockProvider = (translate: (content: any, lang: string) => Promise<any>) => {
+        (createProvider as jest.Mock).mockReturnValue({
+            initialize: jest.fn(),
+            translate: jest.fn(translate),
+            compareAndUpdate: jest.fn(),
+            validateTranslation: jest.fn(),
+            getProviderName: () => 'Mock'
+        });
+    };
+
+    beforeEach(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-cli-'));
+        stdout = [];
+        stderr = [];
+        io = {
+            cwd: workDir,
+            env: {},
+            stdout: line => stdout.push(line),
+            stderr: line => stderr.push(line)
+        };
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    describe('parseArgs', () => {
+        it('should parse the translate command and its options', () => {
+            const options = parseArgs(['translate', '--base', 'en', '--targets=fa,es', '--dir', 'locales', '--verbose']);
+
+            expect(options).toEqual({
+                command: 'translate',
+                base: 'en',
+                targets: 'fa,es',
+                dir: 'locales',
+                prune: false,
+                verbose: true,
+                help: false
+            });
+        });
+
+        it('should reject unknown options and missing values', () => {
+            expect(() => parseArgs(['translate', '--nope'])).toThrow('Unknown option: --nope');
+            expect(() => parseArgs(['translate', '--targets'])).toThrow('Missing value for --targets');
+        });
+    });
+
+    describe('settings', () => {
+        it('should accept prefixed VS Code setting keys', () => {
+            writeJson('.i18n-nexusrc', { 'i18nNexus.basePath': 'locales', llmProvider: 'ollama' });
+
+            expect(loadSettingsFile(path.join(workDir, '.i18n-nexusrc'))).toEqual({ basePath: 'locales', llmProvider: 'ollama' });
+        });
+
+        it('should read target languages from a map or a list', () => {
+            expect(getTargetLanguages({ en: true, fa: true, es: false }, 'en')).toEqual(['fa']);
+            expect(getTargetLanguages('fa, es,en', 'en')).toEqual(['fa', 'es']);
+        });
+
+        it('should fall back to defaults in StaticConfiguration', () => {
+            const config = new StaticConfiguration({ chunkSize: 10 });
+
+            expect(config.get('chunkSize', 50)).toBe(10);
+            expect(config.get('autoSaveInterval', 100)).toBe(100);
+            expect(config.get('llmModel')).toBeUndefined();
+        });
+    });
+
+    describe('translate', () => {
+        it('should translate missing keys and write every target file', async () => {
+            writeJson('messages/en.json', { home: { title: 'Home', save: 'Save' } });
+            writeJson('messages/fa.json', { home: {} });
+            mockProvider(async (content, lang) => ({
+                translatedContent: Object.fromEntries(Object.keys(content).map(key => [key, `${lang}:${content[key]}`])),
+                tokensUsed: { inputTokens: 3, outputTokens: 2 }
+            }));
+
+            const code = await main(['translate', '--targets', 'fa,es', '--provider', 'ollama'], io);
+
+            expect(code).toBe(EXIT_OK);
+            expect(readJson('messages/fa.json')).toEqual({ home: { title: 'fa:Home', save: 'fa:Save' } });
+            expect(readJson('messages/es.json')).toEqual({ home: { title: 'es:Home', save: 'es:Save' } });
+        });
+
+        it('should retranslate only base values that changed since the last run', async () => {
+            writeJson('messages/en.json', { home: { title: 'Home', save: 'Save' } });
+            const requested: string[][] = [];
+            mockProvider(async (content, lang) => {
+                requested.push(Object.keys(content));
+                return {
+                    translatedContent: Object.fromEntries(Object.keys(content).map(key => [key, `${lang}:${content[key]}`])),
+                    tokensUsed: { inputTokens: 3, outputTokens: 2 }
+                };
+            });
+
+            await main(['translate', '--targets', 'fa', '--provider', 'ollama'], io);
+            writeJson('messages/en.json', { home: { title: 'Home', save: 'Save changes' } });
+            requested.length = 0;
+            const code = await main(['translate', '--targets', 'fa', '--provider', 'ollama'], io);
+
+            expect(code).toBe(EXIT_OK);
+            expect(requested).toEqual([['home.save']]);
+            expect(readJson('messages/fa.json')).toEqual({ home: { title: 'fa:Home', save: 'fa:Save changes' } });
+            expect(Object.keys(readJson('i18n-nexus.lock.json').locales.fa)).toEqual(['home.save', 'home.title']);
+        });
+
+        it('should report orphaned keys and remove them only with --prune', async () => {
+            writeJson('messages/en.json', { home: { title: 'Home', save: 'Save' } });
+            writeJson('messages/fa.json', { home: { title: 'خانه', legacy: 'قدیمی' }, old: { a: 'الف', b: 'ب' } });
+            const requested: string[][] = [];
+            mockProvider(async (content, lang) => {
+                requested.push(Object.keys(content));
+                return {
+                    translatedContent: Object.fromEntries(Object.keys(content).map(key => [key, `${lang}:${content[key]}`])),
+                    tokensUsed: { inputTokens: 3, outputTokens: 2 }
+                };
+            });
+
+            await main(['translate', '--targets', 'fa', '--provider', 'ollama'], io);
+
+            expect(requested).toEqual([['home.save']]);
+            expect(readJson('messages/fa.json')).toEqual({ home: { title: 'خانه', legacy: 'قدیمی', save: 'fa:Save' }, old: { a: 'الف', b: 'ب' } });
+            expect(stdout).toContain('fa: 2 orphaned keys no longer in en.json, pass --prune to remove them: home.legacy, old');
+
+            const code = await main(['translate', '--targets', 'fa', '--provider', 'ollama', '--prune'], io);
+
+            expect(code).toBe(EXIT_OK);
+            expect(requested).toHaveLength(1);
+            expect(readJson('messages/fa.json')).toEqual({ home: { title: 'خانه', save: 'fa:Save' } });
+            expect(stdout).toContain('fa: up to date, 2 orphaned keys removed');
+        });
+
+        it('should exit non-zero when a chunk fails', async () => {
+            writeJson('messages/en.json', { title: 'Home' });
+            mockProvider(async () => {
+                throw new Error('rate limited');
+            });
+
+            const code = await main(['translate', '--targets', 'fa', '--provider', 'ollama'], io);
+
+            expect(code).toBe(EXIT_TRANSLATION_FAILED);
+            expect(stderr.join('\n')).toContain('rate limited');
+            expect(fs.existsSync(path.join(workDir, 'messages/fa.json'))).toBe(false);
+        });
+
+        it('should require an API key for cloud providers', async () => {
+            writeJson('messages/en.json', { title: 'Home' });
+
+            const code = await main(['translate', '--targets', 'fa', '--provider', 'openai'], io);
+
+            expect(code).toBe(EXIT_USAGE);
+            expect(stderr[0]).toContain('API key not configured');
+        });
+    });
+});
@@ -0,0 +1,58 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { diffBaseContent, getBaseChangesSince, prepareChangedContent, readFileAtRevision } from '../gitChanges';
+
+describe('gitChanges', () => {
+    let repoDir: string;
+    let baseFilePath: string;
+
+    const git = (...args: string[]) => execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], { cwd: repoDir });
+    const writeBase = (content: Record<string, any>) => fs.writeFileSync(baseFilePath, JSON.stringify(content, null, 2));
+
+    beforeEach(() => {
+        repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-git-'));
+        fs.mkdirSync(path.join(repoDir, 'messages'));
+        baseFilePath = path.join(repoDir, 'messages', 'en.json');
+        git('init', '-q', '-b', 'main');
+        fs.writeFileSync(path.join(repoDir, 'README.md'), 'test');
+        git('add', '-A');
+        git('commit', '-q', '-m', 'initial');
+    });
+
+    afterEach(() => {
+        fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should diff flattened message keys and ignore notes', () => {
+        const previous = { home: { title: 'Home', save: 'Save', '@save': 'Button' }, legacy: 'Old' };
+        const current = { home: { title: 'Home', save: 'Save changes', '@save': 'Primary button', cancel: 'Cancel' } };
+
+        expect(diffBaseContent(previous, current)).toEqual({ added: ['home.cancel'], modified: ['home.save'], removed: ['legacy'] });
+    });
+
+    it('should read the base file at a revision, or null before it existed', async () => {
+        expect(await readFileAtRevision(baseFilePath, 'main')).toBeNull();
+
+        writeBase({ title: 'Home' });
+        git('add', '-A');
+        git('commit', '-q', '-m', 'add base');
+
+        expect(JSON.parse((await readFileAtRevision(baseFilePath, 'main'))!)).toEqual({ title: 'Home' });
+        await expect(readFileAtRevision(baseFilePath, 'no-such-branch')).rejects.toThrow('Could not read en.json at no-such-branch');
+    });
+
+    it('should report keys changed in the working copy since a tag', async () => {
+        writeBase({ home: { title: 'Home', save: 'Save' }, legacy: 'Old' });
+        git('add', '-A');
+        git('commit', '-q', '-m', 'add base');
+        git('tag', 'v1.0.0');
+        writeBase({ home: { title: 'Home', save: 'Save changes', cancel: 'Cancel' } });
+
+        const changes = await getBaseChangesSince(baseFilePath, JSON.parse(fs.readFileSync(baseFilePath, 'utf8')), 'v1.0.0');
+
+        expect(changes).toEqual({ revision: 'v1.0.0', added: ['home.cancel'], modified: ['home.save'], removed: ['legacy'] });
+        expect(prepareChangedContent({ home: { title: 'Home', save: 'Save changes', cancel: 'Cancel' } }, changes)).toEqual({ 'home.cancel': 'Cancel', 'home.save': 'Save changes' });
+    });
+});
@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Glossary, checkGlossary, getRelevantTerms, loadGlossary } from '../glossary';
+
+describe('glossary', () => {
+    const glossary: Glossary = {
+        doNotTranslate: ['Workspace'],
+        terms: { Dashboard: { fa: 'داشبورد', es: 'Panel' } }
+    };
+
+    describe('loadGlossary', () => {
+        let workDir: string;
+
+        beforeEach(() => {
+            workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-glossary-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(workDir, { recursive: true, force: true });
+        });
+
+        it('should read terms and the do-not-translate list', () => {
+            const filePath = path.join(workDir, 'i18n-nexus.glossary.json');
+            fs.writeFileSync(filePath, JSON.stringify(glossary));
+
+            expect(loadGlossary(filePath)).toEqual(glossary);
+        });
+
+        it('should reject malformed entries', () => {
+            const filePath = path.join(workDir, 'i18n-nexus.glossary.json');
+            fs.writeFileSync(filePath, JSON.stringify({ terms: { Dashboard: 'Panel' } }));
+
+            expect(() => loadGlossary(filePath)).toThrow('translations of "Dashboard"');
+        });
+    });
+
+    describe('getRelevantTerms', () => {
+        it('should only return whole-word terms used in the values', () => {
+            const terms = getRelevantTerms(glossary, ['Open the dashboard', 'Workspaces', 42], 'es');
+
+            expect(terms).toEqual([{ term: 'Dashboard', translation: 'Panel' }]);
+        });
+
+        it('should skip terms without a translation for the language', () => {
+            expect(getRelevantTerms(glossary, ['Dashboard of the Workspace'], 'de')).toEqual([
+                { term: 'Workspace', translation: 'Workspace' }
+            ]);
+        });
+    });
+
+    describe('checkGlossary', () => {
+        const terms = getRelevantTerms(glossary, ['Workspace dashboard'], 'es');
+
+        it('should flag terms translated differently', () => {
+            expect(checkGlossary(terms, 'Workspace dashboard', 'Tablero del espacio de trabajo')).toEqual([
+                { term: 'Workspace', expected: 'Workspace' },
+                { term: 'Dashboard', expected: 'Panel' }
+            ]);
+        });
+
+        it('should accept values that use the required translations', () => {
+            expect(checkGlossary(terms, 'Workspace dashboard', 'Panel del Workspace')).toEqual([]);
+        });
+    });
+});
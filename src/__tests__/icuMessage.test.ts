@@ -0,0 +1,97 @@
+import {
+    IcuParseError,
+    getMessageSignature,
+    getPluralCategories,
+    getPluralExpansions,
+    isTranslationStructureValid,
+    maskMessage,
+    parseIcuMessage,
+    unmaskMessage
+} from '../icuMessage';
+
+describe('icuMessage', () => {
+    const plural = 'You have {count, plural, =0 {no items} one {# item} other {# items}} in <b>{cart}</b>';
+
+    describe('parseIcuMessage', () => {
+        it('should describe arguments, plural selectors and tags in the signature', () => {
+            expect(getMessageSignature(parseIcuMessage(plural))).toEqual([
+                '<b></b>',
+                '{cart}',
+                '{count, plural: =0 one other}'
+            ]);
+        });
+
+        it('should treat quoted braces as text', () => {
+            expect(getMessageSignature(parseIcuMessage("Use '{braces}' for {name}"))).toEqual(['{name}']);
+        });
+
+        it('should reject broken messages', () => {
+            expect(() => parseIcuMessage('{count, plural, one {# item}}')).toThrow(IcuParseError);
+            expect(() => parseIcuMessage('<b>bold')).toThrow('Unclosed tag <b>');
+            expect(() => parseIcuMessage('Hello {name')).toThrow(IcuParseError);
+        });
+    });
+
+    describe('plural categories', () => {
+        it('should list the CLDR categories of a locale', () => {
+            expect(getPluralCategories('ar')).toEqual(['zero', 'one', 'two', 'few', 'many', 'other']);
+            expect(getPluralCategories('ru')).toEqual(['one', 'few', 'many', 'other']);
+            expect(getPluralCategories('en', 'selectordinal')).toEqual(['one', 'two', 'few', 'other']);
+        });
+
+        it('should only report plurals whose branches differ in the target locale', () => {
+            const nodes = parseIcuMessage(plural);
+
+            expect(getPluralExpansions(nodes, 'de')).toEqual([]);
+            expect(getPluralExpansions(nodes, 'ar')).toEqual(['{count, plural}: =0, zero, one, two, few, many, other']);
+        });
+
+        it('should expect the target categories in the signature', () => {
+            const signature = getMessageSignature(parseIcuMessage('{n, plural, one {# day} other {# days}}'), 'ja');
+
+            expect(isTranslationStructureValid(signature, '{n, plural, other {#日}}')).toBe(true);
+            expect(isTranslationStructureValid(signature, '{n, plural, one {#日} other {#日}}')).toBe(false);
+        });
+    });
+
+    describe('maskMessage', () => {
+        it('should round-trip the original message', () => {
+            const { text, fragments } = maskMessage(plural);
+
+            expect(text).not.toContain('{');
+            expect(text).toContain('no items');
+            expect(unmaskMessage(text, fragments)).toBe(plural);
+        });
+
+        it('should restore syntax around translated text', () => {
+            const { text, fragments } = maskMessage('Hello <b>{name}</b>!');
+            const translated = text.replace('Hello', 'Hola').replace('!', '¡');
+
+            expect(unmaskMessage(translated, fragments)).toBe('Hola <b>{name}</b>¡');
+        });
+
+        it('should return null when tokens are dropped or duplicated', () => {
+            const { fragments } = maskMessage('Hi {name}, {count} new');
+
+            expect(unmaskMessage('Hi ⟦0⟧ new', fragments)).toBeNull();
+            expect(unmaskMessage('⟦0⟧ ⟦0⟧ ⟦1⟧', fragments)).toBeNull();
+            expect(unmaskMessage('⟦0⟧ ⟦1⟧ ⟦2⟧', fragments)).toBeNull();
+        });
+    });
+
+    describe('isTranslationStructureValid', () => {
+        const signature = getMessageSignature(parseIcuMessage(plural));
+
+        it('should accept a translation with the same structure', () => {
+            const translated = 'Tienes {count, plural, =0 {ningún artículo} one {# artículo} other {# artículos}} en <b>{cart}</b>';
+
+            expect(isTranslationStructureValid(signature, translated)).toBe(true);
+        });
+
+        it('should reject renamed arguments, changed selectors and unbalanced tags', () => {
+            expect(isTranslationStructureValid(signature, 'Tienes {cuenta, plural, =0 {a} one {b} other {c}} en <b>{cart}</b>')).toBe(false);
+            expect(isTranslationStructureValid(signature, 'Tienes {count, plural, one {b} other {c}} en <b>{cart}</b>')).toBe(false);
+            expect(isTranslationStructureValid(signature, 'Tienes {count, plural, =0 {a} one {b} other {c}} en <b>{cart}')).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { IncrementalJsonParser } from '../incrementalJson';
+
+describe('IncrementalJsonParser', () => {
+    const response = '```json\n{\n  "home.title": "Inicio \\"nuevo\\"",\n  "home.count": 3,\n  "nav": { "a": "b", "list": ["x", "}"] },\n  "empty": null\n}\n```';
+
+    it('should emit every member as soon as its value is complete', () => {
+        const parser = new IncrementalJsonParser();
+        const emitted: Array<[string, any, number]> = [];
+        [...response].forEach((char, index) => parser.push(char).forEach(([key, value]) => emitted.push([key, value, index])));
+
+        expect(emitted.map(([key, value]) => [key, value])).toEqual([
+            ['home.title', 'Inicio "nuevo"'],
+            ['home.count', 3],
+            ['nav', { a: 'b', list: ['x', '}'] }],
+            ['empty', null]
+        ]);
+        // A string is complete at its closing quote, a number only at the next separator
+        expect(response[emitted[0][2]]).toBe('"');
+        expect(response[emitted[1][2]]).toBe(',');
+        expect(parser.isComplete()).toBe(true);
+        expect(parser.getResult()).toEqual(JSON.parse(response.slice(response.indexOf('{'), response.lastIndexOf('}') + 1)));
+    });
+
+    it('should handle multi-character pieces split anywhere', () => {
+        const parser = new IncrementalJsonParser();
+
+        expect(parser.push('{"gre')).toEqual([]);
+        expect(parser.push('eting": "Hola, ')).toEqual([]);
+        expect(parser.push('mundo", "bye": "Adiós", "x')).toEqual([['greeting', 'Hola, mundo'], ['bye', 'Adiós']]);
+        expect(parser.isComplete()).toBe(false);
+        expect(parser.getResult()).toEqual({ greeting: 'Hola, mundo', bye: 'Adiós' });
+    });
+
+    it('should reject text that is not a JSON object', () => {
+        expect(() => new IncrementalJsonParser().push('{ key: "value" }')).toThrow('Unexpected "k"');
+    });
+});
@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectInlineNotes, getKeyNotes } from '../keyNotes';
+import { prepareTranslationContent } from '../translationCore';
+
+describe('keyNotes', () => {
+    const base = {
+        _comment: 'Maintained by the web team',
+        post: 'Post',
+        '@post': 'Verb: publish a post',
+        dialog: {
+            _comment: 'Buttons of the share dialog',
+            close: 'Close',
+            '@close': { description: 'Closes the dialog, not "near"' },
+            title: 'Share'
+        }
+    };
+
+    it('should read @key notes and namespace comments but not the file comment', () => {
+        expect(collectInlineNotes(base)).toEqual({
+            post: ['Verb: publish a post'],
+            'dialog.close': ['Buttons of the share dialog', 'Closes the dialog, not "near"'],
+            'dialog.title': ['Buttons of the share dialog']
+        });
+    });
+
+    it('should merge base and target sidecar files', () => {
+        const localeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-notes-'));
+        try {
+            fs.writeFileSync(path.join(localeDir, 'en.meta.json'), JSON.stringify({ dialog: { title: 'Dialog heading' } }));
+            fs.writeFileSync(path.join(localeDir, 'de.meta.json'), JSON.stringify({ 'post': 'Use "Beitrag veröffentlichen"' }));
+
+            const notes = getKeyNotes(localeDir, 'en', 'de', base);
+
+            expect(notes['dialog.title']).toEqual(['Buttons of the share dialog', 'Dialog heading']);
+            expect(notes.post).toEqual(['Verb: publish a post', 'Use "Beitrag veröffentlichen"']);
+            expect(getKeyNotes(localeDir, 'en', 'fr', base).post).toEqual(['Verb: publish a post']);
+        } finally {
+            fs.rmSync(localeDir, { recursive: true, force: true });
+        }
+    });
+
+    it('should keep notes out of the content to translate', () => {
+        const toTranslate = prepareTranslationContent(base, { _comment: 'Von der Web-Abteilung gepflegt' }, { hashes: {} });
+
+        expect(Object.keys(toTranslate).sort()).toEqual(['dialog.close', 'dialog.title', 'post']);
+    });
+});
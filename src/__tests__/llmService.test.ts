@@ -0,0 +1,176 @@
+import { Logger } from '../logger';
+import { StaticConfiguration } from '../cliSettings';
+import { LLMService, matchesLanguagePattern } from '../llmService';
+import { ProviderConfiguration } from '../llm-provider.interface';
+import { createProvider } from '../provider-factory';
+import { ResponseParseError } from '../providers/response-schema';
+
+jest.mock('../provider-factory', () => ({
+    createProvider: jest.fn()
+}));
+
+describe('LLMService', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    let providers: Array<{ name: string; config: ProviderConfiguration; languages: string[] }>;
+    /** Errors the next calls of a provider fail with, in order */
+    let failures: Record<string, unknown[]>;
+    /** Errors a provider's setup fails with */
+    let setupFailures: Record<string, Error>;
+
+    beforeEach(() => {
+        providers = [];
+        failures = {};
+        setupFailures = {};
+        (createProvider as jest.Mock).mockImplementation((name: string) => {
+            const provider = { name, config: null as unknown as ProviderConfiguration, languages: [] as string[] };
+            providers.push(provider);
+            return {
+                initialize: jest.fn((config: ProviderConfiguration) => {
+                    if (setupFailures[name]) {
+                        throw setupFailures[name];
+                    }
+                    provider.config = config;
+                }),
+                translate: jest.fn(async (content: Record<string, string>, lang: string) => {
+                    const failure = failures[name]?.shift();
+                    if (failure) {
+                        throw failure;
+                    }
+                    provider.languages.push(lang);
+                    return {
+                        translatedContent: Object.fromEntries(Object.keys(content).map(key => [key, `${lang}:${content[key]}`])),
+                        tokensUsed: { inputTokens: 1, outputTokens: 1 }
+                    };
+                }),
+                validateTranslation: jest.fn(),
+                getProviderName: () => name
+            };
+        });
+    });
+
+    const createService = (settings: Record<string, unknown>) =>
+        new LLMService(logger, () => new StaticConfiguration({ llmProvider: 'openai', llmApiKey: 'sk-openai', ...settings }));
+
+    it('should keep a provider per language route', async () => {
+        const service = createService({
+            llmTemperature: 0.5,
+            languageRoutes: {
+                'ja': { provider: 'claude', model: 'claude-3-5-haiku-latest', apiKey: 'sk-ant' },
+                'de, fr, es-*': { provider: 'openai', model: 'gpt-4o', temperature: 0.2 }
+            }
+        });
+
+        for (const lang of ['ja', 'es-MX', 'de', 'it', 'ja', 'pt']) {
+            await service.translate({ save: 'Save' }, lang);
+        }
+
+        expect(providers.map(({ name, languages }) => [name, languages])).toEqual([
+            ['claude', ['ja', 'ja']],
+            ['openai', ['es-MX', 'de']],
+            ['openai', ['it', 'pt']]
+        ]);
+        const [claude, european, selected] = providers.map(provider => provider.config);
+        expect(['llmModel', 'llmApiKey', 'llmApiUrl', 'llmTemperature'].map(key => claude.get(key)))
+            .toEqual(['claude-3-5-haiku-latest', 'sk-ant', '', 0.5]);
+        expect(['llmModel', 'llmApiKey', 'llmTemperature'].map(key => european.get(key))).toEqual(['gpt-4o', 'sk-openai', 0.2]);
+        expect(['llmModel', 'llmApiKey', 'llmTemperature'].map(key => selected.get(key))).toEqual([undefined, 'sk-openai', 0.5]);
+    });
+
+    it('should report the routed provider of each key and its model', async () => {
+        const service = createService({ languageRoutes: { 'x-*': { provider: 'ollama', model: 'gemma3:4b' } } });
+
+        const result = await service.translate({ save: 'Save' }, 'x-pseudo');
+
+        expect(result.keyProviders).toEqual({ save: 'ollama (gemma3:4b)' });
+        expect(service.getLanguageModel('x-pseudo')).toEqual({ llmProvider: 'ollama', llmModel: 'gemma3:4b' });
+        expect(service.getLanguageModel('de')).toEqual({ llmProvider: 'openai', llmModel: undefined });
+    });
+
+    it('should size chunks for the context length requested from Ollama', () => {
+        const service = createService({ ollamaContextLength: 32768, languageRoutes: { 'x-*': { provider: 'ollama', model: 'gemma3:4b' } } });
+
+        expect(service.getLanguageModel('x-pseudo')).toEqual({ llmProvider: 'ollama', llmModel: 'gemma3:4b', contextWindow: 32768 });
+        expect(service.getLanguageModel('de')).not.toHaveProperty('contextWindow');
+    });
+
+    describe('fallback providers', () => {
+        const fallbackProviders = [{ provider: 'claude', apiKey: 'sk-ant' }, { provider: 'ollama' }];
+
+        it.each([
+            ['an unparsable response', new ResponseParseError('Response is not a JSON object')],
+            ['a rate limit', { status: 429, message: 'Too many requests' }],
+            ['a server error', { status: 503, message: 'Service unavailable' }]
+        ])('should fail over on %s', async (_, error) => {
+            failures.openai = [error];
+            const service = createService({ fallbackProviders });
+
+            const result = await service.translate({ save: 'Save' }, 'de');
+
+            expect(result.translatedContent).toEqual({ save: 'de:Save' });
+            expect(providers.map(({ name, languages }) => [name, languages])).toEqual([['openai', []], ['claude', ['de']]]);
+        });
+
+        it('should not fail over when the API key is invalid', async () => {
+            const error = { status: 401, message: 'Invalid API key' };
+            failures.openai = [error];
+            const service = createService({ fallbackProviders });
+
+            await expect(service.translate({ save: 'Save' }, 'de')).rejects.toBe(error);
+            expect(providers.map(({ name }) => name)).toEqual(['openai']);
+        });
+
+        it('should skip a fallback that is the language\'s own provider and model', async () => {
+            failures.openai = [{ status: 503, message: 'Service unavailable' }];
+            const service = createService({ fallbackProviders: [{ provider: 'openai' }, { provider: 'ollama' }] });
+
+            const result = await service.translate({ save: 'Save' }, 'de');
+
+            expect(providers.map(({ name, languages }) => [name, languages])).toEqual([['openai', []], ['ollama', ['de']]]);
+            expect(result.keyProviders).toEqual({ save: 'ollama (gemma3:4b)' });
+        });
+
+        it('should skip a fallback that cannot be set up', async () => {
+            failures.openai = [{ status: 503, message: 'Service unavailable' }];
+            setupFailures.claude = new Error('Claude API key is not set');
+            const service = createService({ fallbackProviders });
+
+            const result = await service.translate({ save: 'Save' }, 'de');
+
+            expect(providers.map(({ name, languages }) => [name, languages])).toEqual([['openai', []], ['claude', []], ['ollama', ['de']]]);
+            expect(result.keyProviders).toEqual({ save: 'ollama (gemma3:4b)' });
+        });
+
+        it('should rethrow the error of the last provider in the chain', async () => {
+            const lastError = { status: 500, message: 'Internal server error' };
+            failures.openai = [{ status: 503, message: 'Service unavailable' }];
+            failures.claude = [{ status: 429, message: 'Too many requests' }];
+            failures.ollama = [lastError];
+            const service = createService({ fallbackProviders });
+
+            await expect(service.translate({ save: 'Save' }, 'de')).rejects.toBe(lastError);
+        });
+
+        it('should report the provider and fallback state of each key', async () => {
+            failures.openai = [{ status: 503, message: 'Service unavailable' }];
+            const service = createService({ translationBatchSize: 1, fallbackProviders });
+
+            const result = await service.translate({ save: 'Save', cancel: 'Cancel' }, 'de');
+
+            expect(result.translatedContent).toEqual({ save: 'de:Save', cancel: 'de:Cancel' });
+            expect(result.keyProviders).toEqual({ save: 'claude (claude-3-5-sonnet-20241022)', cancel: 'openai (gpt-4o-mini)' });
+            expect(result.fallbackKeys).toEqual(['save']);
+        });
+    });
+
+    it('should match languages, globs and comma-separated lists', () => {
+        expect(matchesLanguagePattern('ja', 'ja')).toBe(true);
+        expect(matchesLanguagePattern('ja', 'JA')).toBe(true);
+        expect(matchesLanguagePattern('ja', 'ja-JP')).toBe(false);
+        expect(matchesLanguagePattern('zh-*', 'zh-Hant')).toBe(true);
+        expect(matchesLanguagePattern('zh-*', 'zh')).toBe(false);
+        expect(matchesLanguagePattern('pt-??', 'pt-BR')).toBe(true);
+        expect(matchesLanguagePattern('de, fr ,it', 'fr')).toBe(true);
+        expect(matchesLanguagePattern('de, fr', 'es')).toBe(false);
+        expect(matchesLanguagePattern('sr.Latn', 'sr-Latn')).toBe(false);
+    });
+});
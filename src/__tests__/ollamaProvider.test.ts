@@ -0,0 +1,193 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '../logger';
+import { StaticConfiguration } from '../cliSettings';
+import { LLMService } from '../llmService';
+import { OllamaProvider, listOllamaModels, resolveOllamaUrl } from '../providers/ollama-provider';
+import { RetryPolicy } from '../providers/retry-policy';
+
+interface RecordedRequest {
+    method?: string;
+    url?: string;
+    body: any;
+}
+
+describe('OllamaProvider', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: RecordedRequest[];
+    let installed: string[];
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            let raw = '';
+            req.on('data', chunk => raw += chunk);
+            req.on('end', () => {
+                const body = raw ? JSON.parse(raw) : undefined;
+                requests.push({ method: req.method, url: req.url, body });
+                if (req.url === '/v1/chat/completions') {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'Sorry, I cannot help with that.' } }] }));
+                } else if (req.url === '/api/tags') {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ models: installed.map(name => ({ name })) }));
+                } else if (req.url === '/api/pull') {
+                    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                    res.write('{"status":"pulling manifest"}\n{"status":"pulling 6a0746a1ec1a","total":200,');
+                    res.write('"completed":100}\n{"status":"pulling 6a0746a1ec1a","total":200,"completed":200}\n');
+                    installed.push(body.model);
+                    res.end('{"status":"success"}\n');
+                } else if (!installed.includes(body.model)) {
+                    res.writeHead(404, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({ error: `model "${body.model}" not found, try pulling it first` }));
+                } else if (body.stream) {
+                    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                    for (const content of ['{"home.title": "Ini', 'cio", "home.save": "Guar', 'dar"}']) {
+                        res.write(JSON.stringify({ model: body.model, message: { role: 'assistant', content }, done: false }) + '\n');
+                    }
+                    res.end(JSON.stringify({ model: body.model, message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 140, eval_count: 20 }) + '\n');
+                } else {
+                    res.writeHead(200, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify({
+                        model: body.model,
+                        message: { role: 'assistant', content: '{"home.title": "Inicio"}' },
+                        done: true,
+                        prompt_eval_count: 120,
+                        eval_count: 12
+                    }));
+                }
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        installed = ['gemma3:4b', 'llama3.1:8b'];
+    });
+
+    const createProvider = (settings: Record<string, any> = {}) => {
+        const provider = new OllamaProvider();
+        provider.initialize(
+            new StaticConfiguration({ llmApiUrl: `${baseUrl}/v1/chat/completions`, llmModel: 'gemma3:4b', ...settings }),
+            logger,
+            new RetryPolicy(logger, { maxRetries: 0 })
+        );
+        return provider;
+    };
+
+    it('should call the native chat API with a schema, num_ctx and keep_alive', async () => {
+        const result = await createProvider({ ollamaContextLength: 16384, ollamaKeepAlive: '1h' }).translate({ 'home.title': 'Home' }, 'es');
+
+        const [request] = requests;
+        expect(request.url).toBe('/api/chat');
+        expect(request.body).toMatchObject({
+            model: 'gemma3:4b',
+            stream: false,
+            keep_alive: '1h',
+            options: { num_ctx: 16384 },
+            format: { type: 'object', required: ['home.title'] }
+        });
+        expect(result).toEqual({ translatedContent: { 'home.title': 'Inicio' }, tokensUsed: { inputTokens: 120, outputTokens: 12 } });
+    });
+
+    it('should stream keys to the listener as they complete', async () => {
+        const service = new LLMService(logger, () => new StaticConfiguration({
+            llmProvider: 'ollama',
+            llmApiUrl: baseUrl,
+            llmModel: 'qwen2.5:7b',
+            apiMaxRetries: 0
+        }));
+        service.setMissingModelHandler(async (_model, pull) => {
+            await pull(() => undefined);
+            return true;
+        });
+        const entries: Array<[string, any]> = [];
+
+        const result = await service.translate({ 'home.title': 'Home', 'home.save': 'Save' }, 'es', undefined, (key, value) => entries.push([key, value]));
+
+        expect(requests.map(request => request.url)).toEqual(['/api/chat', '/api/pull', '/api/chat']);
+        expect(requests[2].body).toMatchObject({ stream: true, format: { required: ['home.title', 'home.save'] } });
+        expect(entries).toEqual([['home.title', 'Inicio'], ['home.save', 'Guardar']]);
+        expect(result).toEqual({
+            translatedContent: { 'home.title': 'Inicio', 'home.save': 'Guardar' },
+            tokensUsed: { inputTokens: 140, outputTokens: 20 },
+            keyProviders: { 'home.title': 'ollama (qwen2.5:7b)', 'home.save': 'ollama (qwen2.5:7b)' },
+            fallbackKeys: []
+        });
+    });
+
+    it('should fail over to the next provider when a response is not JSON', async () => {
+        const service = new LLMService(logger, () => new StaticConfiguration({
+            llmProvider: 'openai-compatible',
+            llmApiUrl: `${baseUrl}/v1/chat/completions`,
+            llmModel: 'local-model',
+            apiMaxRetries: 0,
+            fallbackProviders: [
+                { provider: 'gemini' },
+                { provider: 'ollama', model: 'gemma3:4b', apiUrl: baseUrl }
+            ]
+        }));
+
+        const result = await service.translate({ 'home.title': 'Home' }, 'es');
+
+        // Gemini has no API key and is skipped
+        expect(requests.map(request => request.url)).toEqual(['/v1/chat/completions', '/api/chat']);
+        expect(result.translatedContent).toEqual({ 'home.title': 'Inicio' });
+        expect(result.keyProviders).toEqual({ 'home.title': 'ollama (gemma3:4b)' });
+        expect(result.fallbackKeys).toEqual(['home.title']);
+    });
+
+    it('should resolve the server root from the configured URL', () => {
+        expect(resolveOllamaUrl(undefined)).toBe('http://localhost:11434');
+        expect(resolveOllamaUrl('https://api.openai.com/v1/chat/completions')).toBe('http://localhost:11434');
+        expect(resolveOllamaUrl('http://gpu-box:11434/')).toBe('http://gpu-box:11434');
+        expect(resolveOllamaUrl('http://gpu-box:11434/v1')).toBe('http://gpu-box:11434');
+        expect(resolveOllamaUrl('http://gpu-box:11434/api/generate')).toBe('http://gpu-box:11434');
+    });
+
+    it('should list the installed models', async () => {
+        installed = ['qwen2.5:7b', 'gemma3:4b'];
+
+        expect(await listOllamaModels(baseUrl)).toEqual(['gemma3:4b', 'qwen2.5:7b']);
+    });
+
+    it('should offer to pull a missing model and retry with it', async () => {
+        const progress: any[] = [];
+        const handler = jest.fn(async (_model: string, pull: (onProgress: (p: any) => void) => Promise<void>) => {
+            await pull(p => progress.push(p));
+            return true;
+        });
+        const provider = createProvider({ llmModel: 'qwen2.5:7b' });
+        provider.setMissingModelHandler(handler);
+
+        const result = await provider.translate({ 'home.title': 'Home' }, 'es');
+
+        expect(handler).toHaveBeenCalledWith('qwen2.5:7b', expect.any(Function));
+        expect(requests.map(request => request.url)).toEqual(['/api/chat', '/api/pull', '/api/chat']);
+        expect(requests[1].body).toEqual({ model: 'qwen2.5:7b', stream: true });
+        expect(progress).toEqual([
+            { status: 'pulling manifest' },
+            { status: 'pulling 6a0746a1ec1a', total: 200, completed: 100 },
+            { status: 'pulling 6a0746a1ec1a', total: 200, completed: 200 },
+            { status: 'success' }
+        ]);
+        expect(result.translatedContent).toEqual({ 'home.title': 'Inicio' });
+    });
+
+    it('should explain how to install a missing model when the pull is declined', async () => {
+        const provider = createProvider({ llmModel: 'qwen2.5:7b' });
+
+        await expect(provider.translate({ 'home.title': 'Home' }, 'es')).rejects.toThrow(`Model qwen2.5:7b is not installed on the Ollama server ${baseUrl}`);
+
+        provider.setMissingModelHandler(async () => false);
+        await expect(provider.translate({ 'home.title': 'Home' }, 'es')).rejects.toThrow('ollama pull qwen2.5:7b');
+        expect(requests.some(request => request.url === '/api/pull')).toBe(false);
+    });
+});
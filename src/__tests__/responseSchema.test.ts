@@ -0,0 +1,114 @@
+import axios from 'axios';
+import OpenAI from 'openai';
+import { Logger } from '../logger';
+import { OpenAIProvider } from '../providers/openai-provider';
+import { ClaudeProvider } from '../providers/claude-provider';
+import { StaticConfiguration } from '../cliSettings';
+import { buildTranslationSchema, isStructuredOutputUnsupported, parseStructuredResponse } from '../providers/response-schema';
+
+jest.mock('openai');
+jest.mock('axios');
+
+describe('structured output', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const chunk = { 'home.title': 'Home', 'home.count': 3, removed: null };
+
+    describe('buildTranslationSchema', () => {
+        it('should require exactly the chunk keys', () => {
+            expect(buildTranslationSchema(chunk)).toEqual({
+                type: 'object',
+                properties: {
+                    'home.title': { type: 'string' },
+                    'home.count': { type: 'number' },
+                    removed: { type: 'null' }
+                },
+                required: ['home.title', 'home.count', 'removed'],
+                additionalProperties: false
+            });
+        });
+    });
+
+    describe('parseStructuredResponse', () => {
+        it('should only accept a bare JSON object', () => {
+            expect(parseStructuredResponse(' {"a": "b"}\n')).toEqual({ a: 'b' });
+            expect(() => parseStructuredResponse('Here you go: {"a": "b"}')).toThrow();
+            expect(() => parseStructuredResponse('["a"]')).toThrow('not a JSON object');
+        });
+    });
+
+    describe('isStructuredOutputUnsupported', () => {
+        it('should recognise rejected response_format parameters', () => {
+            expect(isStructuredOutputUnsupported({ status: 400, error: { message: "Invalid parameter: 'response_format' of type 'json_schema' is not supported with this model." } })).toBe(true);
+            expect(isStructuredOutputUnsupported({ status: 429, message: 'response_format' })).toBe(false);
+            expect(isStructuredOutputUnsupported({ response: { status: 400, data: { error: 'context length exceeded' } } })).toBe(false);
+        });
+    });
+
+    describe('OpenAIProvider', () => {
+        let create: jest.Mock;
+
+        beforeEach(() => {
+            create = jest.fn();
+            (OpenAI as unknown as jest.Mock).mockImplementation(() => ({ chat: { completions: { create } } }));
+        });
+
+        const completion = (content: string) => ({
+            choices: [{ message: { content } }],
+            usage: { prompt_tokens: 10, completion_tokens: 5 }
+        });
+
+        it('should request a json_schema built from the chunk keys', async () => {
+            create.mockResolvedValue(completion('{"home.title":"Inicio","home.count":3,"removed":null}'));
+            const provider = new OpenAIProvider();
+            provider.initialize(new StaticConfiguration({ llmApiKey: 'key', llmModel: 'gpt-4o-mini' }), logger);
+
+            const result = await provider.translate(chunk, 'es');
+
+            expect(create.mock.calls[0][0].response_format).toEqual({
+                type: 'json_schema',
+                json_schema: { name: 'translations', strict: true, schema: buildTranslationSchema(chunk) }
+            });
+            expect(result.translatedContent['home.title']).toBe('Inicio');
+        });
+
+        it('should fall back to the prompt-only path when the model rejects structured output', async () => {
+            create
+                .mockRejectedValueOnce({ status: 400, error: { message: "'response_format' of type 'json_schema' is not supported" } })
+                .mockResolvedValue(completion('Sure! {"home.title":"Inicio"}'));
+            const provider = new OpenAIProvider();
+            provider.initialize(new StaticConfiguration({ llmApiKey: 'key', llmModel: 'gpt-4' }), logger);
+
+            const first = await provider.translate({ 'home.title': 'Home' }, 'es');
+            await provider.translate({ 'home.title': 'Home' }, 'es');
+
+            expect(first.translatedContent).toEqual({ 'home.title': 'Inicio' });
+            expect(create).toHaveBeenCalledTimes(3);
+            expect(create.mock.calls[1][0].response_format).toBeUndefined();
+            expect(create.mock.calls[2][0].response_format).toBeUndefined();
+        });
+    });
+
+    describe('ClaudeProvider', () => {
+        it('should force the translation tool on the Messages API', async () => {
+            (axios.post as jest.Mock).mockResolvedValue({
+                data: {
+                    content: [{ type: 'tool_use', name: 'translations', input: { 'home.title': 'Inicio' } }],
+                    usage: { input_tokens: 12, output_tokens: 4 }
+                }
+            });
+            const provider = new ClaudeProvider();
+            provider.initialize(new StaticConfiguration({
+                llmApiKey: 'key',
+                llmApiUrl: 'https://api.anthropic.com/v1/messages',
+                llmModel: 'claude-3-5-haiku-20241022'
+            }), logger);
+
+            const result = await provider.translate({ 'home.title': 'Home' }, 'es');
+
+            const body = (axios.post as jest.Mock).mock.calls[0][1];
+            expect(body.tools[0].input_schema).toEqual(buildTranslationSchema({ 'home.title': 'Home' }));
+            expect(body.tool_choice).toEqual({ type: 'tool', name: 'translations' });
+            expect(result).toEqual({ translatedContent: { 'home.title': 'Inicio' }, tokensUsed: { inputTokens: 12, outputTokens: 4 } });
+        });
+    });
+});
@@ -0,0 +1,77 @@
+import { Logger } from '../logger';
+import { RetryPolicy, classifyError } from '../providers/retry-policy';
+
+describe('retry policy', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    describe('classifyError', () => {
+        it('should retry rate limits and honor Retry-After', () => {
+            expect(classifyError({ response: { status: 429, headers: { 'retry-after': '7' }, data: {} } }, now))
+                .toMatchObject({ retryable: true, retryAfterMs: 7000 });
+            expect(classifyError({ status: 429, headers: { 'x-ratelimit-reset-requests': '1m30s' } }, now))
+                .toMatchObject({ retryable: true, retryAfterMs: 90000 });
+            expect(classifyError({ response: { status: 429, headers: { 'anthropic-ratelimit-requests-reset': '2025-01-01T00:00:12Z' } } }, now))
+                .toMatchObject({ retryable: true, retryAfterMs: 12000 });
+        });
+
+        it('should read the retry delay Gemini sends as an error detail', () => {
+            const error = { status: 429, errorDetails: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '21s' }] };
+            expect(classifyError(error, now)).toMatchObject({ retryable: true, retryAfterMs: 21000 });
+        });
+
+        it('should retry server errors and dropped connections', () => {
+            expect(classifyError({ response: { status: 503, data: 'overloaded' } }, now).retryable).toBe(true);
+            expect(classifyError({ code: 'ECONNRESET', message: 'socket hang up' }, now).retryable).toBe(true);
+            // Reset headers accompany every response and say nothing about server errors
+            expect(classifyError({ status: 500, headers: { 'x-ratelimit-reset-tokens': '6m0s' } }, now).retryAfterMs).toBeUndefined();
+        });
+
+        it('should not retry invalid keys, unknown models or exhausted quotas', () => {
+            expect(classifyError({ status: 401, error: { message: 'Incorrect API key provided' } }, now).retryable).toBe(false);
+            expect(classifyError({ response: { status: 404, data: { error: { message: 'model not found' } } } }, now).retryable).toBe(false);
+            expect(classifyError({ status: 429, error: { code: 'insufficient_quota' } }, now).retryable).toBe(false);
+            expect(classifyError(new Error('Invalid or missing OpenAI API key'), now).retryable).toBe(false);
+        });
+    });
+
+    describe('RetryPolicy', () => {
+        beforeEach(() => jest.useFakeTimers());
+        afterEach(() => jest.useRealTimers());
+
+        it('should back off, notify listeners and return the eventual result', async () => {
+            const policy = new RetryPolicy(logger, { maxRetries: 3, baseDelayMs: 1000 });
+            const listener = jest.fn();
+            policy.onRetry(listener);
+            const operation = jest.fn()
+                .mockRejectedValueOnce({ status: 503 })
+                .mockRejectedValueOnce({ status: 429, headers: { 'retry-after': '10' } })
+                .mockResolvedValue('done');
+
+            const result = policy.execute('OpenAI', operation);
+            await jest.advanceTimersByTimeAsync(1000);
+            await jest.advanceTimersByTimeAsync(10000);
+
+            await expect(result).resolves.toBe('done');
+            expect(operation).toHaveBeenCalledTimes(3);
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(listener.mock.calls[0][0]).toMatchObject({ provider: 'OpenAI', attempt: 1, maxRetries: 3 });
+            expect(listener.mock.calls[0][0].delayMs).toBeGreaterThanOrEqual(500);
+            expect(listener.mock.calls[1][0].delayMs).toBe(10000);
+        });
+
+        it('should fail immediately on fatal errors and after the last retry', async () => {
+            const policy = new RetryPolicy(logger, { maxRetries: 1, baseDelayMs: 10 });
+            const fatal = jest.fn().mockRejectedValue({ status: 401 });
+            await expect(policy.execute('Gemini', fatal)).rejects.toEqual({ status: 401 });
+            expect(fatal).toHaveBeenCalledTimes(1);
+
+            const transient = jest.fn().mockRejectedValue({ status: 502 });
+            const result = policy.execute('Gemini', transient);
+            const assertion = expect(result).rejects.toEqual({ status: 502 });
+            await jest.advanceTimersByTimeAsync(10);
+            await assertion;
+            expect(transient).toHaveBeenCalledTimes(2);
+        });
+    });
+});
@@ -189,6 +189,128 @@ describe('StreamingTranslationManager', () => {
         });
     });
 
+    describe('translateAllLanguages', () => {
+        const mockConfiguration = (targetLanguages: Record<string, boolean>) => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn((key: string) => {
+                    switch (key) {
+                        case 'basePath':
+                            return 'messages';
+                        case 'baseLanguage':
+                            return 'en';
+                        case 'llmProvider':
+                            return 'openai';
+                        case 'llmApiKey':
+                            return 'test-key';
+                        case 'targetLanguages':
+                            return targetLanguages;
+                        default:
+                            return undefined;
+                    }
+                })
+            });
+        };
+
+        it('should warn when no target languages are enabled', async () => {
+            mockConfiguration({ en: true, fa: false });
+
+            await manager.translateAllLanguages();
+
+            expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
+                'No target languages are enabled. Select languages in the i18nNexus.targetLanguages setting.'
+            );
+        });
+
+        it('should create missing locale files and queue every enabled language', async () => {
+            mockConfiguration({ en: true, fa: true, es: true, de: false });
+
+            const fs = require('fs');
+            (fs.existsSync as jest.Mock).mockImplementation((p: string) => !p.endsWith('es.json'));
+            (fs.readFileSync as jest.Mock).mockImplementation((p: string) =>
+                p.endsWith('en.json') ? '{"greeting": "Hello"}' : '{}'
+            );
+            (manager as any).autoSaveInterval = 0;
+            const translateChunk = jest.fn(async (chunk: Record<string, any>, lang: string, chunkId: string) => ({
+                chunkId,
+                originalContent: chunk,
+                translatedContent: { greeting: `${lang}-greeting` },
+                tokensUsed: { inputTokens: 10, outputTokens: 5 },
+                failedKeys: [],
+                missingKeys: [],
+                glossaryViolations: {},
+                keyProviders: {},
+                fallbackKeys: [],
+                memoryHits: 0,
+                tokensSaved: 0,
+                startLine: 0,
+                endLine: 1,
+                applied: false
+            }));
+            (manager as any).translateChunk = translateChunk;
+
+            await manager.translateAllLanguages();
+
+            expect(fs.writeFileSync).toHaveBeenCalledWith('/test/workspace/messages/es.json', '{}');
+            expect(translateChunk).toHaveBeenCalledTimes(2);
+            expect(translateChunk.mock.calls.map(call => call[2])).toEqual(['fa/chunk_1', 'es/chunk_1']);
+            expect((manager as any).pendingTranslations).toHaveLength(2);
+            expect(mockChannel.appendLine).toHaveBeenCalledWith(expect.stringContaining('Translation Summary (all languages):'));
+            expect(manager.isActive()).toBe(false);
+        });
+
+        it('should resume a stored session from its first incomplete chunk', async () => {
+            mockConfiguration({ en: true, fa: true });
+
+            const fs = require('fs');
+            const baseFile = '{"greeting": "Hello", "farewell": "Bye"}';
+            (fs.existsSync as jest.Mock).mockReturnValue(true);
+            (fs.readFileSync as jest.Mock).mockImplementation((p: string) => p.endsWith('en.json') ? baseFile : '{}');
+            (vscode.window.showInformationMessage as jest.Mock).mockResolvedValueOnce('Resume');
+            const session = {
+                version: 1,
+                filePath: '/test/workspace/messages/fa.json',
+                lang: 'fa',
+                sourceHash: require('crypto').createHash('sha256').update(baseFile).digest('hex'),
+                chunks: [
+                    { id: 'fa/chunk_1', content: { greeting: 'Hello' } },
+                    { id: 'fa/chunk_2', content: { farewell: 'Bye' } }
+                ],
+                completedChunks: ['fa/chunk_1'],
+                mergedContent: { greeting: 'سلام' },
+                updatedAt: ''
+            };
+            const sessionStore = { load: jest.fn(() => session), save: jest.fn(), delete: jest.fn(), list: jest.fn() };
+            (manager as any).sessionStore = sessionStore;
+            (manager as any).autoSaveInterval = 0;
+            const translateChunk = jest.fn(async (chunk: Record<string, any>, lang: string, chunkId: string) => ({
+                chunkId,
+                originalContent: chunk,
+                translatedContent: { farewell: 'خداحافظ' },
+                tokensUsed: { inputTokens: 10, outputTokens: 5 },
+                failedKeys: [],
+                missingKeys: [],
+                glossaryViolations: {},
+                keyProviders: {},
+                fallbackKeys: [],
+                memoryHits: 0,
+                tokensSaved: 0,
+                startLine: 0,
+                endLine: 1,
+                applied: false
+            }));
+            (manager as any).translateChunk = translateChunk;
+
+            await manager.translateAllLanguages();
+
+            expect(translateChunk).toHaveBeenCalledTimes(1);
+            expect(translateChunk.mock.calls[0][2]).toBe('fa/chunk_2');
+            expect(session.completedChunks).toEqual(['fa/chunk_1', 'fa/chunk_2']);
+            expect(session.mergedContent).toEqual({ greeting: 'سلام', farewell: 'خداحافظ' });
+            expect(sessionStore.save).toHaveBeenCalledWith(session);
+            expect((manager as any).pendingTranslations).toHaveLength(1);
+        });
+    });
+
     describe('isValidTranslationFile', () => {
         it('should reject output channel files', () => {
             const result = (manager as any).isValidTranslationFile('/test/extension-output-file.json');
@@ -218,11 +340,10 @@ describe('StreamingTranslationManager', () => {
                 largeObject[`key${i}`] = `value${i}`;
             }
 
-            const chunks = (manager as any).splitIntoChunks(largeObject, 50);
+            const chunks = (manager as any).splitIntoChunks(largeObject, 'fr');
             
-            // With character-based chunking, the number of chunks will be different
-            expect(chunks.length).toBeGreaterThan(0);
-            expect(chunks.length).toBeLessThanOrEqual(150); // Maximum number of keys
+            // Every key ends up in exactly one chunk
+            expect(chunks.flatMap((chunk: any) => Object.keys(chunk)).sort()).toEqual(Object.keys(largeObject).sort());
             
             // Each chunk should have keys
             chunks.forEach((chunk: any) => {
@@ -230,6 +351,73 @@ describe('StreamingTranslationManager', () => {
             });
         });
 
+        it('should translate chunks concurrently but apply them in order', async () => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn((key: string) => key === 'chunkConcurrency' ? 2 : undefined)
+            });
+            (manager as any).autoSaveInterval = 0;
+            let inFlight = 0;
+            let maxInFlight = 0;
+            const delays = [30, 5, 5, 1];
+            (manager as any).translateChunk = jest.fn(async (chunk: Record<string, any>, lang: string, chunkId: string, chunkNumber: number) => {
+                inFlight++;
+                maxInFlight = Math.max(maxInFlight, inFlight);
+                await new Promise(resolve => setTimeout(resolve, delays[chunkNumber - 1]));
+                inFlight--;
+                return { chunkId, translatedContent: chunk, tokensUsed: { inputTokens: 1, outputTokens: 1 }, failedKeys: [], missingKeys: [], memoryHits: 0, tokensSaved: 0, keyProviders: {}, fallbackKeys: [] };
+            });
+            const appliedOrder: string[] = [];
+            (manager as any).applyChunkToFile = jest.fn(async (result: any) => {
+                appliedOrder.push(result.chunkId);
+                return true;
+            });
+
+            const chunks = [1, 2, 3, 4].map(n => ({ id: `chunk_${n}`, content: { [`key${n}`]: `value${n}` } }));
+            const outcome = await (manager as any).runChunkQueue(chunks, 'fa', { progressOffset: 0, progressTotal: 4, showDiffs: false });
+
+            expect(appliedOrder).toEqual(['chunk_1', 'chunk_2', 'chunk_3', 'chunk_4']);
+            expect(maxInFlight).toBe(2);
+            expect(outcome.acceptedChunks).toBe(4);
+        });
+
+        it('should fall back from chunkConcurrency to the deprecated parallelBatchCount and the provider default', () => {
+            const useSettings = (settings: Record<string, unknown>) => (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn((key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue)
+            });
+
+            useSettings({ llmProvider: 'openai', chunkConcurrency: 3, parallelBatchCount: 5 });
+            expect((manager as any).getChunkConcurrency('de')).toBe(3);
+            useSettings({ llmProvider: 'openai', parallelBatchCount: 5 });
+            expect((manager as any).getChunkConcurrency('de')).toBe(5);
+            useSettings({ llmProvider: 'openai', parallelBatchCount: 1 });
+            expect((manager as any).getChunkConcurrency('de')).toBe(4);
+        });
+
+        it('should use the concurrency of the provider a language is routed to', () => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn((key: string, defaultValue?: unknown) => ({
+                    llmProvider: 'openai',
+                    languageRoutes: { 'x-*': { provider: 'ollama', model: 'gemma3:4b' } }
+                } as Record<string, unknown>)[key] ?? defaultValue)
+            });
+
+            expect((manager as any).getChunkConcurrency('x-pseudo')).toBe(1);
+            expect((manager as any).getChunkConcurrency('de')).toBe(4);
+        });
+
+        it('should limit the concurrency to what the fallback providers allow', () => {
+            (vscode.workspace.getConfiguration as jest.Mock).mockReturnValue({
+                get: jest.fn((key: string, defaultValue?: unknown) => ({
+                    llmProvider: 'openai',
+                    languageRoutes: { 'ja': { provider: 'claude' } },
+                    fallbackProviders: [{ provider: 'gemini' }, { provider: 'ollama', model: 'gemma3:4b' }]
+                } as Record<string, unknown>)[key] ?? defaultValue)
+            });
+
+            expect((manager as any).getChunkConcurrency('de')).toBe(1);
+            expect((manager as any).getChunkConcurrency('ja')).toBe(1);
+        });
+
         it('should create temp file correctly', () => {
             const originalPath = '/test/file.json';
             const initialContent = { key1: 'value1' };
@@ -0,0 +1,114 @@
+import { Logger } from '../logger';
+import { getModelLimits } from '../provider-config';
+import { getOutputExpansion, getTokenizer } from '../tokenizer';
+import { splitIntoChunks } from '../translationCore';
+
+describe('tokenizer', () => {
+    it('should count OpenAI tokens with the BPE of the model encoding', () => {
+        expect(getTokenizer('o200k_base').count('Hello world')).toBe(2);
+        expect(getTokenizer('cl100k_base').count('Hello world')).toBe(2);
+        expect(getTokenizer('o200k_base').count('{"checkout.title": "Complete your purchase"}')).toBeLessThan(15);
+    });
+
+    it('should estimate more tokens per character for non-Latin scripts', () => {
+        const estimate = getTokenizer('estimate');
+        expect(estimate.count('Save changes')).toBe(3);
+        expect(estimate.count('ذخیره تغییرات')).toBeGreaterThan(estimate.count('Save changes'));
+        expect(estimate.count('保存更改')).toBe(4);
+    });
+
+    it('should expect longer output for scripts that tokenize poorly', () => {
+        expect(getOutputExpansion('fa')).toBeGreaterThan(getOutputExpansion('es'));
+        expect(getOutputExpansion('th-TH')).toBeGreaterThan(getOutputExpansion('fa'));
+        expect(getOutputExpansion('xx')).toBe(1.3);
+    });
+});
+
+describe('getModelLimits', () => {
+    it('should pick the longest matching model prefix', () => {
+        expect(getModelLimits('openai', 'gpt-4o-mini')).toEqual({ contextWindow: 128000, maxOutputTokens: 16384, tokenizer: 'o200k_base' });
+        expect(getModelLimits('openai', 'gpt-4').contextWindow).toBe(8192);
+        expect(getModelLimits('openai', 'gpt-4-turbo').tokenizer).toBe('cl100k_base');
+        expect(getModelLimits('claude', 'claude-3-haiku-20240307').maxOutputTokens).toBe(4096);
+    });
+
+    it('should fall back to the provider and then the global defaults', () => {
+        expect(getModelLimits('ollama', 'llama3:8b').contextWindow).toBe(4096);
+        expect(getModelLimits('gemini').contextWindow).toBe(1048576);
+        expect(getModelLimits('unknown').tokenizer).toBe('estimate');
+    });
+});
+
+describe('splitIntoChunks', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const content: Record<string, string> = {};
+    for (let i = 0; i < 200; i++) {
+        content[`page.section${i}.description`] = 'This paragraph explains the feature in a few sentences so users know what to expect. '.repeat(3);
+    }
+
+    it('should respect the key limit when the model has room to spare', () => {
+        const chunks = splitIntoChunks(content, { llmProvider: 'gemini', targetLang: 'es', maxKeysPerChunk: 50 }, logger);
+        expect(chunks.map(chunk => Object.keys(chunk).length)).toEqual([50, 50, 50, 50]);
+    });
+
+    it('should size chunks to the output limit and the target script', () => {
+        const options = { llmProvider: 'openai', llmModel: 'gpt-3.5-turbo', maxKeysPerChunk: 1000 };
+        const spanish = splitIntoChunks(content, { ...options, targetLang: 'es' }, logger);
+        const persian = splitIntoChunks(content, { ...options, targetLang: 'fa' }, logger);
+        expect(spanish.length).toBeGreaterThan(1);
+        expect(persian.length).toBeGreaterThan(spanish.length);
+        expect(persian.flatMap(chunk => Object.keys(chunk)).sort()).toEqual(Object.keys(content).sort());
+    });
+
+    it('should use small chunks in file order for local models', () => {
+        const chunks = splitIntoChunks(content, { llmProvider: 'ollama', targetLang: 'fa', maxKeysPerChunk: 50 }, logger);
+        expect(Object.keys(chunks[0]).length).toBeLessThan(10);
+        expect(chunks.flatMap(chunk => Object.keys(chunk))).toEqual(Object.keys(content));
+    });
+
+    it('should size Ollama chunks for the context length requested from it', () => {
+        const options = { llmProvider: 'ollama', targetLang: 'de', maxKeysPerChunk: 50 };
+        const standard = splitIntoChunks(content, options, logger);
+        const large = splitIntoChunks(content, { ...options, contextWindow: 32768 }, logger);
+        expect(Object.keys(large[0]).length).toBeGreaterThan(4 * Object.keys(standard[0]).length);
+        expect(large.flatMap(chunk => Object.keys(chunk))).toEqual(Object.keys(content));
+    });
+
+    it('should send an oversized value in a chunk of its own', () => {
+        const chunks = splitIntoChunks(
+            { short: 'OK', long: 'word '.repeat(20000), other: 'Cancel' },
+            { llmProvider: 'ollama', targetLang: 'de', maxKeysPerChunk: 50 },
+            logger
+        );
+        expect(chunks).toEqual([{ short: 'OK' }, { long: 'word '.repeat(20000) }, { other: 'Cancel' }]);
+    });
+
+    describe('namespace strategy', () => {
+        const sections: Record<string, string> = {};
+        for (const section of ['profile', 'billing', 'team']) {
+            for (let i = 0; i < 12; i++) {
+                sections[`settings.${section}.field${i}`] = i % 3 === 0 ? 'A much longer explanation of what this setting does' : 'Label';
+            }
+        }
+        const namespaceOf = (key: string) => key.split('.').slice(0, 2).join('.');
+
+        it('should keep sibling keys in the same chunk', () => {
+            const chunks = splitIntoChunks(sections, { llmProvider: 'openai', targetLang: 'de', maxKeysPerChunk: 20, strategy: 'namespace' }, logger);
+            expect(chunks).toHaveLength(3);
+            chunks.forEach(chunk => expect(new Set(Object.keys(chunk).map(namespaceOf)).size).toBe(1));
+            expect(chunks.flatMap(chunk => Object.keys(chunk))).toEqual(Object.keys(sections));
+        });
+
+        it('should only split a namespace that does not fit into a chunk of its own', () => {
+            const content = { 'nav.home': 'Home', 'nav.back': 'Back', ...sections };
+            const chunks = splitIntoChunks(content, { llmProvider: 'openai', targetLang: 'de', maxKeysPerChunk: 10, strategy: 'namespace' }, logger);
+            expect(chunks[0]).toEqual({ 'nav.home': 'Home', 'nav.back': 'Back' });
+            expect(chunks.slice(1).map(chunk => Object.keys(chunk).length)).toEqual([10, 2, 10, 2, 10, 2]);
+        });
+
+        it('should scatter namespaces with the size strategy', () => {
+            const chunks = splitIntoChunks(sections, { llmProvider: 'openai', targetLang: 'de', maxKeysPerChunk: 25, strategy: 'size' }, logger);
+            expect(new Set(Object.keys(chunks[0]).map(namespaceOf)).size).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../logger';
+import { TranslationMemory } from '../translationMemory';
+
+describe('TranslationMemory', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const scope = { sourceLang: 'en', targetLang: 'fa', provider: 'openai/gpt-4o-mini' };
+    let workDir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-tm-'));
+        filePath = path.join(workDir, 'storage', 'translation-memory.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(workDir, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', () => {
+        const memory = new TranslationMemory(filePath, logger);
+        memory.store('Save', 'ذخیره', 4, scope);
+        memory.save();
+
+        const reloaded = new TranslationMemory(filePath, logger);
+
+        expect(reloaded.lookup('Save', scope)).toMatchObject({ source: 'Save', translation: 'ذخیره', tokens: 4 });
+    });
+
+    it('should keep languages and models apart', () => {
+        const memory = new TranslationMemory(filePath, logger);
+        memory.store('Save', 'ذخیره', 4, scope);
+
+        expect(memory.lookup('Save', { ...scope, targetLang: 'es' })).toBeUndefined();
+        expect(memory.lookup('Save', { ...scope, provider: TranslationMemory.getProviderKey('ollama') })).toBeUndefined();
+    });
+
+    it('should ignore an unreadable memory file', () => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, '{ not json');
+
+        expect(new TranslationMemory(filePath, logger).size).toBe(0);
+    });
+
+    it('should find similar sources in the same scope', () => {
+        const memory = new TranslationMemory(filePath, logger);
+        memory.store('Delete users', 'حذف کاربران', 4, scope);
+        memory.store('Delete user', 'حذف کاربر', 4, scope);
+        memory.store('Export all reports', 'خروجی همه گزارش‌ها', 6, scope);
+        memory.store('Delete user', 'Eliminar usuario', 4, { ...scope, targetLang: 'es' });
+
+        const matches = memory.findSimilar('Delete user', scope);
+
+        expect(matches).toEqual([{ source: 'Delete users', translation: 'حذف کاربران', similarity: expect.any(Number) }]);
+        expect(matches[0].similarity).toBeGreaterThan(0.9);
+        memory.save();
+        expect(new TranslationMemory(filePath, logger).findSimilar('Delete user', scope)).toEqual(matches);
+    });
+});
@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import {
+    ReviewItem,
+    TranslationReviewPanel,
+    applyReviewDecisions,
+    buildReviewItems,
+    updateReviewItems
+} from '../translationReviewPanel';
+
+jest.mock('vscode', () => ({
+    ViewColumn: { Active: -1 },
+    window: {
+        createWebviewPanel: jest.fn()
+    }
+}));
+
+describe('translation review', () => {
+    const base = { home: { title: 'Home', save: 'Save', cancel: 'Cancel' }, about: 'About us' };
+    const current = { home: { title: 'Start', save: 'Speichern' }, about: 'Über uns', legacy: { cta: 'Los' } };
+    const proposed = { home: { title: 'Startseite', save: 'Speichern', cancel: 'Abbrechen' }, about: 'Über uns' };
+    const files = [{ lang: 'de', filePath: '/messages/de.json', current, proposed }];
+
+    const byKey = (items: ReviewItem[]) => Object.fromEntries(items.map(item => [item.key, item]));
+
+    it('should list new, changed and deleted keys with their source and values', () => {
+        const items = buildReviewItems(base, files);
+
+        expect(items.map(item => [item.key, item.kind, item.namespace])).toEqual([
+            ['home.title', 'changed', 'home'],
+            ['home.cancel', 'new', 'home'],
+            ['legacy.cta', 'deleted', 'legacy']
+        ]);
+        expect(byKey(items)['home.title']).toMatchObject({ id: 'de:home.title', source: 'Home', oldValue: 'Start', newValue: 'Startseite', accepted: true });
+    });
+
+    it('should write only accepted keys, with edits, and leave rejected keys as they are on disk', () => {
+        let items = buildReviewItems(base, files);
+        items = updateReviewItems(items, { type: 'setAccepted', ids: ['de:home.title', 'de:home.cancel'], accepted: false });
+        items = updateReviewItems(items, { type: 'edit', id: 'de:home.cancel', value: 'Verwerfen' });
+
+        expect(byKey(items)['home.cancel']).toMatchObject({ accepted: true, edited: true });
+        expect(applyReviewDecisions(current, items)).toEqual({ home: { title: 'Start', save: 'Speichern', cancel: 'Verwerfen' }, about: 'Über uns' });
+
+        items = updateReviewItems(items, { type: 'setAccepted', ids: ['de:legacy.cta'], accepted: false });
+        expect(applyReviewDecisions(current, items).legacy).toEqual({ cta: 'Los' });
+    });
+
+    it('should resolve with the reviewed items on Apply and undefined when closed', async () => {
+        let receive: (message: any) => void = () => undefined;
+        let disposed: () => void = () => undefined;
+        const panel = {
+            webview: {
+                cspSource: 'vscode-resource:',
+                html: '',
+                postMessage: jest.fn(),
+                onDidReceiveMessage: jest.fn((listener: (message: any) => void) => { receive = listener; })
+            },
+            onDidDispose: jest.fn((listener: () => void) => { disposed = listener; }),
+            dispose: jest.fn(() => disposed())
+        };
+        (vscode.window.createWebviewPanel as jest.Mock).mockReturnValue(panel);
+
+        const review = TranslationReviewPanel.show(buildReviewItems(base, files));
+        receive({ type: 'ready' });
+        expect(panel.webview.postMessage).toHaveBeenCalledWith({ type: 'items', items: expect.arrayContaining([expect.objectContaining({ key: 'home.cancel' })]) });
+        receive({ type: 'setAccepted', ids: ['de:legacy.cta'], accepted: false });
+        receive({ type: 'apply' });
+
+        const reviewed = await review;
+        expect(reviewed && byKey(reviewed)['legacy.cta'].accepted).toBe(false);
+        expect(panel.webview.html).toContain('Apply Accepted');
+
+        const closed = TranslationReviewPanel.show(buildReviewItems(base, files));
+        receive({ type: 'cancel' });
+        await expect(closed).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../logger';
+import { TranslationSessionStore, createSession, getRemainingChunks, hashFile } from '../translationSession';
+
+describe('TranslationSessionStore', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-session-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const chunks = [
+        { id: 'chunk_1', content: { 'home.title': 'Home' } },
+        { id: 'chunk_2', content: { 'home.save': 'Save' } }
+    ];
+
+    it('should persist completed chunks and merged content per target file', () => {
+        const store = new TranslationSessionStore(path.join(dir, 'sessions'), logger);
+        const session = createSession('/project/messages/fa.json', 'fa', 'abc', chunks, {});
+        session.completedChunks.push('chunk_1');
+        session.mergedContent = { 'home.title': 'خانه' };
+        store.save(session);
+
+        const loaded = new TranslationSessionStore(path.join(dir, 'sessions'), logger).load('/project/messages/fa.json');
+
+        expect(loaded).toMatchObject({ lang: 'fa', sourceHash: 'abc', mergedContent: { 'home.title': 'خانه' } });
+        expect(getRemainingChunks(loaded!).map(chunk => chunk.id)).toEqual(['chunk_2']);
+        expect(store.load('/project/messages/de.json')).toBeNull();
+    });
+
+    it('should list sessions and forget deleted ones', () => {
+        const store = new TranslationSessionStore(dir, logger);
+        store.save(createSession('/project/messages/fa.json', 'fa', 'abc', chunks, {}));
+        store.save(createSession('/project/messages/es.json', 'es', 'abc', chunks, {}));
+        fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+
+        expect(store.list().map(session => session.lang).sort()).toEqual(['es', 'fa']);
+        store.delete('/project/messages/fa.json');
+        expect(store.list().map(session => session.lang)).toEqual(['es']);
+    });
+
+    it('should hash the base file content', () => {
+        const file = path.join(dir, 'en.json');
+        fs.writeFileSync(file, '{"a": "b"}');
+        const before = hashFile(file);
+        fs.writeFileSync(file, '{"a": "c"}');
+        expect(hashFile(file)).not.toBe(before);
+    });
+});
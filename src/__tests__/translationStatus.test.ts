@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Logger } from '../logger';
+import { SourceLock, hashSourceValue } from '../sourceLock';
+import { collectSourceHashes, findKeyOffset, findOrphanedKeys, getLocaleStatus, prepareTranslationContent, removeKeys } from '../translationCore';
+import { TranslationStatusProvider, loadLocaleStatuses } from '../translationStatusView';
+
+let workspaceRoot = '';
+
+jest.mock('vscode', () => ({
+    EventEmitter: jest.fn(() => ({ event: jest.fn(), fire: jest.fn() })),
+    TreeItem: jest.fn(function (this: any, label: string, collapsibleState: number) {
+        this.label = label;
+        this.collapsibleState = collapsibleState;
+    }),
+    TreeItemCollapsibleState: { None: 0, Collapsed: 1, Expanded: 2 },
+    ThemeIcon: jest.fn((id: string) => ({ id })),
+    workspace: {
+        getConfiguration: jest.fn(() => ({
+            get: jest.fn((key: string) => ({ basePath: 'messages', baseLanguage: 'en' } as Record<string, string>)[key])
+        })),
+        get workspaceFolders() {
+            return [{ uri: { fsPath: workspaceRoot } }];
+        }
+    }
+}));
+
+describe('getLocaleStatus', () => {
+    const base = { home: { title: 'Home', save: 'Save', cancel: 'Cancel' }, about: 'About us', _comment: 'Marketing copy' };
+
+    it('should report missing, empty, stale and orphaned keys', () => {
+        const target = { home: { title: 'Startseite', save: '', legacy: 'Alt' }, about: 'Über uns' };
+        const hashes = { 'home.title': hashSourceValue('Homepage'), about: hashSourceValue('About us') };
+
+        expect(getLocaleStatus(base, target, { hashes })).toEqual({
+            missing: ['home.cancel'],
+            empty: ['home.save'],
+            stale: ['home.title'],
+            orphaned: ['home.legacy']
+        });
+    });
+
+    it('should treat untracked translations as current unless the .original snapshot differs', () => {
+        const target = { home: { title: 'Startseite', save: 'Speichern', cancel: 'Abbrechen' }, about: 'Über uns' };
+        expect(getLocaleStatus(base, target, { hashes: {} })).toEqual({ missing: [], empty: [], stale: [], orphaned: [] });
+
+        const original = { home: { title: 'Homepage', save: 'Save', cancel: 'Cancel' }, about: 'About us' };
+        expect(getLocaleStatus(base, target, { hashes: { 'home.save': hashSourceValue('Save as') }, original }).stale)
+            .toEqual(['home.title', 'home.save']);
+    });
+});
+
+describe('source hashes', () => {
+    const base = { home: { title: 'Home', save: 'Save' }, about: 'About us' };
+    const target = { home: { title: 'Startseite', save: 'Speichern' }, about: 'Über uns', legacy: 'Alt' };
+
+    it('should retranslate only keys whose base value changed since they were translated', () => {
+        const hashes = { 'home.title': hashSourceValue('Home'), 'home.save': hashSourceValue('Save changes'), about: hashSourceValue('About us') };
+        expect(prepareTranslationContent(base, target, { hashes })).toEqual({ 'home.save': 'Save' });
+    });
+
+    it('should record translated keys, adopt untracked ones and keep stale hashes', () => {
+        const reference = { hashes: { 'home.save': hashSourceValue('Save changes') } };
+        const hashes = collectSourceHashes(base, target, reference, { 'home.title': hashSourceValue('Home') });
+        expect(hashes).toEqual({
+            'home.title': hashSourceValue('Home'),
+            'home.save': hashSourceValue('Save changes'),
+            about: hashSourceValue('About us')
+        });
+    });
+
+    it('should persist hashes per language in the lock file', () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-lock-'));
+        const logger = new Logger({ appendLine: jest.fn() });
+        try {
+            const lock = new SourceLock(path.join(dir, 'i18n-nexus.lock.json'), logger);
+            lock.setHashes('fa', { 'home.title': 'b', about: 'a' });
+            lock.save();
+
+            expect(new SourceLock(path.join(dir, 'i18n-nexus.lock.json'), logger).getHashes('fa')).toEqual({ about: 'a', 'home.title': 'b' });
+            expect(new SourceLock(path.join(dir, 'i18n-nexus.lock.json'), logger).getHashes('de')).toEqual({});
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+describe('orphaned keys', () => {
+    const base = { home: { title: 'Home' }, about: 'About us' };
+    const target = { home: { title: 'Startseite', legacy: { a: 'A', b: 'B' } }, about: 'Über uns', old: { cta: 'Los' }, empty: {} };
+
+    it('should report a removed namespace once instead of every key in it', () => {
+        expect(findOrphanedKeys(base, target)).toEqual(['home.legacy', 'old', 'empty']);
+    });
+
+    it('should remove keys and the parents they leave empty, without touching the input', () => {
+        expect(removeKeys(target, ['home.legacy.a', 'home.legacy.b', 'old.cta', 'missing.key'])).toEqual({
+            home: { title: 'Startseite' },
+            about: 'Über uns',
+            empty: {}
+        });
+        expect(target.old).toEqual({ cta: 'Los' });
+    });
+});
+
+describe('findKeyOffset', () => {
+    const text = JSON.stringify({ about: { title: 'About' }, home: { title: 'Home' } }, null, 2);
+
+    it('should find a nested key under its own parent', () => {
+        expect(text.slice(findKeyOffset(text, 'home.title'))).toMatch(/^"title": "Home"/);
+    });
+
+    it('should fall back to the closest parent', () => {
+        expect(findKeyOffset(text, 'home.subtitle')).toBe(text.indexOf('"home"'));
+        expect(findKeyOffset(text, 'contact.title')).toBe(-1);
+    });
+});
+
+describe('TranslationStatusProvider', () => {
+    const logger = new Logger({ appendLine: jest.fn() });
+    const writeJson = (name: string, content: unknown) =>
+        fs.writeFileSync(path.join(workspaceRoot, 'messages', name), JSON.stringify(content));
+
+    beforeEach(() => {
+        workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'i18n-nexus-status-'));
+        fs.mkdirSync(path.join(workspaceRoot, 'messages'));
+        writeJson('en.json', { home: { title: 'Home', save: 'Save' } });
+        writeJson('fa.json', { home: { title: 'خانه' } });
+        writeJson('de.json', { home: { title: 'Startseite', save: 'Speichern' } });
+        writeJson('fa.meta.json', { home: { title: 'Page heading' } });
+    });
+
+    afterEach(() => {
+        fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    });
+
+    it('should list every locale next to the base file', () => {
+        const lock = new SourceLock(path.join(workspaceRoot, 'i18n-nexus.lock.json'), logger);
+        const locales = loadLocaleStatuses(path.join(workspaceRoot, 'messages'), 'en', lock, logger);
+        expect(locales.map(locale => locale.lang)).toEqual(['de', 'fa']);
+    });
+
+    it('should expand locales to categories and keys that reveal the right file', () => {
+        const provider = new TranslationStatusProvider(logger);
+        const [de, fa] = provider.getChildren();
+
+        expect(provider.getTreeItem(de).description).toBe('up to date');
+        expect(provider.getTreeItem(fa).description).toBe('1 missing · 0 empty · 0 stale · 0 orphaned');
+
+        const [missing] = provider.getChildren(fa);
+        const [key] = provider.getChildren(missing);
+        expect(provider.getTreeItem(key).command).toEqual({
+            command: 'i18n-nexus.revealKey',
+            title: 'Reveal Key',
+            arguments: [path.join(workspaceRoot, 'messages', 'en.json'), 'home.save']
+        });
+    });
+});
@@ -9,6 +9,8 @@ export interface ChunkDiffResult {
     translatedContent: any;
     startLine: number;
     endLine: number;
+    /** Why this chunk needs a review, shown in the accept/reject picker */
+    reviewReason?: string;
 }
 
 export class ChunkDiffViewer {
@@ -58,7 +60,9 @@ export class ChunkDiffViewer {
         ];
 
         const choice = await vscode.window.showQuickPick(choices, {
-            placeHolder: `Review translation for chunk ${result.chunkId}`,
+            placeHolder: result.reviewReason
+                ? `Review translation for chunk ${result.chunkId}: ${result.reviewReason}`
+                : `Review translation for chunk ${result.chunkId}`,
             ignoreFocusOut: true
         });
 
@@ -0,0 +1,466 @@
+import { LLMService, TranslatedEntryListener } from './llmService';
+import { Logger, LogCategory } from './logger';
+import { GlossaryTerm, TokenUsage, TranslationHints, TranslationReference } from './llm-provider.interface';
+import { unflattenContent } from './translationCore';
+import { Glossary, GlossaryViolation, checkGlossary, getRelevantTerms } from './glossary';
+import { TranslationMemory, TranslationMemoryScope } from './translationMemory';
+import { KeyNotes } from './keyNotes';
+import {
+  getMessageSignature,
+  getPluralExpansions,
+  hasIcuSyntax,
+  isTranslationStructureValid,
+  maskMessage,
+  parseIcuMessage,
+  unmaskMessage
+} from './icuMessage';
+
+export interface ChunkTranslationResult {
+  chunkId: string;
+  originalContent: Record<string, any>;
+  translatedContent: Record<string, any>;
+  tokensUsed: TokenUsage;
+  /** Keys left out of translatedContent because they still failed validation after all retries */
+  failedKeys: string[];
+  /** Keys the model never returned, even after re-requesting them */
+  missingKeys: string[];
+  /** Translated keys that ignore a glossary term; they need a review before merging */
+  glossaryViolations: Record<string, GlossaryViolation[]>;
+  /** Keys served from the translation memory without a provider call */
+  memoryHits: number;
+  /** Estimated tokens those hits would have cost */
+  tokensSaved: number;
+  /** Provider and model that translated each key; keys from the translation memory are not listed */
+  keyProviders: Record<string, string>;
+  /** Keys translated by a fallback provider because the configured one failed */
+  fallbackKeys: string[];
+}
+
+/** Entries are also scoped to the provider and model each target language is routed to */
+export interface TranslationMemoryContext {
+  sourceLang: string;
+}
+
+export interface ChunkTranslatorOptions {
+  /** How often keys whose ICU structure came back broken are re-requested */
+  validationRetries?: number;
+  /** How often keys left out of a response are re-requested */
+  missingKeyRetries?: number;
+  /** Minimum similarity (0–1) for translation memory entries offered as references */
+  fuzzyMatchThreshold?: number;
+}
+
+interface ProtectedValue {
+  masked: string;
+  fragments: string[];
+  signature: string[];
+  /** Per-key prompt rules, e.g. the plural branches the target locale needs */
+  instructions?: string[];
+}
+
+const PLACEHOLDER_INSTRUCTION =
+  'Some values contain placeholder tokens such as ⟦0⟧. They stand for variables, markup and plural/select syntax: ' +
+  'keep every token exactly once and unchanged, and translate only the text around them.';
+
+/**
+ * Keys per provider for run summaries, listing the keys a fallback provider translated so
+ * reviewers can check them.
+ */
+export function describeKeyProviders(keyProviders: Record<string, string>, fallbackKeys: string[]): string {
+  const byProvider = new Map<string, string[]>();
+  for (const [key, label] of Object.entries(keyProviders)) {
+    byProvider.set(label, [...(byProvider.get(label) || []), key]);
+  }
+  const fallback = new Set(fallbackKeys);
+  return [...byProvider].map(([label, keys]) => keys.some(key => fallback.has(key))
+    ? `${label} (fallback): ${keys.length} keys: ${keys.join(', ')}`
+    : `${label}: ${keys.length} keys`
+  ).join('; ');
+}
+
+/**
+ * Translates a single flat chunk of keys through the configured LLM provider.
+ * Shared by the streaming manager and the CLI, so it must stay free of editor UI.
+ */
+export class ChunkTranslator {
+  private llmService: LLMService;
+  private logger: Logger;
+  private validationRetries: number;
+  private missingKeyRetries: number;
+  private fuzzyMatchThreshold: number;
+  private glossary: Glossary | null = null;
+  private memory: TranslationMemory | null = null;
+  private memoryContext: TranslationMemoryContext | null = null;
+
+  constructor(llmService: LLMService, logger: Logger, options: ChunkTranslatorOptions = {}) {
+    this.llmService = llmService;
+    this.logger = logger;
+    this.validationRetries = Math.max(0, options.validationRetries ?? 2);
+    this.missingKeyRetries = Math.max(0, options.missingKeyRetries ?? 2);
+    this.fuzzyMatchThreshold = options.fuzzyMatchThreshold ?? 0.8;
+  }
+
+  public setGlossary(glossary: Glossary | null): void {
+    this.glossary = glossary;
+  }
+
+  public setTranslationMemory(memory: TranslationMemory | null, context?: TranslationMemoryContext): void {
+    this.memory = memory;
+    this.memoryContext = context ?? null;
+  }
+
+  /**
+   * `onKeyTranslated` receives every key as soon as it is usable: translation memory hits right
+   * away, then streamed keys that pass validation. Keys retried later may be reported again.
+   */
+  public async translateChunk(
+    chunk: Record<string, any>,
+    lang: string,
+    chunkId: string,
+    keyNotes: KeyNotes = {},
+    onKeyTranslated?: TranslatedEntryListener
+  ): Promise<ChunkTranslationResult> {
+    const protectedValues = this.protectValues(chunk, lang);
+    const request: Record<string, any> = {};
+    for (const key of Object.keys(chunk)) {
+      request[key] = protectedValues[key]?.masked ?? chunk[key];
+    }
+    const glossaryTerms = this.glossary ? getRelevantTerms(this.glossary, Object.values(chunk), lang) : [];
+
+    const translatedContent: Record<string, any> = {};
+    const tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    const memoryKeys = this.applyTranslationMemory(chunk, lang, glossaryTerms, keyNotes, translatedContent);
+    const tokensSaved = [...memoryKeys.values()].reduce((sum, tokens) => sum + tokens, 0);
+    let pendingKeys = Object.keys(request).filter(key => !memoryKeys.has(key));
+    const references = this.findReferences(chunk, lang, pendingKeys);
+    const failedKeys: string[] = [];
+    const missingKeys: string[] = [];
+    const keyProviders: Record<string, string> = {};
+    const fallbackKeys = new Set<string>();
+    let firstResponse: Record<string, any> | null = null;
+    let icuRetries = 0;
+    let missingRetries = 0;
+    if (memoryKeys.size > 0) {
+      this.logger.logTranslation(`Chunk ${chunkId}: ${memoryKeys.size} keys served from translation memory`);
+      memoryKeys.forEach((_, key) => onKeyTranslated?.(key, translatedContent[key]));
+    }
+
+    while (pendingKeys.length > 0) {
+      const pendingRequest = Object.fromEntries(pendingKeys.map(key => [key, request[key]]));
+      const onEntry = onKeyTranslated && ((key: string, value: any) => {
+        const restored = key in pendingRequest ? this.restoreValue(value, protectedValues[key]) : undefined;
+        if (restored !== undefined) {
+          onKeyTranslated(key, restored);
+        }
+      });
+      const result = await this.llmService.translate(
+        pendingRequest,
+        lang,
+        this.buildHints(pendingKeys, chunk, lang, protectedValues, references, keyNotes),
+        onEntry
+      );
+      firstResponse = firstResponse ?? result.translatedContent;
+      tokensUsed.inputTokens += result.tokensUsed.inputTokens;
+      tokensUsed.outputTokens += result.tokensUsed.outputTokens;
+
+      const response = result.translatedContent || {};
+      const unknownKeys = Object.keys(response).filter(key => !(key in pendingRequest));
+      if (unknownKeys.length > 0) {
+        this.logger.warn(`Chunk ${chunkId}: discarded ${unknownKeys.length} keys that were not requested: ${unknownKeys.join(', ')}`, LogCategory.TRANSLATION);
+      }
+
+      const invalidKeys: string[] = [];
+      const missing: string[] = [];
+      for (const key of pendingKeys) {
+        const value = response[key];
+        if (value === undefined) {
+          missing.push(key);
+          continue;
+        }
+        const restored = this.restoreValue(value, protectedValues[key]);
+        if (restored !== undefined) {
+          translatedContent[key] = restored;
+          if (result.keyProviders?.[key]) {
+            keyProviders[key] = result.keyProviders[key];
+          }
+          if (result.fallbackKeys?.includes(key)) {
+            fallbackKeys.add(key);
+          } else {
+            fallbackKeys.delete(key);
+          }
+        } else {
+          invalidKeys.push(key);
+        }
+      }
+
+      pendingKeys = [];
+      if (invalidKeys.length > 0 && icuRetries < this.validationRetries) {
+        icuRetries++;
+        this.logger.warn(
+          `Chunk ${chunkId}: placeholders, plural selectors or tags changed in ${invalidKeys.length} keys, retrying (${icuRetries}/${this.validationRetries})`,
+          LogCategory.TRANSLATION
+        );
+        pendingKeys.push(...invalidKeys);
+      } else if (invalidKeys.length > 0) {
+        failedKeys.push(...invalidKeys);
+        this.logger.warn(
+          `Chunk ${chunkId}: ${invalidKeys.length} keys still break ICU placeholders after ${icuRetries + 1} attempts and were rejected: ${invalidKeys.join(', ')}`,
+          LogCategory.TRANSLATION
+        );
+      }
+      if (missing.length > 0 && missingRetries < this.missingKeyRetries) {
+        missingRetries++;
+        this.logger.warn(
+          `Chunk ${chunkId}: the response left out ${missing.length} keys, re-requesting them (${missingRetries}/${this.missingKeyRetries})`,
+          LogCategory.TRANSLATION
+        );
+        pendingKeys.push(...missing);
+      } else if (missing.length > 0) {
+        missingKeys.push(...missing);
+        this.logger.warn(
+          `Chunk ${chunkId}: ${missing.length} keys are still missing after ${missingRetries + 1} attempts and stay untranslated: ${missing.join(', ')}`,
+          LogCategory.TRANSLATION
+        );
+      }
+    }
+
+    const glossaryViolations: Record<string, GlossaryViolation[]> = {};
+    for (const [key, value] of Object.entries(translatedContent)) {
+      const violations = checkGlossary(glossaryTerms, chunk[key], value);
+      if (violations.length > 0) {
+        glossaryViolations[key] = violations;
+      }
+    }
+    if (Object.keys(glossaryViolations).length > 0) {
+      this.logger.warn(
+        `Chunk ${chunkId}: glossary terms translated differently in ${Object.keys(glossaryViolations).join(', ')}`,
+        LogCategory.TRANSLATION
+      );
+    }
+
+    this.storeInTranslationMemory(chunk, lang, tokensUsed, translatedContent, memoryKeys, glossaryViolations, fallbackKeys, keyNotes);
+    this.logTranslationStructures(
+      chunkId,
+      request,
+      firstResponse || {},
+      unflattenContent(translatedContent)
+    );
+    return {
+      chunkId,
+      originalContent: chunk,
+      translatedContent,
+      tokensUsed,
+      failedKeys,
+      missingKeys,
+      glossaryViolations,
+      memoryHits: memoryKeys.size,
+      tokensSaved,
+      keyProviders,
+      fallbackKeys: [...fallbackKeys]
+    };
+  }
+
+  /**
+   * Unmasks a returned value; `undefined` when it lost placeholders, plural selectors or tags.
+   */
+  private restoreValue(value: any, guard: ProtectedValue | undefined): any {
+    if (!guard) {
+      return value;
+    }
+    const restored = typeof value === 'string' ? unmaskMessage(value, guard.fragments) : null;
+    return restored !== null && isTranslationStructureValid(guard.signature, restored) ? restored : undefined;
+  }
+
+  /**
+   * Copies exact translation memory matches into `translatedContent`.
+   * Returns the served keys with the tokens each one saved.
+   * Entries are keyed by source text alone, so keys with developer notes always go to the provider.
+   */
+  private applyTranslationMemory(
+    chunk: Record<string, any>,
+    lang: string,
+    glossaryTerms: GlossaryTerm[],
+    keyNotes: KeyNotes,
+    translatedContent: Record<string, any>
+  ): Map<string, number> {
+    const served = new Map<string, number>();
+    if (!this.memory || !this.memoryContext) {
+      return served;
+    }
+    for (const [key, value] of Object.entries(chunk)) {
+      if (typeof value !== 'string' || keyNotes[key]?.length) {
+        continue;
+      }
+      const entry = this.memory.lookup(value, this.getMemoryScope(lang));
+      // A glossary added after the entry was stored wins over the cached wording
+      if (entry && checkGlossary(glossaryTerms, value, entry.translation).length === 0) {
+        translatedContent[key] = entry.translation;
+        served.set(key, entry.tokens);
+      }
+    }
+    return served;
+  }
+
+  /**
+   * Near matches from the translation memory for keys that still need the provider.
+   */
+  private findReferences(chunk: Record<string, any>, lang: string, keys: string[]): Record<string, TranslationReference[]> {
+    const references: Record<string, TranslationReference[]> = {};
+    if (!this.memory || !this.memoryContext) {
+      return references;
+    }
+    for (const key of keys) {
+      if (typeof chunk[key] !== 'string') {
+        continue;
+      }
+      const matches = this.memory.findSimilar(chunk[key], this.getMemoryScope(lang), 3, this.fuzzyMatchThreshold);
+      if (matches.length > 0) {
+        references[key] = matches;
+      }
+    }
+    return references;
+  }
+
+  private getMemoryScope(lang: string): TranslationMemoryScope {
+    const { llmProvider, llmModel } = this.llmService.getLanguageModel(lang);
+    return { sourceLang: this.memoryContext!.sourceLang, targetLang: lang, provider: TranslationMemory.getProviderKey(llmProvider, llmModel) };
+  }
+
+  /**
+   * Remembers new translations, splitting the chunk's token usage across them by source length.
+   * Keys from a fallback provider are left out: served from memory on a later run, they would
+   * pass for translations of the language's own provider and no longer be flagged for review.
+   * Keys with developer notes are left out too, their wording may only fit that key.
+   */
+  private storeInTranslationMemory(
+    chunk: Record<string, any>,
+    lang: string,
+    tokensUsed: TokenUsage,
+    translatedContent: Record<string, any>,
+    memoryKeys: Map<string, number>,
+    glossaryViolations: Record<string, GlossaryViolation[]>,
+    fallbackKeys: Set<string>,
+    keyNotes: KeyNotes
+  ): void {
+    if (!this.memory || !this.memoryContext) {
+      return;
+    }
+    const keys = Object.keys(translatedContent).filter(key =>
+      !memoryKeys.has(key) && !glossaryViolations[key] && !fallbackKeys.has(key) && !keyNotes[key]?.length &&
+      typeof chunk[key] === 'string' && typeof translatedContent[key] === 'string'
+    );
+    const totalTokens = tokensUsed.inputTokens + tokensUsed.outputTokens;
+    const totalLength = keys.reduce((sum, key) => sum + chunk[key].length, 0) || 1;
+    for (const key of keys) {
+      const tokens = Math.round(totalTokens * chunk[key].length / totalLength);
+      this.memory.store(chunk[key], translatedContent[key], tokens, this.getMemoryScope(lang));
+    }
+  }
+
+  /**
+   * Parses every string value as ICU and masks its syntax. Values that are not valid ICU
+   * (e.g. legacy `{{name}}` placeholders) are sent as-is and not validated.
+   * Plurals that need other CLDR categories in the target locale can't be masked, because the
+   * model has to write new branches; they are sent as raw ICU with a rule listing the branches.
+   */
+  private protectValues(chunk: Record<string, any>, lang: string): Record<string, ProtectedValue> {
+    const protectedValues: Record<string, ProtectedValue> = {};
+    const expandedKeys: string[] = [];
+    for (const [key, value] of Object.entries(chunk)) {
+      if (typeof value !== 'string') {
+        continue;
+      }
+      try {
+        const nodes = parseIcuMessage(value);
+        const expansions = getPluralExpansions(nodes, lang);
+        if (expansions.length > 0) {
+          expandedKeys.push(key);
+          protectedValues[key] = {
+            masked: value,
+            fragments: [],
+            signature: getMessageSignature(nodes, lang),
+            instructions: [
+              `Use exactly these plural branches for ${lang}: ${expansions.join('; ')}. ` +
+              'Translate every branch and keep argument names, # and tags unchanged.'
+            ]
+          };
+          continue;
+        }
+        const { text, fragments } = hasIcuSyntax(nodes) ? maskMessage(value, nodes) : { text: value, fragments: [] };
+        protectedValues[key] = { masked: text, fragments, signature: getMessageSignature(nodes) };
+      } catch (error) {
+        this.logger.debug(`Key ${key} is not a valid ICU message, sending it unprotected: ${error}`, LogCategory.TRANSLATION);
+      }
+    }
+    if (expandedKeys.length > 0) {
+      this.logger.logTranslation(`${expandedKeys.length} plural messages need ${lang} plural categories: ${expandedKeys.join(', ')}`);
+    }
+    return protectedValues;
+  }
+
+  private buildHints(
+    keys: string[],
+    chunk: Record<string, any>,
+    lang: string,
+    protectedValues: Record<string, ProtectedValue>,
+    references: Record<string, TranslationReference[]>,
+    keyNotes: KeyNotes
+  ): TranslationHints | undefined {
+    const instructions = keys.some(key => (protectedValues[key]?.fragments.length ?? 0) > 0) ? [PLACEHOLDER_INSTRUCTION] : [];
+    const keyInstructions: Record<string, string[]> = {};
+    for (const key of keys) {
+      const rules = protectedValues[key]?.instructions;
+      if (rules) {
+        keyInstructions[key] = rules;
+      }
+    }
+    const glossary = this.glossary ? getRelevantTerms(this.glossary, keys.map(key => chunk[key]), lang) : [];
+    const keyReferences = Object.fromEntries(keys.filter(key => references[key]).map(key => [key, references[key]]));
+    const notes = Object.fromEntries(keys.filter(key => keyNotes[key]?.length).map(key => [key, keyNotes[key]]));
+    if (
+      instructions.length === 0 && Object.keys(keyInstructions).length === 0 && glossary.length === 0 &&
+      Object.keys(keyReferences).length === 0 && Object.keys(notes).length === 0
+    ) {
+      return undefined;
+    }
+    return { instructions, keyInstructions, glossary, references: keyReferences, keyNotes: notes };
+  }
+
+  private logTranslationStructures(
+    chunkId: string,
+    inputToLLM: any,
+    llmResponse: any,
+    finalStructure: any
+  ): void {
+    const separator = '='.repeat(80);
+    const sectionSeparator = '-'.repeat(60);
+
+    this.logger.logStructures(separator);
+    this.logger.logStructures(`🔄 TRANSLATION STRUCTURES FOR ${chunkId.toUpperCase()}`);
+    this.logger.logStructures(separator);
+
+    this.logger.logStructures(`📤 INPUT TO LLM (${Object.keys(inputToLLM).length} keys):`);
+    this.logger.logStructures(sectionSeparator);
+    this.logger.logStructures(JSON.stringify(inputToLLM, null, 2));
+    this.logger.logStructures('');
+
+    this.logger.logStructures(`📥 LLM RESPONSE (${Object.keys(llmResponse).length} keys):`);
+    this.logger.logStructures(sectionSeparator);
+    this.logger.logStructures(JSON.stringify(llmResponse, null, 2));
+    this.logger.logStructures('');
+
+    this.logger.logStructures(`📋 FINAL EXTRACTED STRUCTURE (${Object.keys(finalStructure).length} keys):`);
+    this.logger.logStructures(sectionSeparator);
+    this.logger.logStructures(JSON.stringify(finalStructure, null, 2));
+    this.logger.logStructures('');
+
+    this.logger.logStructures(`📊 STRUCTURE COMPARISON SUMMARY:`);
+    this.logger.logStructures(sectionSeparator);
+    this.logger.logStructures(`Input keys: ${Object.keys(inputToLLM).join(', ')}`);
+    this.logger.logStructures(`Response keys: ${Object.keys(llmResponse).join(', ')}`);
+    this.logger.logStructures(`Final keys: ${Object.keys(finalStructure).join(', ')}`);
+
+    this.logger.logStructures(separator);
+    this.logger.logStructures('');
+  }
+}
@@ -0,0 +1,336 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { LLMService } from './llmService';
+import { ChunkTranslator, describeKeyProviders } from './chunkTranslator';
+import { getProviderConfig } from './provider-config';
+import { DEFAULT_GLOSSARY_FILE, loadGlossary } from './glossary';
+import { TRANSLATION_MEMORY_FILE, TranslationMemory } from './translationMemory';
+import { getKeyNotes } from './keyNotes';
+import {
+    ChunkingStrategy,
+    findOrphanedKeys,
+    flattenNestedContent,
+    getOriginalBaseContent,
+    loadJsonFile,
+    prepareTranslationContent,
+    splitIntoChunks,
+    SourceReference,
+    collectSourceHashes,
+    removeKeys,
+    unflattenContent
+} from './translationCore';
+import { LOCK_FILE_NAME, SourceLock, hashSourceValue } from './sourceLock';
+import { getBaseChangesSince, prepareChangedContent } from './gitChanges';
+import {
+    StaticConfiguration,
+    findSettingsFile,
+    getTargetLanguages,
+    loadSettingsFile,
+    resolveSettings
+} from './cliSettings';
+
+export const EXIT_OK = 0;
+export const EXIT_TRANSLATION_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliOptions {
+    command?: string;
+    base?: string;
+    targets?: string;
+    dir?: string;
+    config?: string;
+    provider?: string;
+    model?: string;
+    since?: string;
+    prune: boolean;
+    verbose: boolean;
+    help: boolean;
+}
+
+export interface CliIO {
+    cwd: string;
+    env: NodeJS.ProcessEnv;
+    stdout: (line: string) => void;
+    stderr: (line: string) => void;
+}
+
+const USAGE = `Usage: i18n-nexus translate [options]
+
+Translates every target locale file against the base language file.
+
+Options:
+  --base <lang>        Base language code (default: baseLanguage setting or "en")
+  --targets <a,b,...>  Comma-separated target languages (default: targetLanguages setting)
+  --dir <path>         Folder containing <lang>.json files (default: basePath setting or "messages")
+  --config <file>      Settings file (default: .i18n-nexusrc, .i18n-nexusrc.json or i18n-nexus.config.json)
+  --provider <name>    LLM provider override
+  --model <name>       LLM model override
+  --since <rev>        Only translate base keys added or changed since this git branch, tag or commit
+  --prune              Remove keys that are no longer in the base language file
+  --verbose            Print extension logs to stderr
+  -h, --help           Show this help
+
+The API key is read from the llmApiKey setting or the I18N_NEXUS_API_KEY environment variable.
+Exits with 1 when any chunk fails to translate or a key keeps breaking its ICU syntax, and 2 on usage or configuration errors.`;
+
+const VALUE_FLAGS: Record<string, 'base' | 'targets' | 'dir' | 'config' | 'provider' | 'model' | 'since'> = {
+    '--base': 'base',
+    '--targets': 'targets',
+    '--dir': 'dir',
+    '--config': 'config',
+    '--provider': 'provider',
+    '--model': 'model',
+    '--since': 'since'
+};
+
+export function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { prune: false, verbose: false, help: false };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+            ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+            : [arg, undefined];
+
+        if (flag === '-h' || flag === '--help') {
+            options.help = true;
+        } else if (flag === '--verbose') {
+            options.verbose = true;
+        } else if (flag === '--prune') {
+            options.prune = true;
+        } else if (flag in VALUE_FLAGS) {
+            const value = inlineValue ?? argv[++i];
+            if (value === undefined || value.startsWith('--')) {
+                throw new Error(`Missing value for ${flag}`);
+            }
+            options[VALUE_FLAGS[flag]] = value;
+        } else if (flag.startsWith('-')) {
+            throw new Error(`Unknown option: ${flag}`);
+        } else if (!options.command) {
+            options.command = flag;
+        } else {
+            throw new Error(`Unexpected argument: ${flag}`);
+        }
+    }
+    return options;
+}
+
+export async function runTranslate(options: CliOptions, io: CliIO): Promise<number> {
+    const logger = new Logger({
+        appendLine: line => {
+            if (options.verbose) {
+                io.stderr(line);
+            }
+        }
+    });
+
+    const settingsFile = options.config ? path.resolve(io.cwd, options.config) : findSettingsFile(io.cwd);
+    const fileSettings = settingsFile ? loadSettingsFile(settingsFile) : {};
+    const settings = resolveSettings(fileSettings, {
+        baseLanguage: options.base,
+        basePath: options.dir,
+        targetLanguages: options.targets,
+        llmProvider: options.provider,
+        llmModel: options.model
+    }, io.env);
+    const configuration = new StaticConfiguration(settings);
+
+    const baseLanguage = String(settings.baseLanguage);
+    const llmProvider = String(settings.llmProvider);
+    const providerConfig = getProviderConfig(llmProvider);
+    if (!providerConfig) {
+        io.stderr(`Unsupported LLM provider: ${llmProvider}`);
+        return EXIT_USAGE;
+    }
+    if (providerConfig.requiresApiKey && !settings.llmApiKey) {
+        io.stderr('API key not configured for this provider. Set llmApiKey or I18N_NEXUS_API_KEY.');
+        return EXIT_USAGE;
+    }
+
+    const fullBasePath = path.resolve(io.cwd, String(settings.basePath));
+    const baseFilePath = path.join(fullBasePath, `${baseLanguage}.json`);
+    if (!fs.existsSync(baseFilePath)) {
+        io.stderr(`Base language file not found: ${baseFilePath}`);
+        return EXIT_USAGE;
+    }
+
+    const targetLanguages = getTargetLanguages(settings.targetLanguages, baseLanguage);
+    if (targetLanguages.length === 0) {
+        io.stderr('No target languages configured. Use --targets or the targetLanguages setting.');
+        return EXIT_USAGE;
+    }
+
+    const chunkSize = configuration.get<number>('chunkSize', 50);
+    const llmService = new LLMService(logger, () => configuration);
+    llmService.onRetry(notice => io.stderr(
+        `${notice.provider}: ${notice.reason}, retry ${notice.attempt}/${notice.maxRetries} in ${Math.ceil(notice.delayMs / 1000)}s`
+    ));
+    const chunkTranslator = new ChunkTranslator(llmService, logger, {
+        validationRetries: configuration.get<number>('icuValidationRetries', 2),
+        missingKeyRetries: configuration.get<number>('missingKeyRetries', 2),
+        fuzzyMatchThreshold: configuration.get<number>('fuzzyMatchThreshold', 0.8)
+    });
+    const glossaryPath = path.resolve(io.cwd, configuration.get<string>('glossaryPath') || DEFAULT_GLOSSARY_FILE);
+    if (fs.existsSync(glossaryPath)) {
+        chunkTranslator.setGlossary(loadGlossary(glossaryPath));
+    }
+    // Outside VS Code there is no global storage, so the memory lives with the project (cacheable in CI)
+    const memory = configuration.get<boolean>('enableTranslationMemory', true)
+        ? new TranslationMemory(
+            path.resolve(io.cwd, configuration.get<string>('translationMemoryPath') || path.join('.i18n-nexus', TRANSLATION_MEMORY_FILE)),
+            logger
+        )
+        : null;
+    chunkTranslator.setTranslationMemory(memory, { sourceLang: baseLanguage });
+    const baseContent = loadJsonFile(baseFilePath);
+    const originalBaseContent = getOriginalBaseContent(baseFilePath, logger);
+    const sourceLock = new SourceLock(path.resolve(io.cwd, LOCK_FILE_NAME), logger);
+    const changes = options.since ? await getBaseChangesSince(baseFilePath, baseContent, options.since) : null;
+    if (changes) {
+        io.stdout(`${baseLanguage}.json since ${changes.revision}: ${changes.added.length} added, ${changes.modified.length} modified, ${changes.removed.length} removed keys`);
+    }
+    let totalFailures = 0;
+
+    for (const lang of targetLanguages) {
+        const filePath = path.join(fullBasePath, `${lang}.json`);
+        const targetContent = fs.existsSync(filePath) ? loadJsonFile(filePath) : {};
+        const reference: SourceReference = { hashes: sourceLock.getHashes(lang), original: originalBaseContent };
+        const toTranslate = changes
+            ? prepareChangedContent(baseContent, changes)
+            : prepareTranslationContent(baseContent, targetContent, reference);
+        const keyCount = Object.keys(toTranslate).length;
+        const orphanedKeys = findOrphanedKeys(baseContent, targetContent);
+        if (orphanedKeys.length > 0 && !options.prune) {
+            io.stdout(`${lang}: ${orphanedKeys.length} orphaned keys no longer in ${baseLanguage}.json, pass --prune to remove them: ${orphanedKeys.join(', ')}`);
+        }
+        if (keyCount === 0) {
+            if (options.prune && orphanedKeys.length > 0) {
+                const written = removeKeys(targetContent, orphanedKeys);
+                fs.writeFileSync(filePath, JSON.stringify(written, null, 2));
+                sourceLock.setHashes(lang, collectSourceHashes(baseContent, written, reference, {}));
+                sourceLock.save();
+                io.stdout(`${lang}: up to date, ${orphanedKeys.length} orphaned keys removed`);
+            } else {
+                io.stdout(`${lang}: up to date`);
+            }
+            continue;
+        }
+
+        const keyNotes = getKeyNotes(fullBasePath, baseLanguage, lang, baseContent);
+        const chunks = splitIntoChunks(toTranslate, {
+            ...llmService.getLanguageModel(lang),
+            targetLang: lang,
+            maxKeysPerChunk: chunkSize,
+            strategy: configuration.get<ChunkingStrategy>('chunkingStrategy', 'size')
+        }, logger);
+        const changesFlat = flattenNestedContent(targetContent);
+        const sourceHashes: Record<string, string> = {};
+        const tokens = { inputTokens: 0, outputTokens: 0 };
+        let memoryHits = 0;
+        let tokensSaved = 0;
+        let translatedChunks = 0;
+        let failedChunks = 0;
+        const failedKeys: string[] = [];
+        const missingKeys: string[] = [];
+        const glossaryWarnings: string[] = [];
+        const keyProviders: Record<string, string> = {};
+        const fallbackKeys: string[] = [];
+
+        for (let i = 0; i < chunks.length; i++) {
+            const chunkId = `${lang}/chunk_${i + 1}`;
+            io.stdout(`${lang}: translating chunk ${i + 1}/${chunks.length}`);
+            try {
+                const result = await chunkTranslator.translateChunk(chunks[i], lang, chunkId, keyNotes);
+                Object.assign(changesFlat, result.translatedContent);
+                for (const key of Object.keys(result.translatedContent)) {
+                    sourceHashes[key] = hashSourceValue(chunks[i][key]);
+                }
+                failedKeys.push(...result.failedKeys);
+                missingKeys.push(...result.missingKeys);
+                Object.assign(keyProviders, result.keyProviders);
+                fallbackKeys.push(...result.fallbackKeys);
+                for (const [key, violations] of Object.entries(result.glossaryViolations)) {
+                    glossaryWarnings.push(`${key} (${violations.map(v => `"${v.term}" should be "${v.expected}"`).join(', ')})`);
+                }
+                tokens.inputTokens += result.tokensUsed.inputTokens;
+                tokens.outputTokens += result.tokensUsed.outputTokens;
+                memoryHits += result.memoryHits;
+                tokensSaved += result.tokensSaved;
+                translatedChunks++;
+            } catch (error) {
+                failedChunks++;
+                io.stderr(`${lang}: chunk ${chunkId} failed: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        const removedKeys = options.prune ? orphanedKeys : [];
+        if (translatedChunks > 0 || removedKeys.length > 0) {
+            const written = removeKeys(unflattenContent(changesFlat), removedKeys);
+            fs.writeFileSync(filePath, JSON.stringify(written, null, 2));
+            sourceLock.setHashes(lang, collectSourceHashes(baseContent, written, reference, sourceHashes));
+            sourceLock.save();
+        }
+        if (failedKeys.length > 0) {
+            io.stderr(`${lang}: ${failedKeys.length} keys skipped because the translation broke their ICU syntax: ${failedKeys.join(', ')}`);
+        }
+        if (missingKeys.length > 0) {
+            io.stderr(`${lang}: ${missingKeys.length} keys left untranslated because the model did not return them: ${missingKeys.join(', ')}`);
+        }
+        if (fallbackKeys.length > 0) {
+            io.stderr(`${lang}: ${fallbackKeys.length} keys were translated by a fallback provider, please review: ${fallbackKeys.join(', ')}`);
+        }
+        if (glossaryWarnings.length > 0) {
+            io.stderr(`${lang}: ${glossaryWarnings.length} keys do not follow the glossary, please review: ${glossaryWarnings.join('; ')}`);
+        }
+        totalFailures += failedChunks + failedKeys.length + missingKeys.length;
+        io.stdout(
+            `${lang}: ${keyCount} keys, ${translatedChunks}/${chunks.length} chunks translated, ${failedChunks} failed, ` +
+            `tokens: Input: ${tokens.inputTokens}, Output: ${tokens.outputTokens}, ` +
+            `translation memory: ${memoryHits} keys (~${tokensSaved} tokens saved)` +
+            (Object.keys(keyProviders).length > 0 ? `, providers: ${describeKeyProviders(keyProviders, fallbackKeys)}` : '') +
+            (removedKeys.length > 0 ? `, ${removedKeys.length} orphaned keys removed` : '')
+        );
+    }
+
+    memory?.save();
+
+    return totalFailures > 0 ? EXIT_TRANSLATION_FAILED : EXIT_OK;
+}
+
+export async function main(argv: string[], io: CliIO): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArgs(argv);
+    } catch (error) {
+        io.stderr(`${error instanceof Error ? error.message : error}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (options.help) {
+        io.stdout(USAGE);
+        return EXIT_OK;
+    }
+    if (options.command !== 'translate') {
+        io.stderr(options.command ? `Unknown command: ${options.command}\n\n${USAGE}` : USAGE);
+        return EXIT_USAGE;
+    }
+
+    try {
+        return await runTranslate(options, io);
+    } catch (error) {
+        io.stderr(`Translation failed: ${error instanceof Error ? error.message : error}`);
+        return EXIT_USAGE;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2), {
+        cwd: process.cwd(),
+        env: process.env,
+        stdout: line => console.log(line),
+        stderr: line => console.error(line)
+    }).then(code => {
+        process.exitCode = code;
+    });
+}
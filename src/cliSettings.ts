@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderConfiguration } from './llm-provider.interface';
+
+/**
+ * Settings files looked up (in order) in the working directory when `--config` is not given.
+ * They hold the same keys as the `i18nNexus.*` VS Code settings, with or without the prefix.
+ */
+export const SETTINGS_FILE_NAMES = ['.i18n-nexusrc', '.i18n-nexusrc.json', 'i18n-nexus.config.json'];
+
+const SETTINGS_PREFIX = 'i18nNexus.';
+
+const DEFAULT_SETTINGS: Record<string, unknown> = {
+    basePath: 'messages',
+    baseLanguage: 'en',
+    llmProvider: 'openai',
+    chunkSize: 50
+};
+
+/**
+ * A read-only `ProviderConfiguration` backed by a plain object, so providers and
+ * `LLMService` can run outside VS Code exactly as they do inside it.
+ */
+export class StaticConfiguration implements ProviderConfiguration {
+    private values: Record<string, unknown>;
+
+    constructor(values: Record<string, unknown>) {
+        this.values = values;
+    }
+
+    get<T>(section: string): T | undefined;
+    get<T>(section: string, defaultValue: T): T;
+    get<T>(section: string, defaultValue?: T): T | undefined {
+        const value = this.values[section];
+        return value === undefined ? defaultValue : value as T;
+    }
+}
+
+export function findSettingsFile(cwd: string): string | undefined {
+    for (const name of SETTINGS_FILE_NAMES) {
+        const candidate = path.join(cwd, name);
+        if (fs.existsSync(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+export function loadSettingsFile(filePath: string): Record<string, unknown> {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read settings file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Settings file ${filePath} must contain a JSON object`);
+    }
+
+    // Accept a copy of VS Code's settings.json ("i18nNexus.basePath") as well as bare keys
+    const source = raw as Record<string, unknown>;
+    const nested = source.i18nNexus;
+    const settings: Record<string, unknown> = nested && typeof nested === 'object' ? { ...nested as Record<string, unknown> } : {};
+    for (const [key, value] of Object.entries(source)) {
+        if (key === 'i18nNexus') {
+            continue;
+        }
+        settings[key.startsWith(SETTINGS_PREFIX) ? key.slice(SETTINGS_PREFIX.length) : key] = value;
+    }
+    return settings;
+}
+
+/**
+ * Merges defaults, the settings file, environment variables and command-line overrides (last wins).
+ */
+export function resolveSettings(
+    fileSettings: Record<string, unknown>,
+    overrides: Record<string, unknown>,
+    env: NodeJS.ProcessEnv = process.env
+): Record<string, unknown> {
+    const settings: Record<string, unknown> = { ...DEFAULT_SETTINGS, ...fileSettings };
+    if (!settings.llmApiKey && env.I18N_NEXUS_API_KEY) {
+        settings.llmApiKey = env.I18N_NEXUS_API_KEY;
+    }
+    for (const [key, value] of Object.entries(overrides)) {
+        if (value !== undefined) {
+            settings[key] = value;
+        }
+    }
+    return settings;
+}
+
+/**
+ * Reads target languages from either a `{ "fa": true }` map (the VS Code setting shape) or a list.
+ */
+export function getTargetLanguages(value: unknown, baseLanguage: string): string[] {
+    let languages: string[] = [];
+    if (Array.isArray(value)) {
+        languages = value.map(String);
+    } else if (typeof value === 'string') {
+        languages = value.split(',');
+    } else if (value && typeof value === 'object') {
+        languages = Object.entries(value as Record<string, unknown>)
+            .filter(([, enabled]) => enabled === true)
+            .map(([lang]) => lang);
+    }
+    return languages.map(lang => lang.trim()).filter(lang => lang && lang !== baseLanguage);
+}
@@ -5,6 +5,7 @@ import { StreamingTranslationManager } from './streamingTranslationManager';
 import { LanguageSelector } from './languageSelector';
 import { ModelConfigurator } from './modelConfigurator';
 import { Logger, LogLevel, LogCategory } from './logger';
+import { TranslationStatusProvider, revealKey } from './translationStatusView';
 // This method is called when the extension is activated for the first time
 export function activate(context: vscode.ExtensionContext) {
     const channel = vscode.window.createOutputChannel('i18n Nexus');
@@ -23,7 +24,7 @@ export function activate(context: vscode.ExtensionContext) {
     let modelConfigurator: ModelConfigurator | undefined;
     
     try {
-        streamingTranslationManager = new StreamingTranslationManager(logger, channel);
+        streamingTranslationManager = new StreamingTranslationManager(logger, channel, context.globalStorageUri?.fsPath);
         modelConfigurator = new ModelConfigurator(logger, channel);
         logger.log('All managers initialized');
     } catch (error) {
@@ -138,6 +139,46 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Register translate all languages command
+    let translateAllLanguagesDisposable = vscode.commands.registerCommand('i18n-nexus.translateAllLanguages', () => {
+        logger.log('Translate all languages command triggered');
+        if (!streamingTranslationManager) {
+            vscode.window.showErrorMessage('Streaming translation manager not initialized. Please check your configuration.');
+            return;
+        }
+        streamingTranslationManager.translateAllLanguages();
+    });
+
+    // Register translate changed keys command
+    let translateChangedSinceDisposable = vscode.commands.registerCommand('i18n-nexus.translateChangedSince', () => {
+        logger.log('Translate changed keys command triggered');
+        if (!streamingTranslationManager) {
+            vscode.window.showErrorMessage('Streaming translation manager not initialized. Please check your configuration.');
+            return;
+        }
+        streamingTranslationManager.translateChangedSince();
+    });
+
+    // Register prune orphaned keys command
+    let pruneOrphanedKeysDisposable = vscode.commands.registerCommand('i18n-nexus.pruneOrphanedKeys', () => {
+        logger.log('Prune orphaned keys command triggered');
+        if (!streamingTranslationManager) {
+            vscode.window.showErrorMessage('Streaming translation manager not initialized. Please check your configuration.');
+            return;
+        }
+        streamingTranslationManager.pruneOrphanedKeys();
+    });
+
+    // Register resume translation command
+    let resumeTranslationDisposable = vscode.commands.registerCommand('i18n-nexus.resumeTranslation', () => {
+        logger.log('Resume translation command triggered');
+        if (!streamingTranslationManager) {
+            vscode.window.showErrorMessage('Streaming translation manager not initialized. Please check your configuration.');
+            return;
+        }
+        streamingTranslationManager.resumeTranslation();
+    });
+
     // Register cancel translation command
     let cancelTranslationDisposable = vscode.commands.registerCommand('i18n-nexus.cancelTranslation', () => {
         logger.log('Cancel translation command triggered');
@@ -163,6 +204,16 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
 
+    // Register review changes command
+    let reviewChangesDisposable = vscode.commands.registerCommand('i18n-nexus.reviewChanges', () => {
+        logger.log('Review changes command triggered');
+        if (!streamingTranslationManager) {
+            vscode.window.showErrorMessage('Streaming translation manager not initialized. Please check your configuration.');
+            return;
+        }
+        streamingTranslationManager.reviewChanges();
+    });
+
     // Register open settings command
     let openSettingsDisposable = vscode.commands.registerCommand('i18n-nexus.openSettings', () => {
         logger.log('Open settings command triggered');
@@ -172,11 +223,35 @@ export function activate(context: vscode.ExtensionContext) {
     // Add newly registered commands to context.subscriptions
     context.subscriptions.push(
         streamingTranslationDisposable,
+        translateAllLanguagesDisposable,
+        translateChangedSinceDisposable,
+        pruneOrphanedKeysDisposable,
+        resumeTranslationDisposable,
         cancelTranslationDisposable,
         acceptAllChangesDisposable,
+        reviewChangesDisposable,
         openSettingsDisposable
     );
 
+    // Translation Status view, recomputed whenever a locale file or the settings change
+    const statusProvider = new TranslationStatusProvider(logger);
+    const localeWatcher = vscode.workspace.createFileSystemWatcher('**/*.{json,original}');
+    localeWatcher.onDidChange(() => statusProvider.refresh());
+    localeWatcher.onDidCreate(() => statusProvider.refresh());
+    localeWatcher.onDidDelete(() => statusProvider.refresh());
+
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('i18nNexusStatus', statusProvider),
+        localeWatcher,
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('i18nNexus')) {
+                statusProvider.refresh();
+            }
+        }),
+        vscode.commands.registerCommand('i18n-nexus.refreshStatus', () => statusProvider.refresh()),
+        vscode.commands.registerCommand('i18n-nexus.revealKey', (filePath: string, key: string) => revealKey(filePath, key))
+    );
+
     logger.log('All commands registered and added to subscriptions');
 
     vscode.window.showInformationMessage('i18n Nexus has been successfully activated');
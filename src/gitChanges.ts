@@ -0,0 +1,97 @@
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { isMetadataKey } from './keyNotes';
+import { flattenNestedContent } from './translationCore';
+
+/**
+ * Keys of the base language file that changed since a git revision, for translating only
+ * what a branch or release touched. Editor-independent; shared by the extension and the CLI.
+ */
+export interface BaseChanges {
+    revision: string;
+    added: string[];
+    modified: string[];
+    removed: string[];
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        execFile('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+            if (error) {
+                reject(Object.assign(error, { stderr: String(stderr) }));
+            } else {
+                resolve(stdout);
+            }
+        });
+    });
+}
+
+/**
+ * Content of `filePath` at `revision`, or `null` when the file did not exist there yet.
+ */
+export async function readFileAtRevision(filePath: string, revision: string): Promise<string | null> {
+    const cwd = path.dirname(filePath);
+    try {
+        return await runGit(['show', `${revision}:./${path.basename(filePath)}`], cwd);
+    } catch (error: any) {
+        const message = String(error?.stderr || error?.message || error).trim();
+        if (/does not exist in|exists on disk, but not in/.test(message)) {
+            return null;
+        }
+        if (error?.code === 'ENOENT') {
+            throw new Error('git is not installed or not on the PATH');
+        }
+        throw new Error(`Could not read ${path.basename(filePath)} at ${revision}: ${message}`);
+    }
+}
+
+export function diffBaseContent(previous: Record<string, any>, current: Record<string, any>): Omit<BaseChanges, 'revision'> {
+    const messages = (content: Record<string, any>) => Object.fromEntries(
+        Object.entries(flattenNestedContent(content)).filter(([key]) => !key.split('.').some(isMetadataKey))
+    );
+    const before = messages(previous);
+    const after = messages(current);
+    const changes: Omit<BaseChanges, 'revision'> = { added: [], modified: [], removed: [] };
+    for (const [key, value] of Object.entries(after)) {
+        if (!(key in before)) {
+            changes.added.push(key);
+        } else if (JSON.stringify(before[key]) !== JSON.stringify(value)) {
+            changes.modified.push(key);
+        }
+    }
+    changes.removed = Object.keys(before).filter(key => !(key in after));
+    return changes;
+}
+
+/**
+ * Diffs the working copy of the base language file against its version at `revision`
+ * (a branch, tag or commit). A file that did not exist at `revision` counts as all added.
+ */
+export async function getBaseChangesSince(baseFilePath: string, current: Record<string, any>, revision: string): Promise<BaseChanges> {
+    const previous = await readFileAtRevision(baseFilePath, revision);
+    let previousContent: Record<string, any> = {};
+    if (previous !== null) {
+        try {
+            previousContent = JSON.parse(previous);
+        } catch (error) {
+            throw new Error(`${path.basename(baseFilePath)} at ${revision} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+    return { revision, ...diffBaseContent(previousContent, current) };
+}
+
+/**
+ * What to send for one target in incremental mode: exactly the keys added or modified since the
+ * revision. Removed keys are left to the orphaned-key review, as with `prepareTranslationContent`.
+ */
+export function prepareChangedContent(
+    baseContent: Record<string, any>,
+    changes: BaseChanges
+): Record<string, any> {
+    const base = flattenNestedContent(baseContent);
+    const result: Record<string, any> = {};
+    for (const key of [...changes.added, ...changes.modified]) {
+        result[key] = base[key];
+    }
+    return result;
+}
@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import { GlossaryTerm } from './llm-provider.interface';
+
+/**
+ * Project termbase, read from `i18n-nexus.glossary.json` next to the workspace root:
+ *
+ * {
+ *   "doNotTranslate": ["i18n Nexus", "Workspace"],
+ *   "terms": { "Dashboard": { "fa": "داشبورد", "es": "Panel" } }
+ * }
+ */
+export const DEFAULT_GLOSSARY_FILE = 'i18n-nexus.glossary.json';
+
+export interface Glossary {
+    doNotTranslate: string[];
+    /** Source term → target language → required translation */
+    terms: Record<string, Record<string, string>>;
+}
+
+export interface GlossaryViolation {
+    term: string;
+    expected: string;
+}
+
+export function loadGlossary(filePath: string): Glossary {
+    let raw: any;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read glossary ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`Glossary ${filePath} must contain a JSON object`);
+    }
+
+    const doNotTranslate = raw.doNotTranslate ?? [];
+    if (!Array.isArray(doNotTranslate) || doNotTranslate.some(term => typeof term !== 'string')) {
+        throw new Error(`Glossary ${filePath}: "doNotTranslate" must be a list of strings`);
+    }
+    const terms = raw.terms ?? {};
+    if (typeof terms !== 'object' || Array.isArray(terms)) {
+        throw new Error(`Glossary ${filePath}: "terms" must map each term to its translations`);
+    }
+    for (const [term, translations] of Object.entries(terms)) {
+        if (!translations || typeof translations !== 'object' || Object.values(translations).some(value => typeof value !== 'string')) {
+            throw new Error(`Glossary ${filePath}: translations of "${term}" must be a { "<lang>": "<text>" } object`);
+        }
+    }
+    return { doNotTranslate, terms: terms as Record<string, Record<string, string>> };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive match that also works for non-Latin scripts. */
+function containsTerm(text: string, term: string): boolean {
+    return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(term)}(?=$|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * The glossary entries for `lang` whose source term occurs in any of the given values.
+ * Do-not-translate terms are returned with themselves as the translation.
+ */
+export function getRelevantTerms(glossary: Glossary, values: unknown[], lang: string): GlossaryTerm[] {
+    const texts = values.filter((value): value is string => typeof value === 'string');
+    const entries: GlossaryTerm[] = [
+        ...glossary.doNotTranslate.map(term => ({ term, translation: term })),
+        ...Object.entries(glossary.terms)
+            .filter(([, translations]) => translations[lang] !== undefined)
+            .map(([term, translations]) => ({ term, translation: translations[lang] }))
+    ];
+    return entries.filter(entry => texts.some(text => containsTerm(text, entry.term)));
+}
+
+/**
+ * Glossary terms used in `source` whose required translation is missing from `translated`.
+ */
+export function checkGlossary(terms: GlossaryTerm[], source: unknown, translated: unknown): GlossaryViolation[] {
+    if (typeof source !== 'string' || typeof translated !== 'string') {
+        return [];
+    }
+    const target = translated.toLowerCase();
+    return terms
+        .filter(entry => containsTerm(source, entry.term) && !target.includes(entry.translation.toLowerCase()))
+        .map(entry => ({ term: entry.term, expected: entry.translation }));
+}
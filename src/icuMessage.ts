@@ -0,0 +1,435 @@
+/**
+ * Minimal ICU MessageFormat parser used to protect next-intl messages during translation.
+ * It understands arguments, plural/selectordinal/select, `#`, apostrophe quoting and rich-text tags,
+ * and records source offsets so syntax can be masked and restored verbatim.
+ */
+
+interface IcuSpan {
+    start: number;
+    end: number;
+}
+
+export interface IcuText extends IcuSpan {
+    type: 'text';
+}
+
+export interface IcuArgument extends IcuSpan {
+    type: 'argument';
+    name: string;
+    format?: string;
+}
+
+export interface IcuPound extends IcuSpan {
+    type: 'pound';
+}
+
+export interface IcuOption {
+    selector: string;
+    /** Offset just after the option's opening brace */
+    contentStart: number;
+    /** Offset of the option's closing brace */
+    contentEnd: number;
+    children: IcuNode[];
+}
+
+export interface IcuChoice extends IcuSpan {
+    type: 'plural' | 'selectordinal' | 'select';
+    name: string;
+    offset?: number;
+    options: IcuOption[];
+}
+
+export interface IcuTag extends IcuSpan {
+    type: 'tag';
+    name: string;
+    selfClosing: boolean;
+    /** Offset just after the opening tag's `>` */
+    openEnd: number;
+    /** Offset of the closing tag's `<` */
+    closeStart: number;
+    children: IcuNode[];
+}
+
+export type IcuNode = IcuText | IcuArgument | IcuPound | IcuChoice | IcuTag;
+
+export interface MaskedMessage {
+    text: string;
+    fragments: string[];
+}
+
+export class IcuParseError extends Error {
+    constructor(message: string, public readonly position: number) {
+        super(`${message} at position ${position}`);
+        this.name = 'IcuParseError';
+    }
+}
+
+const CHOICE_TYPES = new Set(['plural', 'selectordinal', 'select']);
+const TAG_NAME = /^[A-Za-z][\w:.-]*/;
+const PLACEHOLDER = /⟦(\d+)⟧/g;
+
+class IcuParser {
+    private pos = 0;
+
+    constructor(private readonly source: string) {}
+
+    parse(): IcuNode[] {
+        const nodes = this.parseMessage(0, null, false);
+        if (this.pos < this.source.length) {
+            throw new IcuParseError(`Unexpected "${this.source[this.pos]}"`, this.pos);
+        }
+        return nodes;
+    }
+
+    private parseMessage(depth: number, parentTag: string | null, inPlural: boolean): IcuNode[] {
+        const nodes: IcuNode[] = [];
+        while (this.pos < this.source.length) {
+            const ch = this.source[this.pos];
+            if (ch === '{') {
+                nodes.push(this.parseArgument(depth, inPlural));
+            } else if (ch === '}') {
+                if (depth === 0) {
+                    throw new IcuParseError('Unmatched "}"', this.pos);
+                }
+                return nodes;
+            } else if (ch === '#' && inPlural) {
+                nodes.push({ type: 'pound', start: this.pos, end: ++this.pos });
+            } else if (ch === '<' && this.source[this.pos + 1] === '/') {
+                if (parentTag === null) {
+                    throw new IcuParseError('Unexpected closing tag', this.pos);
+                }
+                return nodes;
+            } else if (this.isTagStart()) {
+                nodes.push(this.parseTag(depth, inPlural));
+            } else {
+                nodes.push(this.parseText(inPlural));
+            }
+        }
+        if (parentTag !== null) {
+            throw new IcuParseError(`Unclosed tag <${parentTag}>`, this.pos);
+        }
+        if (depth > 0) {
+            throw new IcuParseError('Unclosed "{"', this.pos);
+        }
+        return nodes;
+    }
+
+    private isTagStart(): boolean {
+        return this.source[this.pos] === '<' && TAG_NAME.test(this.source.slice(this.pos + 1));
+    }
+
+    private parseText(inPlural: boolean): IcuText {
+        const start = this.pos;
+        while (this.pos < this.source.length) {
+            const ch = this.source[this.pos];
+            if (ch === '{' || ch === '}' || (ch === '#' && inPlural)) {
+                break;
+            }
+            if (ch === '<' && (this.source[this.pos + 1] === '/' || this.isTagStart())) {
+                break;
+            }
+            if (ch === "'") {
+                this.skipQuoted(inPlural);
+                continue;
+            }
+            this.pos++;
+        }
+        return { type: 'text', start, end: this.pos };
+    }
+
+    /** Apostrophes escape `''` and quote syntax characters until the next single apostrophe. */
+    private skipQuoted(inPlural: boolean): void {
+        const next = this.source[this.pos + 1];
+        if (next === "'") {
+            this.pos += 2;
+            return;
+        }
+        if (next === '{' || next === '}' || next === '<' || next === '>' || (next === '#' && inPlural)) {
+            this.pos += 2;
+            while (this.pos < this.source.length) {
+                if (this.source[this.pos] === "'") {
+                    if (this.source[this.pos + 1] === "'") {
+                        this.pos += 2;
+                        continue;
+                    }
+                    this.pos++;
+                    return;
+                }
+                this.pos++;
+            }
+            return;
+        }
+        this.pos++;
+    }
+
+    private parseTag(depth: number, inPlural: boolean): IcuTag {
+        const start = this.pos;
+        this.pos++;
+        const name = TAG_NAME.exec(this.source.slice(this.pos))![0];
+        this.pos += name.length;
+        this.skipWhitespace();
+
+        if (this.source.startsWith('/>', this.pos)) {
+            this.pos += 2;
+            return { type: 'tag', name, selfClosing: true, start, end: this.pos, openEnd: this.pos, closeStart: this.pos, children: [] };
+        }
+        this.expect('>');
+        const openEnd = this.pos;
+        const children = this.parseMessage(depth, name, inPlural);
+        const closeStart = this.pos;
+        const closing = `</${name}>`;
+        if (!this.source.startsWith(closing, this.pos)) {
+            throw new IcuParseError(`Mismatched closing tag for <${name}>`, this.pos);
+        }
+        this.pos += closing.length;
+        return { type: 'tag', name, selfClosing: false, start, end: this.pos, openEnd, closeStart, children };
+    }
+
+    private parseArgument(depth: number, inPlural: boolean): IcuArgument | IcuChoice {
+        const start = this.pos;
+        this.pos++;
+        this.skipWhitespace();
+        const name = this.readWord();
+        if (!name) {
+            throw new IcuParseError('Expected argument name', this.pos);
+        }
+        this.skipWhitespace();
+
+        if (this.source[this.pos] === '}') {
+            this.pos++;
+            return { type: 'argument', name, start, end: this.pos };
+        }
+        this.expect(',');
+        this.skipWhitespace();
+        const format = this.readWord();
+        if (!format) {
+            throw new IcuParseError('Expected argument type', this.pos);
+        }
+        this.skipWhitespace();
+
+        if (!CHOICE_TYPES.has(format)) {
+            // Simple formatted argument such as {price, number, ::currency/EUR}
+            const styleEnd = this.source.indexOf('}', this.pos);
+            if (styleEnd === -1 || this.source.slice(this.pos, styleEnd).includes('{')) {
+                throw new IcuParseError(`Unclosed argument {${name}}`, this.pos);
+            }
+            this.pos = styleEnd + 1;
+            return { type: 'argument', name, format, start, end: this.pos };
+        }
+
+        this.expect(',');
+        const choice: IcuChoice = { type: format as IcuChoice['type'], name, options: [], start, end: start };
+        for (;;) {
+            this.skipWhitespace();
+            if (this.source[this.pos] === '}') {
+                this.pos++;
+                break;
+            }
+            if (this.pos >= this.source.length) {
+                throw new IcuParseError(`Unclosed ${format} argument {${name}}`, this.pos);
+            }
+            const selector = this.readWord();
+            if (!selector) {
+                throw new IcuParseError('Expected selector', this.pos);
+            }
+            if (format !== 'select' && selector.startsWith('offset:')) {
+                choice.offset = Number(selector.slice('offset:'.length));
+                continue;
+            }
+            this.skipWhitespace();
+            this.expect('{');
+            const contentStart = this.pos;
+            const children = this.parseMessage(depth + 1, null, inPlural || format !== 'select');
+            const contentEnd = this.pos;
+            this.expect('}');
+            choice.options.push({ selector, contentStart, contentEnd, children });
+        }
+        if (!choice.options.some(option => option.selector === 'other')) {
+            throw new IcuParseError(`Missing "other" option in {${name}, ${format}}`, this.pos);
+        }
+        choice.end = this.pos;
+        return choice;
+    }
+
+    private readWord(): string {
+        const start = this.pos;
+        while (this.pos < this.source.length && !/[\s{},#<>]/.test(this.source[this.pos])) {
+            this.pos++;
+        }
+        return this.source.slice(start, this.pos);
+    }
+
+    private skipWhitespace(): void {
+        while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) {
+            this.pos++;
+        }
+    }
+
+    private expect(ch: string): void {
+        if (this.source[this.pos] !== ch) {
+            throw new IcuParseError(`Expected "${ch}"`, this.pos);
+        }
+        this.pos++;
+    }
+}
+
+export function parseIcuMessage(source: string): IcuNode[] {
+    return new IcuParser(source).parse();
+}
+
+export function hasIcuSyntax(nodes: IcuNode[]): boolean {
+    return nodes.some(node => node.type !== 'text');
+}
+
+const PLURAL_CATEGORY_ORDER = ['zero', 'one', 'two', 'few', 'many', 'other'];
+
+/**
+ * The CLDR plural categories a locale distinguishes, e.g. all six for `ar` and `one few many other` for `ru`.
+ */
+export function getPluralCategories(locale: string, type: 'plural' | 'selectordinal' = 'plural'): string[] {
+    let categories: string[];
+    try {
+        categories = new Intl.PluralRules(locale, { type: type === 'plural' ? 'cardinal' : 'ordinal' }).resolvedOptions().pluralCategories;
+    } catch {
+        categories = ['other'];
+    }
+    return [...categories].sort((a, b) => PLURAL_CATEGORY_ORDER.indexOf(a) - PLURAL_CATEGORY_ORDER.indexOf(b));
+}
+
+/**
+ * Selectors a plural needs in the target locale: its explicit `=n` cases plus every CLDR category.
+ */
+function getTargetSelectors(node: IcuChoice, targetLocale: string): string[] {
+    const exact = node.options.map(option => option.selector).filter(selector => selector.startsWith('='));
+    return [...exact, ...getPluralCategories(targetLocale, node.type === 'selectordinal' ? 'selectordinal' : 'plural')];
+}
+
+/**
+ * A sorted description of the distinct arguments, choice selectors and tags in a message.
+ * Two messages with equal signatures are interchangeable for `useTranslations`.
+ * With `targetLocale`, plural selectors are the ones that locale requires instead of the source's.
+ */
+export function getMessageSignature(nodes: IcuNode[], targetLocale?: string): string[] {
+    const signature = new Set<string>();
+    const walk = (list: IcuNode[]) => {
+        for (const node of list) {
+            switch (node.type) {
+                case 'argument':
+                    signature.add(node.format ? `{${node.name}, ${node.format}}` : `{${node.name}}`);
+                    break;
+                case 'plural':
+                case 'selectordinal':
+                case 'select': {
+                    const selectors = targetLocale && node.type !== 'select'
+                        ? getTargetSelectors(node, targetLocale)
+                        : node.options.map(option => option.selector);
+                    signature.add(`{${node.name}, ${node.type}${node.offset ? `, offset:${node.offset}` : ''}: ${[...selectors].sort().join(' ')}}`);
+                    node.options.forEach(option => walk(option.children));
+                    break;
+                }
+                case 'tag':
+                    signature.add(node.selfClosing ? `<${node.name}/>` : `<${node.name}></${node.name}>`);
+                    walk(node.children);
+                    break;
+            }
+        }
+    };
+    walk(nodes);
+    return [...signature].sort();
+}
+
+/**
+ * Describes every plural whose branches must change for the target locale, e.g.
+ * `{count, plural}: =0, one, few, many, other`. Empty when the source branches already fit.
+ */
+export function getPluralExpansions(nodes: IcuNode[], targetLocale: string): string[] {
+    const expansions: string[] = [];
+    const walk = (list: IcuNode[]) => {
+        for (const node of list) {
+            if (node.type === 'tag') {
+                walk(node.children);
+            } else if (node.type === 'plural' || node.type === 'selectordinal' || node.type === 'select') {
+                if (node.type !== 'select') {
+                    const source = node.options.map(option => option.selector).sort().join(' ');
+                    const target = getTargetSelectors(node, targetLocale);
+                    if ([...target].sort().join(' ') !== source) {
+                        expansions.push(`{${node.name}, ${node.type}}: ${target.join(', ')}`);
+                    }
+                }
+                node.options.forEach(option => walk(option.children));
+            }
+        }
+    };
+    walk(nodes);
+    return expansions;
+}
+
+/**
+ * Replaces every piece of ICU syntax with a `⟦n⟧` token so the model only sees translatable text.
+ */
+export function maskMessage(source: string, nodes: IcuNode[] = parseIcuMessage(source)): MaskedMessage {
+    const fragments: string[] = [];
+    const token = (fragment: string) => {
+        fragments.push(fragment);
+        return `⟦${fragments.length - 1}⟧`;
+    };
+
+    const mask = (list: IcuNode[]): string => list.map(node => {
+        switch (node.type) {
+            case 'text':
+                return source.slice(node.start, node.end);
+            case 'argument':
+            case 'pound':
+                return token(source.slice(node.start, node.end));
+            case 'tag':
+                if (node.selfClosing) {
+                    return token(source.slice(node.start, node.end));
+                }
+                return token(source.slice(node.start, node.openEnd)) + mask(node.children) + token(source.slice(node.closeStart, node.end));
+            default: {
+                let out = '';
+                let cursor = node.start;
+                for (const option of node.options) {
+                    out += token(source.slice(cursor, option.contentStart)) + mask(option.children);
+                    cursor = option.contentEnd;
+                }
+                return out + token(source.slice(cursor, node.end));
+            }
+        }
+    }).join('');
+
+    return { text: mask(nodes), fragments };
+}
+
+/**
+ * Puts the original syntax back. Returns null when the model dropped, duplicated or invented tokens.
+ */
+export function unmaskMessage(masked: string, fragments: string[]): string | null {
+    const seen = new Set<number>();
+    let valid = true;
+    const restored = masked.replace(PLACEHOLDER, (_match, index: string) => {
+        const i = Number(index);
+        if (i >= fragments.length || seen.has(i)) {
+            valid = false;
+            return '';
+        }
+        seen.add(i);
+        return fragments[i];
+    });
+    return valid && seen.size === fragments.length ? restored : null;
+}
+
+/**
+ * Checks that a translated value parses and keeps the same arguments, selectors and tags as its source.
+ */
+export function isTranslationStructureValid(sourceSignature: string[], translated: unknown): boolean {
+    if (typeof translated !== 'string' || translated.includes('⟦')) {
+        return false;
+    }
+    try {
+        const signature = getMessageSignature(parseIcuMessage(translated));
+        return signature.length === sourceSignature.length && signature.every((item, i) => item === sourceSignature[i]);
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * Parses the JSON object of a streamed translation response while it arrives, emitting every
+ * top-level member as soon as its value is complete. Text before the opening brace, such as
+ * a Markdown code fence, is skipped like the providers' regex fallback does.
+ */
+
+import { ResponseParseError } from './providers/response-schema';
+
+type ParserState = 'before' | 'member' | 'key' | 'colon' | 'value' | 'done';
+
+const WHITESPACE = /\s/;
+
+export class IncrementalJsonParser {
+    private state: ParserState = 'before';
+    private keyText = '';
+    private valueText = '';
+    /** Open braces and brackets inside the current value */
+    private depth = 0;
+    private inString = false;
+    private escaped = false;
+    private result: Record<string, any> = {};
+
+    /**
+     * Feeds the next piece of the response. Returns the members completed by it, in order.
+     */
+    public push(text: string): Array<[string, any]> {
+        const completed: Array<[string, any]> = [];
+        for (const char of text) {
+            const member = this.consume(char);
+            if (member) {
+                completed.push(member);
+            }
+        }
+        return completed;
+    }
+
+    /** The members parsed so far */
+    public getResult(): Record<string, any> {
+        return this.result;
+    }
+
+    /** True once the closing brace of the object was read */
+    public isComplete(): boolean {
+        return this.state === 'done';
+    }
+
+    private consume(char: string): [string, any] | null {
+        switch (this.state) {
+            case 'before':
+                if (char === '{') {
+                    this.state = 'member';
+                }
+                return null;
+            case 'member':
+                if (char === '"') {
+                    this.state = 'key';
+                    this.keyText = char;
+                } else if (char === '}') {
+                    this.state = 'done';
+                } else if (char !== ',' && !WHITESPACE.test(char)) {
+                    throw new ResponseParseError(`Unexpected "${char}" in the streamed JSON object`);
+                }
+                return null;
+            case 'key':
+                this.keyText += char;
+                if (this.readString(char)) {
+                    this.state = 'colon';
+                }
+                return null;
+            case 'colon':
+                if (char === ':') {
+                    this.state = 'value';
+                    this.valueText = '';
+                    this.depth = 0;
+                } else if (!WHITESPACE.test(char)) {
+                    throw new ResponseParseError(`Expected ":" after ${this.keyText} in the streamed JSON object`);
+                }
+                return null;
+            case 'value':
+                return this.consumeValue(char);
+            case 'done':
+                return null;
+        }
+    }
+
+    private consumeValue(char: string): [string, any] | null {
+        if (this.inString) {
+            this.valueText += char;
+            return this.readString(char) && this.depth === 0 ? this.completeMember('member') : null;
+        }
+        if (this.depth === 0 && (char === ',' || char === '}')) {
+            // Numbers, booleans and null only end at the next separator
+            return this.completeMember(char === '}' ? 'done' : 'member');
+        }
+        if (this.valueText === '' && WHITESPACE.test(char)) {
+            return null;
+        }
+        this.valueText += char;
+        if (char === '"') {
+            this.inString = true;
+        } else if (char === '{' || char === '[') {
+            this.depth++;
+        } else if (char === '}' || char === ']') {
+            this.depth--;
+            if (this.depth === 0) {
+                return this.completeMember('member');
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Tracks escapes inside a string; returns true when `char` is its closing quote.
+     * The opening quote has already been read.
+     */
+    private readString(char: string): boolean {
+        if (this.escaped) {
+            this.escaped = false;
+            return false;
+        }
+        if (char === '\\') {
+            this.escaped = true;
+            return false;
+        }
+        if (char === '"') {
+            this.inString = false;
+            return true;
+        }
+        return false;
+    }
+
+    private completeMember(next: ParserState): [string, any] {
+        let key: string;
+        let value: any;
+        try {
+            key = JSON.parse(this.keyText);
+            value = JSON.parse(this.valueText.trim());
+        } catch (error) {
+            throw new ResponseParseError(`Invalid value for ${this.keyText} in the streamed JSON object: ${error instanceof Error ? error.message : error}`);
+        }
+        this.result[key] = value;
+        this.state = next;
+        this.keyText = this.valueText = '';
+        return [key, value];
+    }
+}
@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Developer notes that give the model context for individual keys. They come from:
+ * - `"@key": "note"` (or `{ "description": "note" }`) next to the key,
+ * - `"_comment"` inside a namespace, which applies to every key below it,
+ * - a sidecar `<lang>.meta.json` with the same (nested or dotted) keys as the locale file.
+ * Notes of the base language apply to every target; a target's own meta file adds to them.
+ * A root-level `_comment` describes the file for maintainers and is not sent.
+ */
+export type KeyNotes = Record<string, string[]>;
+
+export const COMMENT_KEY = '_comment';
+const NOTE_PREFIX = '@';
+
+/** Keys that hold notes rather than messages; they are never translated or pruned. */
+export function isMetadataKey(key: string): boolean {
+    return key === COMMENT_KEY || key.startsWith(NOTE_PREFIX);
+}
+
+export function getMetaFilePath(localeDir: string, lang: string): string {
+    return path.join(localeDir, `${lang}.meta.json`);
+}
+
+function readNote(value: unknown): string | undefined {
+    if (typeof value === 'string') {
+        return value.trim() || undefined;
+    }
+    if (value && typeof value === 'object' && typeof (value as any).description === 'string') {
+        return (value as any).description.trim() || undefined;
+    }
+    return undefined;
+}
+
+function addNote(notes: KeyNotes, key: string, note: string | undefined): void {
+    if (note && !(notes[key] ??= []).includes(note)) {
+        notes[key].push(note);
+    }
+}
+
+/**
+ * Collects `_comment` and `@key` notes from a locale file, keyed by dotted message key.
+ */
+export function collectInlineNotes(content: Record<string, any>): KeyNotes {
+    const notes: KeyNotes = {};
+    const walk = (node: Record<string, any>, parentPath: string, inherited: string[]) => {
+        const groupNote = parentPath ? readNote(node[COMMENT_KEY]) : undefined;
+        const context = groupNote ? [...inherited, groupNote] : inherited;
+        for (const [key, value] of Object.entries(node)) {
+            if (isMetadataKey(key)) {
+                continue;
+            }
+            const dotted = parentPath ? `${parentPath}.${key}` : key;
+            if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+                walk(value, dotted, context);
+                continue;
+            }
+            context.forEach(note => addNote(notes, dotted, note));
+            addNote(notes, dotted, readNote(node[`${NOTE_PREFIX}${key}`]));
+        }
+    };
+    walk(content, '', []);
+    return notes;
+}
+
+/**
+ * Reads a `<lang>.meta.json` sidecar. Missing files yield no notes; malformed ones throw.
+ */
+export function loadSidecarNotes(filePath: string): KeyNotes {
+    if (!fs.existsSync(filePath)) {
+        return {};
+    }
+    let raw: unknown;
+    try {
+        raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        throw new Error(`Could not read notes file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+    const notes: KeyNotes = {};
+    const walk = (node: Record<string, any>, parentPath: string) => {
+        for (const [key, value] of Object.entries(node)) {
+            const dotted = parentPath ? `${parentPath}.${key}` : key;
+            const note = readNote(value);
+            if (note) {
+                addNote(notes, dotted, note);
+            } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+                walk(value, dotted);
+            }
+        }
+    };
+    if (raw && typeof raw === 'object' && !Array.isArray(raw)) {
+        walk(raw as Record<string, any>, '');
+    }
+    return notes;
+}
+
+/**
+ * All notes for translating `baseContent` into `targetLang`.
+ */
+export function getKeyNotes(localeDir: string, baseLanguage: string, targetLang: string, baseContent: Record<string, any>): KeyNotes {
+    const notes = collectInlineNotes(baseContent);
+    for (const sidecar of [loadSidecarNotes(getMetaFilePath(localeDir, baseLanguage)), loadSidecarNotes(getMetaFilePath(localeDir, targetLang))]) {
+        for (const [key, keyNotes] of Object.entries(sidecar)) {
+            keyNotes.forEach(note => addNote(notes, key, note));
+        }
+    }
+    return notes;
+}
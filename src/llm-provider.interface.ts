@@ -1,5 +1,12 @@
 import { Logger } from './logger';
 import * as vscode from 'vscode';
+import { RetryPolicy } from './providers/retry-policy';
+
+/**
+ * The subset of a VS Code `WorkspaceConfiguration` that providers read from.
+ * The CLI satisfies it with settings loaded from an RC file.
+ */
+export type ProviderConfiguration = Pick<vscode.WorkspaceConfiguration, 'get'>;
 
 export interface TokenUsage {
     inputTokens: number;
@@ -9,6 +16,39 @@ export interface TokenUsage {
 export interface TranslationResult {
     translatedContent: any;
     tokensUsed: TokenUsage;
+    /** Provider and model that produced each key, e.g. `Claude (claude-3-5-haiku-latest)`; set by `LLMService` */
+    keyProviders?: Record<string, string>;
+    /** Keys produced by a fallback provider after the configured one failed; set by `LLMService` */
+    fallbackKeys?: string[];
+}
+
+export interface GlossaryTerm {
+    term: string;
+    /** Required target text; equal to `term` when the term must stay untranslated */
+    translation: string;
+}
+
+export interface TranslationReference {
+    source: string;
+    translation: string;
+    /** 0–1 similarity between this source and the key's source */
+    similarity: number;
+}
+
+/**
+ * Extra context for a translate request, rendered into every provider's prompt.
+ */
+export interface TranslationHints {
+    /** Rules that apply to the whole request */
+    instructions?: string[];
+    /** Rules for individual keys of the request, keyed like the request content */
+    keyInstructions?: Record<string, string[]>;
+    /** Project terms that occur in the request */
+    glossary?: GlossaryTerm[];
+    /** Earlier translations of similar text, per key, to keep phrasing consistent */
+    references?: Record<string, TranslationReference[]>;
+    /** Developer notes describing what a key means or where it is shown */
+    keyNotes?: Record<string, string[]>;
 }
 
 export interface ValidationResult {
@@ -16,10 +56,44 @@ export interface ValidationResult {
     tokensUsed: TokenUsage;
 }
 
+/**
+ * A piece of a streamed completion. The provider reports the request's token usage once, on
+ * the last delta.
+ */
+export interface CompletionDelta {
+    text: string;
+    tokensUsed?: TokenUsage;
+}
+
+export interface ModelPullProgress {
+    status: string;
+    /** Bytes of the layer being downloaded, when known */
+    completed?: number;
+    total?: number;
+}
+
+/**
+ * Asked when the configured model is not installed on a local model server. `pull` downloads it
+ * while reporting progress; resolve `true` once it is installed so the request is retried.
+ */
+export type MissingModelHandler = (
+    model: string,
+    pull: (onProgress: (progress: ModelPullProgress) => void) => Promise<void>
+) => Promise<boolean>;
+
 export interface ILLMProvider {
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void;
-    translate(content: any, targetLang: string): Promise<TranslationResult>;
+    /** Without a `retryPolicy` the provider builds one from `config` */
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void;
+    translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult>;
+    /**
+     * Same request as `translate`, streaming the raw completion (the JSON object) as it is
+     * generated. Implemented by providers whose API can stream. Only opening the stream is
+     * retried; a stream that breaks off fails the request.
+     */
+    translateStream?(content: any, targetLang: string, hints?: TranslationHints): AsyncIterable<CompletionDelta>;
     compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<any>;
     validateTranslation(originalContent: any, translatedContent: any, targetLang: string): Promise<ValidationResult>;
     getProviderName(): string;
+    /** Implemented by providers that can install missing models */
+    setMissingModelHandler?(handler: MissingModelHandler): void;
 }
\ No newline at end of file
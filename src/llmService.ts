@@ -1,97 +1,168 @@
-import * as vscode from 'vscode';
-import { Logger } from './logger';
-import { ILLMProvider, TranslationResult, ValidationResult } from './llm-provider.interface';
-import { OpenAIProvider } from './providers/openai-provider';
-import { GeminiProvider } from './providers/gemini-provider';
-import { ClaudeProvider } from './providers/claude-provider';
-import { OpenAICompatibleProvider } from './providers/openai-compatible-provider';
-import { OllamaProvider } from './providers/ollama-provider';
+import { Logger, LogCategory } from './logger';
+import {
+    ILLMProvider,
+    MissingModelHandler,
+    ProviderConfiguration,
+    TokenUsage,
+    TranslationHints,
+    TranslationResult,
+    ValidationResult
+} from './llm-provider.interface';
+import { createProvider } from './provider-factory';
+import { getProviderDefaultModel } from './provider-config';
+import { ResponseParseError } from './providers/response-schema';
+import { RetryListener, RetryPolicy, classifyError } from './providers/retry-policy';
+import { IncrementalJsonParser } from './incrementalJson';
 
+/** Receives each key of a streamed response as soon as its value is complete */
+export type TranslatedEntryListener = (key: string, value: any) => void;
+
+/**
+ * One `i18nNexus.fallbackProviders` entry or `i18nNexus.languageRoutes` value. The model defaults
+ * to the provider's default model; the API key and URL to the selected provider's when it is the same provider.
+ */
+export interface ProviderSettings {
+    provider: string;
+    model?: string;
+    temperature?: number;
+    apiKey?: string;
+    apiUrl?: string;
+}
+
+interface ProviderSlot {
+    /** Provider id and model, e.g. `claude (claude-3-5-haiku-latest)` */
+    label: string;
+    config: ProviderConfiguration;
+    /** Created on first use */
+    provider: ILLMProvider | null;
+}
+
+/** Key of the selected provider in `LLMService.routes`, used for languages without a route */
+const DEFAULT_ROUTE = '';
+
+/** The shared settings, with the provider, model and credentials of a fallback or route on top */
+class ProviderOverrideConfiguration implements ProviderConfiguration {
+    constructor(private base: ProviderConfiguration, private overrides: Record<string, unknown>) {}
+
+    get<T>(section: string): T | undefined;
+    get<T>(section: string, defaultValue: T): T;
+    get<T>(section: string, defaultValue?: T): T | undefined {
+        return section in this.overrides ? this.overrides[section] as T : this.base.get<T>(section, defaultValue as T);
+    }
+}
+
+function getProviderLabel(config: ProviderConfiguration): string {
+    const provider = config.get<string>('llmProvider') || 'openai';
+    return `${provider} (${config.get<string>('llmModel') || getProviderDefaultModel(provider)})`;
+}
+
+function isProviderSettings(entry: unknown): entry is ProviderSettings {
+    return !!entry && typeof (entry as ProviderSettings).provider === 'string';
+}
+
+/**
+ * Whether `targetLang` matches a `languageRoutes` key: a language, a glob such as `zh-*`,
+ * or several of them separated by commas. Case is ignored.
+ */
+export function matchesLanguagePattern(pattern: string, targetLang: string): boolean {
+    return pattern.split(',').map(part => part.trim()).filter(Boolean).some(part => {
+        const source = part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+        return new RegExp(`^${source}$`, 'i').test(targetLang);
+    });
+}
+
+/**
+ * Failures another provider may not run into: outages and rate limits that outlasted the
+ * retries, exhausted quotas, and responses that are not the requested JSON.
+ */
+function shouldFailOver(error: any): boolean {
+    if (error instanceof ResponseParseError || error instanceof SyntaxError) {
+        return true;
+    }
+    const status = error?.status ?? error?.response?.status;
+    return status === 429 || classifyError(error).retryable;
+}
 
 export class LLMService {
-    private provider!: ILLMProvider;
+    /**
+     * A provider per `i18nNexus.languageRoutes` key in use, and the selected provider under
+     * `DEFAULT_ROUTE` for every other language
+     */
+    private routes = new Map<string, ProviderSlot>();
+    /** `i18nNexus.languageRoutes` in settings order; the first matching key wins */
+    private routeSettings: Array<[string, ProviderSettings]> | null = null;
+    /** `i18nNexus.fallbackProviders`, tried in order when a language's provider fails */
+    private fallbacks: ProviderSlot[] | null = null;
     private logger: Logger;
-    private outputChannel: vscode.OutputChannel;
+    private getConfiguration: () => ProviderConfiguration;
     private batchSize: number;
     private batchTokenLimit: number;
-    private parallelBatchCount: number;
+    private streamResponses: boolean;
+    private retryPolicy: RetryPolicy;
+    private missingModelHandler: MissingModelHandler | null = null;
 
-    constructor(logger: Logger, channel: vscode.OutputChannel) {
+    /**
+     * @param getConfiguration returns the current `i18nNexus` settings; the extension reads them
+     * from the workspace configuration, the CLI from its RC file.
+     */
+    constructor(logger: Logger, getConfiguration: () => ProviderConfiguration) {
         this.logger = logger;
-        this.outputChannel = channel;
-        const config = vscode.workspace.getConfiguration('i18nNexus');
+        this.getConfiguration = getConfiguration;
+        const config = getConfiguration();
         this.batchSize = config.get('translationBatchSize', 1000);
         this.batchTokenLimit = config.get('batchTokenLimit', 8000);
-        this.parallelBatchCount = Math.max(1, config.get('parallelBatchCount', 1));
-        // Don't initialize provider during construction to avoid API key validation errors
-        // this.logger.log('LLMService initialized (provider will be initialized on first use)');
-    }
-
-    private initializeProvider() {
-        const config = vscode.workspace.getConfiguration('i18nNexus');
-        const providerName = config.get('llmProvider') || 'openai';
-        // this.logger.log(`Initializing LLM provider: ${providerName}`);
-
-        switch (providerName) {
-            case 'openai':
-                this.provider = new OpenAIProvider();
-                break;
-            case 'gemini':
-                this.provider = new GeminiProvider();
-                break;
-            case 'claude':
-                this.provider = new ClaudeProvider();
-                break;
-            case 'openai-compatible':
-                this.provider = new OpenAICompatibleProvider();
-                break;
-            case 'ollama':
-                this.provider = new OllamaProvider();
-                break;
-            //case 'zhipuai':
-            //    this.provider = new ZhipuAIProvider();
-            //    break;
-            default:
-                this.logger.error(`Unsupported LLM provider: ${providerName}`);
-                throw new Error(`Unsupported LLM provider: ${providerName}`);
-        }
+        this.streamResponses = config.get('streamResponses', true);
+        this.retryPolicy = RetryPolicy.fromConfiguration(config, logger);
+        // Don't initialize providers during construction to avoid API key validation errors
+    }
+
+    /**
+     * Notifies `listener` before a provider call is retried after a rate limit or transient error.
+     * Returns a function that removes the listener.
+     */
+    public onRetry(listener: RetryListener): () => void {
+        return this.retryPolicy.onRetry(listener);
+    }
 
-        this.provider.initialize(config, this.logger);
-        // this.logger.log(`LLM provider ${providerName} initialized successfully`);
+    /**
+     * Asked when the provider's model is not installed (Ollama); without a handler such requests fail.
+     */
+    public setMissingModelHandler(handler: MissingModelHandler): void {
+        this.missingModelHandler = handler;
+        this.routes.forEach(slot => slot.provider?.setMissingModelHandler?.(handler));
+        this.fallbacks?.forEach(slot => slot.provider?.setMissingModelHandler?.(handler));
     }
 
-    public async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    /**
+     * With `onEntry`, responses are streamed where the provider supports it and every key is
+     * reported as soon as it arrives; the result is the same as without.
+     */
+    public async translate(content: any, targetLang: string, hints?: TranslationHints, onEntry?: TranslatedEntryListener): Promise<TranslationResult> {
         // this.logger.log(`Starting translation to ${targetLang}`);
         try {
-            // Initialize provider if not already initialized
-            if (!this.provider) {
-                this.initializeProvider();
-            }
-            
-            const result = await this.translateInBatches(content, targetLang);
+            // Initialize the language's provider up front, its setup errors are not failed over
+            this.getLanguageProvider(targetLang);
+
+            const result = await this.translateInBatches(content, targetLang, hints, onEntry);
             // this.logger.log(`Translation to ${targetLang} completed successfully`);
             // this.logger.log(`Total tokens used: Input: ${result.tokensUsed.inputTokens}, Output: ${result.tokensUsed.outputTokens}`);
             return result;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             this.logger.error(`Translation failed: ${errorMessage}`, error);
-            vscode.window.showErrorMessage(`Translation failed: ${errorMessage}`);
             throw error;
         }
     }
 
-    public async *translateGenerator(content: any, targetLang: string): AsyncGenerator<TranslationResult> {
-        // Initialize provider if not already initialized
-        if (!this.provider) {
-            this.initializeProvider();
-        }
-        
+    public async *translateGenerator(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<TranslationResult> {
+        const provider = this.getLanguageProvider(targetLang);
+
         const batchGen = this.splitIntoBatches(content, this.batchSize);
         let index = 0;
         for (const batch of batchGen) {
             index++;
             // this.outputChannel.appendLine(`Translating batch ${index}...`);
-            const result = await this.provider.translate(batch, targetLang);
+            const result = await provider.translate(batch, targetLang, hints);
             if (result.tokensUsed.inputTokens + result.tokensUsed.outputTokens > this.batchTokenLimit) {
                 this.batchSize = Math.max(1, Math.floor(this.batchSize / 2));
                 // this.outputChannel.appendLine(`Token usage high, reducing batch size to ${this.batchSize}`);
@@ -100,17 +171,21 @@ export class LLMService {
         }
     }
 
-    private async translateInBatches(content: any, targetLang: string): Promise<TranslationResult> {
+    private async translateInBatches(content: any, targetLang: string, hints?: TranslationHints, onEntry?: TranslatedEntryListener): Promise<TranslationResult> {
         const batchGenerator = this.splitIntoBatches(content, this.batchSize);
         let batchIndex = 0;
         let totalTranslatedContent: any = {};
         let totalTokensUsed = { inputTokens: 0, outputTokens: 0 };
-        const running: Promise<void>[] = [];
+        const keyProviders: Record<string, string> = {};
+        const fallbackKeys: string[] = [];
 
+        // Chunks are translated concurrently (`chunkConcurrency`), the batches of one chunk in turn
         const processBatch = async (batch: any, index: number) => {
             // this.outputChannel.appendLine(`Translating batch ${index}...`);
-            const result = await this.provider.translate(batch, targetLang);
+            const result = await this.translateBatch(batch, targetLang, hints, onEntry);
             Object.assign(totalTranslatedContent, result.translatedContent);
+            Object.assign(keyProviders, result.keyProviders);
+            fallbackKeys.push(...(result.fallbackKeys || []));
             totalTokensUsed.inputTokens += result.tokensUsed.inputTokens;
             totalTokensUsed.outputTokens += result.tokensUsed.outputTokens;
             // this.outputChannel.appendLine(`Batch ${index} translated. Tokens used: Input: ${result.tokensUsed.inputTokens}, Output: ${result.tokensUsed.outputTokens}`);
@@ -122,15 +197,191 @@ export class LLMService {
 
         for (const batch of batchGenerator) {
             batchIndex++;
-            const p = processBatch(batch, batchIndex);
-            running.push(p);
-            if (running.length >= this.parallelBatchCount) {
-                await running.shift();
+            await processBatch(batch, batchIndex);
+        }
+
+        return { translatedContent: totalTranslatedContent, tokensUsed: totalTokensUsed, keyProviders, fallbackKeys };
+    }
+
+    /**
+     * Sends the batch to the language's provider, then to each fallback in turn while the
+     * failure is one the next provider may not run into.
+     */
+    private async translateBatch(batch: any, targetLang: string, hints?: TranslationHints, onEntry?: TranslatedEntryListener): Promise<TranslationResult> {
+        const chain = this.getProviderChain(targetLang);
+        for (let i = 0; ; i++) {
+            const isLast = i === chain.length - 1;
+            let provider: ILLMProvider;
+            try {
+                provider = this.getSlotProvider(chain[i]);
+            } catch (error) {
+                if (isLast) {
+                    throw error;
+                }
+                this.logger.warn(`Skipping fallback ${chain[i].label}: ${error instanceof Error ? error.message : error}`, LogCategory.PROVIDER);
+                continue;
+            }
+            try {
+                const result = await this.translateWith(provider, batch, targetLang, hints, onEntry);
+                const keys = Object.keys(result.translatedContent || {});
+                return {
+                    ...result,
+                    keyProviders: Object.fromEntries(keys.map(key => [key, chain[i].label])),
+                    fallbackKeys: i > 0 ? keys : []
+                };
+            } catch (error) {
+                if (isLast || !shouldFailOver(error)) {
+                    throw error;
+                }
+                this.logger.warn(
+                    `${chain[i].label} failed (${classifyError(error).reason}), falling back to ${chain[i + 1].label}`,
+                    LogCategory.PROVIDER
+                );
+            }
+        }
+    }
+
+    /**
+     * The provider and model `targetLang` is translated with, to size its chunks and scope its
+     * translation memory. The model is undefined when the provider's default is used; the
+     * context window is set when one is requested from the provider (`ollamaContextLength`).
+     */
+    public getLanguageModel(targetLang: string): { llmProvider: string; llmModel?: string; contextWindow?: number } {
+        const config = this.getLanguageSlot(targetLang).config;
+        const llmProvider = config.get<string>('llmProvider') || 'openai';
+        const contextWindow = llmProvider === 'ollama' ? config.get<number>('ollamaContextLength', 0) : 0;
+        return {
+            llmProvider,
+            llmModel: config.get<string>('llmModel') || undefined,
+            ...(contextWindow && contextWindow > 0 ? { contextWindow } : {})
+        };
+    }
+
+    /**
+     * The providers `targetLang` may be translated with, in the order they are tried: its own,
+     * then the fallbacks. Used to keep chunk concurrency within what every one of them allows.
+     */
+    public getProviderNames(targetLang: string): string[] {
+        return this.getProviderChain(targetLang).map(slot => slot.config.get<string>('llmProvider') || 'openai');
+    }
+
+    private getProviderChain(targetLang: string): ProviderSlot[] {
+        const route = this.getLanguageSlot(targetLang);
+        // A fallback that is the language's own provider and model would only fail again
+        return [route, ...this.getFallbacks().filter(slot => slot.label !== route.label)];
+    }
+
+    private getLanguageProvider(targetLang: string): ILLMProvider {
+        return this.getSlotProvider(this.getLanguageSlot(targetLang));
+    }
+
+    /** The slot of the first `languageRoutes` key matching `targetLang`, or of the selected provider */
+    private getLanguageSlot(targetLang: string): ProviderSlot {
+        const [pattern, settings] = this.getRouteSettings().find(([key]) => matchesLanguagePattern(key, targetLang)) || [DEFAULT_ROUTE];
+        let slot = this.routes.get(pattern);
+        if (!slot) {
+            const config = settings ? this.createOverrideConfiguration(settings) : this.getConfiguration();
+            slot = { label: getProviderLabel(config), config, provider: null };
+            this.routes.set(pattern, slot);
+            if (settings) {
+                this.logger.info(`Languages matching "${pattern}" are translated with ${slot.label}`, LogCategory.PROVIDER);
             }
         }
+        return slot;
+    }
+
+    private getRouteSettings(): Array<[string, ProviderSettings]> {
+        if (!this.routeSettings) {
+            const routes = this.getConfiguration().get<Record<string, unknown>>('languageRoutes', {}) || {};
+            this.routeSettings = Object.entries(routes).filter((route): route is [string, ProviderSettings] => {
+                if (isProviderSettings(route[1])) {
+                    return true;
+                }
+                this.logger.warn(`Ignoring languageRoutes entry "${route[0]}" without a provider`, LogCategory.PROVIDER);
+                return false;
+            });
+        }
+        return this.routeSettings;
+    }
 
-        await Promise.all(running);
-        return { translatedContent: totalTranslatedContent, tokensUsed: totalTokensUsed };
+    private getFallbacks(): ProviderSlot[] {
+        if (!this.fallbacks) {
+            const entries = this.getConfiguration().get<unknown[]>('fallbackProviders', []) || [];
+            this.fallbacks = entries.filter(isProviderSettings).map(entry => {
+                const config = this.createOverrideConfiguration(entry);
+                return { label: getProviderLabel(config), config, provider: null };
+            });
+        }
+        return this.fallbacks;
+    }
+
+    private createOverrideConfiguration(settings: ProviderSettings): ProviderConfiguration {
+        const config = this.getConfiguration();
+        const overrides: Record<string, unknown> = {
+            llmProvider: settings.provider,
+            llmModel: settings.model || getProviderDefaultModel(settings.provider)
+        };
+        // Another provider can't use the selected provider's credentials; empty uses its default endpoint
+        const sameProvider = settings.provider === (config.get<string>('llmProvider') || 'openai');
+        if (settings.apiKey || !sameProvider) {
+            overrides.llmApiKey = settings.apiKey || '';
+        }
+        if (settings.apiUrl || !sameProvider) {
+            overrides.llmApiUrl = settings.apiUrl || '';
+        }
+        if (typeof settings.temperature === 'number') {
+            overrides.llmTemperature = settings.temperature;
+        }
+        return new ProviderOverrideConfiguration(config, overrides);
+    }
+
+    private getSlotProvider(slot: ProviderSlot): ILLMProvider {
+        if (!slot.provider) {
+            const providerName = slot.config.get<string>('llmProvider') || 'openai';
+            let provider: ILLMProvider;
+            try {
+                provider = createProvider(providerName);
+            } catch (error) {
+                this.logger.error(`Unsupported LLM provider: ${providerName}`);
+                throw error;
+            }
+            provider.initialize(slot.config, this.logger, this.retryPolicy);
+            if (this.missingModelHandler) {
+                provider.setMissingModelHandler?.(this.missingModelHandler);
+            }
+            slot.provider = provider;
+        }
+        return slot.provider;
+    }
+
+    private async translateWith(
+        provider: ILLMProvider,
+        batch: any,
+        targetLang: string,
+        hints?: TranslationHints,
+        onEntry?: TranslatedEntryListener
+    ): Promise<TranslationResult> {
+        if (!onEntry || !this.streamResponses || !provider.translateStream) {
+            return provider.translate(batch, targetLang, hints);
+        }
+        const parser = new IncrementalJsonParser();
+        let tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const delta of provider.translateStream(batch, targetLang, hints)) {
+            parser.push(delta.text).forEach(([key, value]) => onEntry(key, value));
+            tokensUsed = delta.tokensUsed ?? tokensUsed;
+        }
+        const translatedContent = parser.getResult();
+        if (!parser.isComplete()) {
+            if (Object.keys(translatedContent).length === 0) {
+                throw new ResponseParseError(`${provider.getProviderName()} streamed no JSON object`);
+            }
+            // The keys that did arrive are kept; the missing ones are re-requested like any left-out key
+            this.logger.warn(
+                `${provider.getProviderName()} stream ended before the JSON object was complete, keeping ${Object.keys(translatedContent).length} keys`,
+                LogCategory.API_LOGS
+            );
+        }
+        return { translatedContent, tokensUsed };
     }
 
     private *splitIntoBatches(obj: any, batchSize: number): Generator<any> {
@@ -153,24 +404,18 @@ export class LLMService {
     public async validateTranslation(originalContent: any, translatedContent: any, targetLang: string): Promise<ValidationResult> {
         // this.logger.log(`Starting translation validation for ${targetLang}`);
         try {
-            // Initialize provider if not already initialized
-            if (!this.provider) {
-                this.initializeProvider();
-            }
-            
-            const result = await this.provider.validateTranslation(originalContent, translatedContent, targetLang);
+            const result = await this.getLanguageProvider(targetLang).validateTranslation(originalContent, translatedContent, targetLang);
             // this.logger.log(`Translation validation for ${targetLang} completed`);
             // this.logger.log(`Validation tokens used: Input: ${result.tokensUsed.inputTokens}, Output: ${result.tokensUsed.outputTokens}`);
             return result;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             this.logger.error(`Translation validation failed: ${errorMessage}`, error);
-            vscode.window.showErrorMessage(`Translation validation failed: ${errorMessage}`);
             throw error;
         }
     }
 
-    public getProviderName(): string {
-        return this.provider.getProviderName();
+    public getProviderName(targetLang: string): string {
+        return this.getLanguageProvider(targetLang).getProviderName();
     }
 }
\ No newline at end of file
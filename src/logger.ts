@@ -17,6 +17,11 @@ export enum LogCategory {
     API_LOGS = 'API_LOGS'
 }
 
+/**
+ * Anything lines can be appended to: a VS Code output channel or, in the CLI, stderr.
+ */
+export type LogOutput = Pick<vscode.OutputChannel, 'appendLine'>;
+
 export class Logger {
     private logLevel: LogLevel = LogLevel.INFO;
     private enabledCategories: Set<LogCategory> = new Set([
@@ -24,9 +29,9 @@ export class Logger {
         LogCategory.TRANSLATION,
         LogCategory.STRUCTURES
     ]);
-    private outputChannel: vscode.OutputChannel;
+    private outputChannel: LogOutput;
 
-    constructor(channel: vscode.OutputChannel) {
+    constructor(channel: LogOutput) {
         this.outputChannel = channel;
     }
 
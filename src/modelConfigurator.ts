@@ -1,6 +1,42 @@
 import * as vscode from 'vscode';
 import { Logger } from './logger';
+import { ModelPullProgress } from './llm-provider.interface';
 import { getAvailableProviders, getProviderConfig, getProviderDefaultApiUrl, getProviderDefaultModel, getProviderRequiresApiKey } from './provider-config';
+import { listOllamaModels, pullOllamaModel, resolveOllamaUrl } from './providers/ollama-provider';
+
+const OTHER_MODEL = 'Other model…';
+
+/**
+ * Offers to pull a model that is not installed on the Ollama server and shows the download in a
+ * progress notification. Resolves `true` once the model is installed.
+ */
+export async function offerModelPull(
+    model: string,
+    pull: (onProgress: (progress: ModelPullProgress) => void) => Promise<void>
+): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+        `The model "${model}" is not installed on the Ollama server. Pull it now?`,
+        'Pull',
+        'Cancel'
+    );
+    if (choice !== 'Pull') {
+        return false;
+    }
+    try {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Pulling ${model}`
+        }, progress => pull(({ status, completed, total }) => {
+            const percent = total ? ` ${Math.floor(((completed || 0) / total) * 100)}%` : '';
+            progress.report({ message: `${status}${percent}` });
+        }));
+        vscode.window.showInformationMessage(`${model} is installed.`);
+        return true;
+    } catch (error) {
+        vscode.window.showErrorMessage(`Pulling ${model} failed: ${error instanceof Error ? error.message : error}`);
+        return false;
+    }
+}
 
 export class ModelConfigurator {
     private logger: Logger;
@@ -52,18 +88,32 @@ export class ModelConfigurator {
                 return;
             }
 
-            // Set default API URL automatically
-            const defaultApiUrl = getProviderDefaultApiUrl(provider);
-            await config.update('llmApiUrl', defaultApiUrl, vscode.ConfigurationTarget.Global);
-            this.logger.log(`Updated llmApiUrl to: ${defaultApiUrl} (default for ${provider})`);
+            // Set default API URL automatically; Ollama may run on another machine
+            let apiUrl = getProviderDefaultApiUrl(provider);
+            if (provider === 'ollama') {
+                const serverUrl = await vscode.window.showInputBox({
+                    prompt: 'Enter the URL of the Ollama server',
+                    value: currentProvider === 'ollama' ? resolveOllamaUrl(config.get<string>('llmApiUrl')) : apiUrl,
+                    placeHolder: `Default: ${apiUrl}`
+                });
+                // Escape keeps the configured server instead of resetting it to localhost
+                if (serverUrl === undefined) {
+                    return;
+                }
+                apiUrl = resolveOllamaUrl(serverUrl);
+            }
+            await config.update('llmApiUrl', apiUrl, vscode.ConfigurationTarget.Global);
+            this.logger.log(`Updated llmApiUrl to: ${apiUrl}`);
 
             // Input model name with suggestions
             const defaultModel = getProviderDefaultModel(provider);
-            const model = await vscode.window.showInputBox({
-                prompt: `Enter the model name for ${provider}`,
-                value: currentModel || defaultModel,
-                placeHolder: `Default: ${defaultModel}`
-            });
+            const model = provider === 'ollama'
+                ? await this.pickOllamaModel(apiUrl, currentModel || defaultModel)
+                : await vscode.window.showInputBox({
+                    prompt: `Enter the model name for ${provider}`,
+                    value: currentModel || defaultModel,
+                    placeHolder: `Default: ${defaultModel}`
+                });
 
             if (model) {
                 await config.update('llmModel', model, vscode.ConfigurationTarget.Global);
@@ -94,4 +144,43 @@ export class ModelConfigurator {
             this.logger.log('Model configuration cancelled');
         }
     }
+
+    /**
+     * Lists the models installed on the server, plus an entry for pulling another one. Falls back
+     * to typing the name when the server can't be reached.
+     */
+    private async pickOllamaModel(baseUrl: string, currentModel: string): Promise<string | undefined> {
+        let installed: string[];
+        try {
+            installed = await listOllamaModels(baseUrl);
+            this.logger.log(`Models installed on ${baseUrl}: ${installed.join(', ') || 'none'}`);
+        } catch (error) {
+            this.logger.error(`Could not list the models of ${baseUrl}`, error);
+            vscode.window.showWarningMessage(`Could not reach the Ollama server at ${baseUrl}. Enter the model name instead.`);
+            return vscode.window.showInputBox({
+                prompt: 'Enter the model name for ollama',
+                value: currentModel,
+                placeHolder: `Default: ${getProviderDefaultModel('ollama')}`
+            });
+        }
+
+        const picked = await vscode.window.showQuickPick([
+            ...installed.map(name => ({ label: name, description: name === currentModel ? '(current)' : undefined })),
+            { label: OTHER_MODEL, description: 'Pull a model from the Ollama library' }
+        ], {
+            placeHolder: installed.length > 0 ? `Select a model installed on ${baseUrl}` : `No models are installed on ${baseUrl} yet`
+        });
+        if (!picked || picked.label !== OTHER_MODEL) {
+            return picked?.label;
+        }
+
+        const model = (await vscode.window.showInputBox({
+            prompt: 'Enter the model to pull, e.g. gemma3:4b or llama3.1:8b',
+            placeHolder: getProviderDefaultModel('ollama')
+        }))?.trim();
+        if (model && !installed.includes(model) && !installed.includes(`${model}:latest`)) {
+            await offerModelPull(model, onProgress => pullOllamaModel(baseUrl, model, onProgress));
+        }
+        return model;
+    }
 }
\ No newline at end of file
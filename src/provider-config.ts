@@ -1,3 +1,16 @@
+import type { ProviderConfiguration } from './llm-provider.interface';
+import { TokenizerKind } from './tokenizer';
+
+/**
+ * What a model can take in and give back, used to size translation chunks.
+ */
+export interface ModelLimits {
+    /** Prompt and completion tokens together */
+    contextWindow: number;
+    maxOutputTokens: number;
+    tokenizer: TokenizerKind;
+}
+
 export interface ProviderConfig {
     name: string;
     defaultApiUrl: string;
@@ -5,8 +18,22 @@ export interface ProviderConfig {
     defaultModel: string;
     availableModels: string[];
     description: string;
+    /** Default number of chunks translated at once; `i18nNexus.chunkConcurrency` overrides it */
+    maxConcurrency: number;
+    /** Limits of models without an entry in `modelLimits` */
+    limits: ModelLimits;
+    /** Overrides keyed by model name prefix; the longest matching prefix wins */
+    modelLimits?: Record<string, Partial<ModelLimits>>;
 }
 
+const OPENAI_MODEL_LIMITS: Record<string, Partial<ModelLimits>> = {
+    'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384, tokenizer: 'o200k_base' },
+    'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768, tokenizer: 'o200k_base' },
+    'gpt-4-turbo': { contextWindow: 128000, maxOutputTokens: 4096, tokenizer: 'cl100k_base' },
+    'gpt-4': { contextWindow: 8192, maxOutputTokens: 4096, tokenizer: 'cl100k_base' },
+    'gpt-3.5-turbo': { contextWindow: 16385, maxOutputTokens: 4096, tokenizer: 'cl100k_base' }
+};
+
 export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
     'openai': {
         name: 'OpenAI',
@@ -20,7 +47,10 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
             'gpt-4',
             'gpt-3.5-turbo'
         ],
-        description: 'OpenAI GPT models (GPT-4, GPT-3.5)'
+        description: 'OpenAI GPT models (GPT-4, GPT-3.5)',
+        maxConcurrency: 4,
+        limits: { contextWindow: 128000, maxOutputTokens: 16384, tokenizer: 'o200k_base' },
+        modelLimits: OPENAI_MODEL_LIMITS
     },
     'gemini': {
         name: 'Gemini',
@@ -32,7 +62,13 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
             'gemini-1.5-pro',
             'gemini-pro'
         ],
-        description: 'Google Gemini models'
+        description: 'Google Gemini models',
+        maxConcurrency: 2,
+        limits: { contextWindow: 1048576, maxOutputTokens: 8192, tokenizer: 'estimate' },
+        modelLimits: {
+            'gemini-1.5-pro': { contextWindow: 2097152 },
+            'gemini-pro': { contextWindow: 30720, maxOutputTokens: 2048 }
+        }
     },
     'claude': {
         name: 'Claude',
@@ -46,7 +82,14 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
             'claude-3-sonnet-20240229',
             'claude-3-haiku-20240307'
         ],
-        description: 'Anthropic Claude models'
+        description: 'Anthropic Claude models',
+        maxConcurrency: 4,
+        limits: { contextWindow: 200000, maxOutputTokens: 8192, tokenizer: 'estimate' },
+        modelLimits: {
+            'claude-3-opus': { maxOutputTokens: 4096 },
+            'claude-3-sonnet': { maxOutputTokens: 4096 },
+            'claude-3-haiku': { maxOutputTokens: 4096 }
+        }
     },
     'openai-compatible': {
         name: 'OpenAI Compatible',
@@ -60,13 +103,18 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
             'gpt-4',
             'gpt-3.5-turbo'
         ],
-        description: 'Any API compatible with OpenAI format'
+        description: 'Any API compatible with OpenAI format',
+        maxConcurrency: 2,
+        // Unknown servers get conservative limits unless they serve a known OpenAI model
+        limits: { contextWindow: 8192, maxOutputTokens: 4096, tokenizer: 'estimate' },
+        modelLimits: OPENAI_MODEL_LIMITS
     },
     'ollama': {
         name: 'Ollama',
-        defaultApiUrl: 'http://localhost:11434/v1',
+        defaultApiUrl: 'http://localhost:11434',
         requiresApiKey: false,
         defaultModel: 'gemma3:4b',
+        // Only suggested when the server can't be reached; the model picker lists the installed models
         availableModels: [
             'gemma3:4b',
             'gemma2:2b',
@@ -77,10 +125,15 @@ export const PROVIDER_CONFIGS: Record<string, ProviderConfig> = {
             'mistral:7b-instruct',
             'codellama:34b'
         ],
-        description: 'Local LLMs via Ollama (Gemma, Llama, Mistral, etc.)'
+        description: 'Local LLMs via Ollama (Gemma, Llama, Mistral, etc.)',
+        maxConcurrency: 1,
+        // Ollama's default context length, whatever the model supports
+        limits: { contextWindow: 4096, maxOutputTokens: 2048, tokenizer: 'estimate' }
     }
 };
 
+const DEFAULT_MODEL_LIMITS: ModelLimits = { contextWindow: 8192, maxOutputTokens: 4096, tokenizer: 'estimate' };
+
 export function getProviderConfig(providerName: string): ProviderConfig | undefined {
     return PROVIDER_CONFIGS[providerName];
 }
@@ -107,4 +160,22 @@ export function getProviderAvailableModels(providerName: string): string[] {
 export function getProviderRequiresApiKey(providerName: string): boolean {
     const config = getProviderConfig(providerName);
     return config?.requiresApiKey || false;
-} 
\ No newline at end of file
+}
+
+export function getModelLimits(providerName: string, model?: string): ModelLimits {
+    const config = getProviderConfig(providerName);
+    if (!config) {
+        return DEFAULT_MODEL_LIMITS;
+    }
+    const modelName = model || config.defaultModel;
+    const prefix = Object.keys(config.modelLimits || {})
+        .filter(candidate => modelName.startsWith(candidate))
+        .sort((a, b) => b.length - a.length)[0];
+    return { ...config.limits, ...(prefix ? config.modelLimits![prefix] : {}) };
+}
+
+/** `i18nNexus.llmTemperature`, or undefined to leave the provider's own default */
+export function getConfiguredTemperature(config: ProviderConfiguration): number | undefined {
+    const temperature = config.get<number | null>('llmTemperature');
+    return typeof temperature === 'number' ? temperature : undefined;
+}
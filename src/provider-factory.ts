@@ -0,0 +1,25 @@
+import { ILLMProvider } from './llm-provider.interface';
+import { OpenAIProvider } from './providers/openai-provider';
+import { GeminiProvider } from './providers/gemini-provider';
+import { ClaudeProvider } from './providers/claude-provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible-provider';
+import { OllamaProvider } from './providers/ollama-provider';
+
+export function createProvider(providerName: string): ILLMProvider {
+    switch (providerName) {
+        case 'openai':
+            return new OpenAIProvider();
+        case 'gemini':
+            return new GeminiProvider();
+        case 'claude':
+            return new ClaudeProvider();
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider();
+        case 'ollama':
+            return new OllamaProvider();
+        //case 'zhipuai':
+        //    return new ZhipuAIProvider();
+        default:
+            throw new Error(`Unsupported LLM provider: ${providerName}`);
+    }
+}
@@ -1,32 +1,71 @@
 import axios from 'axios';
-import * as vscode from 'vscode';
-import { ILLMProvider, TranslationResult, ValidationResult, TokenUsage } from '../llm-provider.interface';
+import { CompletionDelta, ILLMProvider, ProviderConfiguration, TranslationResult, ValidationResult, TokenUsage, TranslationHints } from '../llm-provider.interface';
 import { Logger, LogCategory } from '../logger';
+import { renderTranslationHints } from './prompt-hints';
+import { JsonSchema, ResponseParseError, TRANSLATION_SCHEMA_NAME, buildTranslationSchema, parseStructuredResponse } from './response-schema';
+import { RetryPolicy } from './retry-policy';
+import { readServerSentEvents, readStreamedErrorBody } from './stream-lines';
+import { getAvailableProviders, getConfiguredTemperature, getModelLimits, getProviderDefaultApiUrl, getProviderDefaultModel } from '../provider-config';
+import { getOutputExpansion, getTokenizer } from '../tokenizer';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/** Least output budget of a translate request, so tiny chunks still have room for the tool call */
+const MIN_TRANSLATION_TOKENS = 1024;
+/** Share added to the estimated output for JSON quoting, escapes and tokenizer error */
+const OUTPUT_TOKEN_HEADROOM = 1.25;
+const VALIDATION_MAX_TOKENS = 1024;
+
+interface MessagesRequest {
+    system: string;
+    prompt: string;
+    maxTokens: number;
+    /** Forces the translation tool; its input becomes the response content */
+    schema?: JsonSchema;
+}
+
+/**
+ * Accepts the full Messages endpoint, the API base the model configurator stores
+ * (`https://api.anthropic.com/v1`) or a legacy `/v1/complete` URL. `llmApiUrl` defaults to
+ * OpenAI's API, so URLs of other providers' APIs fall back to Anthropic's, keeping the key
+ * from being sent elsewhere.
+ */
+export function resolveMessagesUrl(apiUrl: string | undefined): string {
+    const configured = (apiUrl || '').trim().replace(/\/+$/, '');
+    const otherProvider = getAvailableProviders()
+        .some(provider => provider !== 'claude' && configured.startsWith(getProviderDefaultApiUrl(provider)));
+    const url = !configured || otherProvider ? getProviderDefaultApiUrl('claude') : configured;
+    if (/\/messages$/.test(url)) {
+        return url;
+    }
+    return `${url.replace(/\/complete$/, '')}/messages`;
+}
 
 export class ClaudeProvider implements ILLMProvider {
     private apiKey: string = '';
     private apiUrl: string = '';
     private logger!: Logger;
-    private model: string = 'claude-2'; // Default model
+    private model: string = getProviderDefaultModel('claude');
+    private temperature?: number;
+    private retryPolicy!: RetryPolicy;
 
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void {
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void {
         this.apiKey = config.get('llmApiKey') || '';
-        this.apiUrl = config.get('llmApiUrl') || 'https://api.anthropic.com/v1/complete';
+        this.apiUrl = resolveMessagesUrl(config.get('llmApiUrl'));
         this.model = config.get('llmModel') || this.model;
+        this.temperature = getConfiguredTemperature(config);
         this.logger = logger;
+        this.retryPolicy = retryPolicy ?? RetryPolicy.fromConfiguration(config, logger);
         this.logger.info('ClaudeProvider initialized', LogCategory.PROVIDER);
     }
 
-    async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    async translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting translation to ${targetLang}`);
-        const prompt = this.generatePrompt(content, targetLang);
-        
         try {
-            const result = await this.callAPI(prompt);
-            const parsedResponse = this.parseResponse(result.content);
+            const result = await this.callMessagesAPI(this.buildTranslationRequest(content, targetLang, hints));
             this.logger.logTranslation(`Translation to ${targetLang} completed`);
             return {
-                translatedContent: parsedResponse,
+                translatedContent: parseStructuredResponse(result.content),
                 tokensUsed: result.tokensUsed
             };
         } catch (error) {
@@ -35,13 +74,54 @@ export class ClaudeProvider implements ILLMProvider {
         }
     }
 
+    /**
+     * Streams the input of the forced translation tool call, which arrives as `input_json_delta`
+     * pieces of the JSON object.
+     */
+    async *translateStream(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<CompletionDelta> {
+        this.logger.logTranslation(`Starting streamed translation to ${targetLang}`);
+        const request = this.buildTranslationRequest(content, targetLang, hints);
+        const stream = await this.openStream(request);
+        const tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        let stopReason: string | undefined;
+        for await (const data of readServerSentEvents(stream)) {
+            const event = JSON.parse(data);
+            switch (event.type) {
+                case 'message_start': {
+                    const usage = event.message?.usage || {};
+                    tokensUsed.inputTokens = (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+                    break;
+                }
+                case 'content_block_delta':
+                    if (event.delta?.type === 'input_json_delta' && event.delta.partial_json) {
+                        yield { text: event.delta.partial_json };
+                    }
+                    break;
+                case 'message_delta':
+                    stopReason = event.delta?.stop_reason ?? stopReason;
+                    tokensUsed.outputTokens = event.usage?.output_tokens ?? tokensUsed.outputTokens;
+                    break;
+                case 'error':
+                    throw new Error(`Claude stream failed: ${event.error?.type}: ${event.error?.message}`);
+            }
+        }
+        this.logger.logApi(`Stream finished, tokens: Input: ${tokensUsed.inputTokens}, Output: ${tokensUsed.outputTokens}`);
+        if (stopReason === 'max_tokens') {
+            throw new Error(`Claude stopped at max_tokens (${request.maxTokens}) before finishing the response. Lower i18nNexus.chunkSize.`);
+        }
+        this.logger.logTranslation(`Streamed translation to ${targetLang} completed`);
+        yield { text: '', tokensUsed };
+    }
+
     async compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<any> {
         this.logger.logTranslation(`Starting compare and update for ${targetLang}`);
-        const prompt = this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang);
-        
         try {
-            const response = await this.callAPI(prompt);
-            const parsedResponse = this.parseResponse(response.content);
+            const result = await this.callMessagesAPI({
+                system: this.generateSystemPrompt(targetLang),
+                prompt: this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang),
+                maxTokens: getModelLimits('claude', this.model).maxOutputTokens
+            });
+            const parsedResponse = this.parseResponse(result.content);
             this.logger.logTranslation(`Compare and update for ${targetLang} completed`);
             return parsedResponse;
         } catch (error) {
@@ -52,10 +132,12 @@ export class ClaudeProvider implements ILLMProvider {
 
     async validateTranslation(originalContent: any, translatedContent: any, targetLang: string): Promise<ValidationResult> {
         this.logger.logTranslation(`Starting translation validation for ${targetLang}`);
-        const prompt = this.generateValidationPrompt(originalContent, translatedContent, targetLang);
-        
         try {
-            const result = await this.callAPI(prompt);
+            const result = await this.callMessagesAPI({
+                system: 'You review software UI translations. Answer with a single word: true or false.',
+                prompt: this.generateValidationPrompt(originalContent, translatedContent, targetLang),
+                maxTokens: VALIDATION_MAX_TOKENS
+            });
             const isValid = this.parseValidationResponse(result.content);
             this.logger.logTranslation(`Translation validation for ${targetLang} completed`);
             return {
@@ -72,47 +154,127 @@ export class ClaudeProvider implements ILLMProvider {
         return 'Claude';
     }
 
-    private generatePrompt(content: any, targetLang: string): string {
-        return `Human: Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language:\n\n${JSON.stringify(content, null, 2)}\n\nAssistant: Certainly! I'll translate the JSON content to ${targetLang} while maintaining the structure and keys. Here's the translated version:`;
+    private generateSystemPrompt(targetLang: string, hints?: TranslationHints): string {
+        return `You translate the UI strings of a software product to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language.${renderTranslationHints(hints)}`;
     }
 
     private generateCompareAndUpdatePrompt(oldContent: any, newContent: any, targetLang: string): string {
-        return `Human: Compare the following two JSON structures. The first is the old content, and the second is the new content. Translate only the changed or new parts in the new content to ${targetLang}. Maintain the JSON structure and keys. Ensure the translation is culturally appropriate and uses common expressions in the target language.\n\nOld content:\n${JSON.stringify(oldContent, null, 2)}\n\nNew content:\n${JSON.stringify(newContent, null, 2)}\n\nAssistant: I understand. I'll compare the two JSON structures, identify the changes, and translate only the modified or new parts to ${targetLang}. Here's the result:`;
+        return `Compare the following two JSON structures. The first is the old content, and the second is the new content. Translate only the changed or new parts in the new content to ${targetLang}. Return the complete new content as a single JSON object.\n\nOld content:\n${JSON.stringify(oldContent, null, 2)}\n\nNew content:\n${JSON.stringify(newContent, null, 2)}`;
     }
 
     private generateValidationPrompt(originalContent: any, translatedContent: any, targetLang: string): string {
-        return `Human: Validate the following translation from the original language to ${targetLang}. Check if the translation maintains the correct meaning, is culturally appropriate, and uses common expressions in the target language. Respond with 'true' if the translation is correct, or 'false' if there are any issues.\n\nOriginal content:\n${JSON.stringify(originalContent, null, 2)}\n\nTranslated content:\n${JSON.stringify(translatedContent, null, 2)}\n\nAssistant: I'll carefully review the translation and validate it based on the criteria you've provided. Here's my assessment:`;
+        return `Validate the following translation from the original language to ${targetLang}. Check if the translation maintains the correct meaning, is culturally appropriate, and uses common expressions in the target language. Respond with 'true' if the translation is correct, or 'false' if there are any issues.\n\nOriginal content:\n${JSON.stringify(originalContent, null, 2)}\n\nTranslated content:\n${JSON.stringify(translatedContent, null, 2)}`;
     }
 
-    private async callAPI(prompt: string): Promise<{ content: string; tokensUsed: TokenUsage }> {
-        this.logger.logApi('Calling API');
-        const headers = {
-            'Content-Type': 'application/json',
-            'X-API-Key': this.apiKey
-        };
-        const data = {
-            prompt: prompt,
-            model: this.model,
-            max_tokens_to_sample: 1000,
-            temperature: 0.7
+    private buildTranslationRequest(content: any, targetLang: string, hints?: TranslationHints): MessagesRequest {
+        return {
+            system: this.generateSystemPrompt(targetLang, hints),
+            prompt: `Translate the values of this JSON object to ${targetLang}:\n\n${JSON.stringify(content, null, 2)}`,
+            maxTokens: this.getTranslationMaxTokens(content, targetLang),
+            schema: buildTranslationSchema(content)
         };
+    }
+
+    /**
+     * Output budget for one chunk: its estimated size grown by the target language's expansion,
+     * within the model's output limit. Chunking already keeps chunks below that limit.
+     */
+    private getTranslationMaxTokens(content: any, targetLang: string): number {
+        const limits = getModelLimits('claude', this.model);
+        const estimate = getTokenizer(limits.tokenizer).count(JSON.stringify(content)) * getOutputExpansion(targetLang) * OUTPUT_TOKEN_HEADROOM;
+        return Math.min(limits.maxOutputTokens, Math.max(MIN_TRANSLATION_TOKENS, Math.ceil(estimate)));
+    }
+
+    /**
+     * With a schema, forces a single call of a tool whose input schema holds exactly the chunk's
+     * keys, so the translation arrives as the tool input instead of free text.
+     */
+    private async callMessagesAPI(request: MessagesRequest): Promise<{ content: string; tokensUsed: TokenUsage }> {
+        this.logger.logApi(`Calling Messages API: ${this.apiUrl}, model ${this.model}, max_tokens ${request.maxTokens}`);
         try {
-            const response = await axios.post(this.apiUrl, data, { headers });
-            const content = response.data.completion;
-            // Note: Claude API might not provide token usage information
-            // You may need to implement a token counting logic or use an estimate
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(this.apiUrl, this.buildRequestBody(request), {
+                headers: this.getHeaders()
+            }));
             const tokensUsed: TokenUsage = {
-                inputTokens: prompt.split(' ').length, // Rough estimate
-                outputTokens: content.split(' ').length // Rough estimate
+                inputTokens: (response.data.usage?.input_tokens || 0)
+                    + (response.data.usage?.cache_creation_input_tokens || 0)
+                    + (response.data.usage?.cache_read_input_tokens || 0),
+                outputTokens: response.data.usage?.output_tokens || 0
             };
-            this.logger.logApi('API call successful');
-            return { content, tokensUsed };
+            this.logger.logApi(`API call successful, tokens: Input: ${tokensUsed.inputTokens}, Output: ${tokensUsed.outputTokens}`);
+            if (response.data.stop_reason === 'max_tokens') {
+                throw new Error(`Claude stopped at max_tokens (${request.maxTokens}) before finishing the response. Lower i18nNexus.chunkSize.`);
+            }
+            const blocks: any[] = response.data.content || [];
+            if (request.schema) {
+                const toolUse = blocks.find(block => block.type === 'tool_use');
+                if (!toolUse) {
+                    throw new ResponseParseError('Claude response did not contain the translation tool call');
+                }
+                return { content: JSON.stringify(toolUse.input), tokensUsed };
+            }
+            return { content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''), tokensUsed };
+        } catch (error) {
+            this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            if (axios.isAxiosError(error) && error.response?.data?.error) {
+                const { type, message } = error.response.data.error;
+                this.logger.error(`Claude API error ${error.response.status}: ${type}: ${message}`, undefined, LogCategory.API_LOGS);
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Opens a streamed Messages request; the events arrive as server-sent events.
+     */
+    private async openStream(request: MessagesRequest): Promise<AsyncIterable<Buffer>> {
+        this.logger.logApi(`Opening Messages API stream: ${this.apiUrl}, model ${this.model}, max_tokens ${request.maxTokens}`);
+        try {
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(
+                this.apiUrl,
+                { ...this.buildRequestBody(request), stream: true },
+                { headers: this.getHeaders(), responseType: 'stream' }
+            ).catch(async error => {
+                await readStreamedErrorBody(error);
+                throw error;
+            }));
+            return response.data;
         } catch (error) {
             this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            if (axios.isAxiosError(error) && error.response?.data?.error) {
+                const { type, message } = error.response.data.error;
+                this.logger.error(`Claude API error ${error.response.status}: ${type}: ${message}`, undefined, LogCategory.API_LOGS);
+            }
             throw error;
         }
     }
 
+    private buildRequestBody(request: MessagesRequest): Record<string, any> {
+        return {
+            model: this.model,
+            max_tokens: request.maxTokens,
+            temperature: this.temperature,
+            system: request.system,
+            messages: [{ role: 'user', content: request.prompt }],
+            ...(request.schema ? {
+                tools: [{
+                    name: TRANSLATION_SCHEMA_NAME,
+                    description: 'Submit the translated values, one property per input key.',
+                    input_schema: request.schema
+                }],
+                tool_choice: { type: 'tool', name: TRANSLATION_SCHEMA_NAME }
+            } : {})
+        };
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'x-api-key': this.apiKey,
+            'anthropic-version': ANTHROPIC_VERSION
+        };
+    }
+
     private parseResponse(response: string): any {
         this.logger.logApi('Parsing response');
         try {
@@ -125,7 +287,7 @@ export class ClaudeProvider implements ILLMProvider {
             }
         } catch (error) {
             this.logger.error('Failed to parse response as JSON', error, LogCategory.API_LOGS);
-            throw new Error("Failed to parse Claude response as JSON");
+            throw new ResponseParseError("Failed to parse Claude response as JSON");
         }
     }
 
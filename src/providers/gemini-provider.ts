@@ -1,13 +1,18 @@
-import * as vscode from 'vscode';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-import { ILLMProvider, TranslationResult, ValidationResult, TokenUsage } from '../llm-provider.interface';
+import { GenerateContentStreamResult, GoogleGenerativeAI, GenerativeModel, ResponseSchema, SchemaType } from '@google/generative-ai';
+import { CompletionDelta, ILLMProvider, ProviderConfiguration, TranslationResult, ValidationResult, TokenUsage, TranslationHints } from '../llm-provider.interface';
 import { Logger, LogCategory } from '../logger';
+import { renderTranslationHints } from './prompt-hints';
+import { RetryPolicy } from './retry-policy';
+import { getConfiguredTemperature } from '../provider-config';
+import { JsonSchema, ResponseParseError, buildTranslationSchema, isStructuredOutputUnsupported, parseStructuredResponse } from './response-schema';
 
 export class GeminiProvider implements ILLMProvider {
     private model!: GenerativeModel;
     private logger!: Logger;
+    private structuredOutput = true;
+    private retryPolicy!: RetryPolicy;
 
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void {
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void {
         const apiKey = config.get('llmApiKey');
         const modelName = config.get('llmModel');
 
@@ -22,20 +27,21 @@ export class GeminiProvider implements ILLMProvider {
         this.logger = logger;
 
         const genAI = new GoogleGenerativeAI(apiKey);
-        this.model = genAI.getGenerativeModel({ model: modelName });
+        this.model = genAI.getGenerativeModel({ model: modelName, generationConfig: { temperature: getConfiguredTemperature(config) } });
+        this.retryPolicy = retryPolicy ?? RetryPolicy.fromConfiguration(config, logger);
 
         this.logger.debug(`key: ${apiKey}, model: ${modelName}`, LogCategory.PROVIDER);
 
         this.logger.info('GeminiProvider initialized', LogCategory.PROVIDER);
     }
 
-    async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    async translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting translation to ${targetLang}`);
-        const prompt = this.generatePrompt(content, targetLang);
+        const prompt = this.generatePrompt(content, targetLang, hints);
         
         try {
-            const result = await this.callAPI(prompt);
-            const parsedResponse = this.parseResponse(result.content);
+            const result = await this.callAPI(prompt, buildTranslationSchema(content));
+            const parsedResponse = result.structured ? parseStructuredResponse(result.content) : this.parseResponse(result.content);
             this.logger.logTranslation(`Translation to ${targetLang} completed`);
             return {
                 translatedContent: parsedResponse,
@@ -47,6 +53,31 @@ export class GeminiProvider implements ILLMProvider {
         }
     }
 
+    async *translateStream(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<CompletionDelta> {
+        this.logger.logTranslation(`Starting streamed translation to ${targetLang}`);
+        const prompt = this.generatePrompt(content, targetLang, hints);
+        const result = await this.openStream(prompt, buildTranslationSchema(content));
+        let completion = '';
+        let usage: { promptTokenCount: number; candidatesTokenCount: number } | undefined;
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) {
+                completion += text;
+                yield { text };
+            }
+            usage = chunk.usageMetadata ?? usage;
+        }
+        this.logger.logTranslation(`Streamed translation to ${targetLang} completed`);
+        yield {
+            text: '',
+            tokensUsed: {
+                // Same rough estimate as callAPI when the API leaves the usage out
+                inputTokens: usage?.promptTokenCount ?? prompt.split(' ').length,
+                outputTokens: usage?.candidatesTokenCount ?? completion.split(' ').length
+            }
+        };
+    }
+
     async compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<any> {
         this.logger.logTranslation(`Starting compare and update for ${targetLang}`);
         const prompt = this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang);
@@ -84,8 +115,8 @@ export class GeminiProvider implements ILLMProvider {
         return 'Gemini';
     }
 
-    private generatePrompt(content: any, targetLang: string): string {
-        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language:\n\n${JSON.stringify(content, null, 2)}`;
+    private generatePrompt(content: any, targetLang: string, hints?: TranslationHints): string {
+        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language.${renderTranslationHints(hints)}\n\n${JSON.stringify(content, null, 2)}`;
     }
 
     private generateCompareAndUpdatePrompt(oldContent: any, newContent: any, targetLang: string): string {
@@ -96,10 +127,21 @@ export class GeminiProvider implements ILLMProvider {
         return `Validate the following translation from the original language to ${targetLang}. Check if the translation maintains the correct meaning, is culturally appropriate, and uses common expressions in the target language. Respond with 'true' if the translation is correct, or 'false' if there are any issues.\n\nOriginal content:\n${JSON.stringify(originalContent, null, 2)}\n\nTranslated content:\n${JSON.stringify(translatedContent, null, 2)}`;
     }
 
-    private async callAPI(prompt: string): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    /**
+     * With a schema, requests `application/json` constrained by `responseSchema`; models that
+     * reject it are remembered and served by the prompt-only path from then on.
+     */
+    private async callAPI(prompt: string, schema?: JsonSchema): Promise<{ content: string; tokensUsed: TokenUsage; structured: boolean }> {
         this.logger.logApi('Calling API');
+        const structured = schema !== undefined && this.structuredOutput;
         try {
-            const result = await this.model.generateContent(prompt);
+            const result = await this.retryPolicy.execute(this.getProviderName(), () => structured
+                ? this.model.generateContent({
+                    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                    // A request's generationConfig replaces the model's, so the temperature is carried over
+                    generationConfig: { ...this.model.generationConfig, responseMimeType: 'application/json', responseSchema: this.toResponseSchema(schema!) }
+                })
+                : this.model.generateContent(prompt));
             const response = await result.response;
             const content = response.text();
             // Note: Gemini API might not provide token usage information
@@ -109,13 +151,65 @@ export class GeminiProvider implements ILLMProvider {
                 outputTokens: content.split(' ').length // Rough estimate
             };
             this.logger.logApi('API call successful');
-            return { content, tokensUsed };
+            return { content, tokensUsed, structured };
         } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn('This Gemini model does not support structured output, falling back to plain JSON prompts', LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.callAPI(prompt);
+            }
             this.logger.error('API call failed', error, LogCategory.API_LOGS);
             throw error;
         }
     }
 
+    /**
+     * Opens a streamed completion through the SDK; chunks carry the usage in `usageMetadata`.
+     */
+    private async openStream(prompt: string, schema?: JsonSchema): Promise<GenerateContentStreamResult> {
+        this.logger.logApi('Opening stream');
+        const structured = schema !== undefined && this.structuredOutput;
+        try {
+            return await this.retryPolicy.execute(this.getProviderName(), () => structured
+                ? this.model.generateContentStream({
+                    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                    // A request's generationConfig replaces the model's, so the temperature is carried over
+                    generationConfig: { ...this.model.generationConfig, responseMimeType: 'application/json', responseSchema: this.toResponseSchema(schema!) }
+                })
+                : this.model.generateContentStream(prompt));
+        } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn('This Gemini model does not support structured output, falling back to plain JSON prompts', LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.openStream(prompt);
+            }
+            this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            throw error;
+        }
+    }
+
+    /** Gemini takes an OpenAPI-style schema: upper-case types and `nullable` instead of a null type. */
+    private toResponseSchema(schema: JsonSchema): ResponseSchema {
+        switch (schema.type) {
+            case 'object':
+                return {
+                    type: SchemaType.OBJECT,
+                    properties: Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value]) => [key, this.toResponseSchema(value)])),
+                    required: schema.required
+                };
+            case 'array':
+                return { type: SchemaType.ARRAY, items: this.toResponseSchema(schema.items || { type: 'string' }) };
+            case 'number':
+                return { type: SchemaType.NUMBER };
+            case 'boolean':
+                return { type: SchemaType.BOOLEAN };
+            case 'null':
+                return { type: SchemaType.STRING, nullable: true };
+            default:
+                return { type: SchemaType.STRING };
+        }
+    }
+
     private parseResponse(response: string): any {
         this.logger.logApi('Parsing response');
         try {
@@ -128,7 +222,7 @@ export class GeminiProvider implements ILLMProvider {
             }
         } catch (error) {
             this.logger.error('Failed to parse response as JSON', error, LogCategory.API_LOGS);
-            throw new Error("Failed to parse Gemini response as JSON");
+            throw new ResponseParseError("Failed to parse Gemini response as JSON");
         }
     }
 
@@ -1,37 +1,114 @@
-import * as vscode from 'vscode';
 import axios from 'axios';
-import { ILLMProvider, TranslationResult, ValidationResult, TokenUsage } from '../llm-provider.interface';
+import {
+    CompletionDelta,
+    ILLMProvider,
+    MissingModelHandler,
+    ModelPullProgress,
+    ProviderConfiguration,
+    TranslationResult,
+    ValidationResult,
+    TokenUsage,
+    TranslationHints
+} from '../llm-provider.interface';
 import { Logger, LogCategory } from '../logger';
-import { getProviderDefaultApiUrl, getProviderDefaultModel } from '../provider-config';
+import { renderTranslationHints } from './prompt-hints';
+import { JsonSchema, ResponseParseError, buildTranslationSchema, parseStructuredResponse } from './response-schema';
+import { RetryPolicy } from './retry-policy';
+import { readLines, readStreamedErrorBody } from './stream-lines';
+import { getAvailableProviders, getConfiguredTemperature, getModelLimits, getProviderDefaultApiUrl, getProviderDefaultModel } from '../provider-config';
+
+const DEFAULT_KEEP_ALIVE = '10m';
+/** Low for consistent translations when `llmTemperature` is not set */
+const DEFAULT_TEMPERATURE = 0.1;
+
+/**
+ * Server root of an Ollama `llmApiUrl`. Accepts the root (`http://gpu-box:11434`) as well as
+ * URLs of the OpenAI-compatible or native endpoints. `llmApiUrl` defaults to OpenAI's API, so
+ * URLs of other providers' APIs fall back to the local server.
+ */
+export function resolveOllamaUrl(apiUrl: string | undefined): string {
+    const url = (apiUrl || '').trim().replace(/\/+$/, '');
+    const otherProvider = getAvailableProviders()
+        .some(provider => provider !== 'ollama' && url.startsWith(getProviderDefaultApiUrl(provider)));
+    if (!url || otherProvider) {
+        return getProviderDefaultApiUrl('ollama');
+    }
+    return url.replace(/\/(v1(\/chat\/completions)?|api(\/chat|\/generate)?)$/, '');
+}
+
+/** Names of the models installed on the server, from `/api/tags`. */
+export async function listOllamaModels(baseUrl: string): Promise<string[]> {
+    const response = await axios.get(`${baseUrl}/api/tags`, { timeout: 10000 });
+    return (response.data?.models || []).map((model: { name: string }) => model.name).sort();
+}
+
+/**
+ * Downloads `model` through `/api/pull`, reporting every progress line the server streams.
+ */
+export async function pullOllamaModel(baseUrl: string, model: string, onProgress: (progress: ModelPullProgress) => void): Promise<void> {
+    const response = await axios.post(`${baseUrl}/api/pull`, { model, stream: true }, { responseType: 'stream' });
+    for await (const line of readLines(response.data)) {
+        if (!line.trim()) {
+            continue;
+        }
+        const progress = JSON.parse(line);
+        if (progress.error) {
+            throw new Error(`Pulling ${model} failed: ${progress.error}`);
+        }
+        onProgress({ status: progress.status, completed: progress.completed, total: progress.total });
+    }
+}
+
+/** Ollama answers requests for a model that was never pulled with 404 "model ... not found". */
+function isModelNotFound(error: any): boolean {
+    const status = error?.response?.status;
+    const message = String(error?.response?.data?.error || '');
+    return status === 404 && /model .*not found/i.test(message);
+}
 
 export class OllamaProvider implements ILLMProvider {
-    private apiUrl: string = '';
+    private baseUrl: string = '';
     private model: string = '';
+    private numCtx: number = 0;
+    private keepAlive: string = DEFAULT_KEEP_ALIVE;
+    private temperature: number = DEFAULT_TEMPERATURE;
     private logger!: Logger;
+    private retryPolicy!: RetryPolicy;
+    private missingModelHandler: MissingModelHandler | null = null;
+    /** The answer for the missing model, shared by concurrent requests so the user is asked once */
+    private modelPull: Promise<boolean> | null = null;
 
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void {
-        // Use default Ollama configuration
-        this.apiUrl = getProviderDefaultApiUrl('ollama') + '/chat/completions';
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void {
+        this.baseUrl = resolveOllamaUrl(config.get('llmApiUrl'));
         this.model = config.get('llmModel') || getProviderDefaultModel('ollama');
+        // Ollama silently truncates prompts beyond num_ctx, so ask for the window chunks are sized for
+        this.numCtx = config.get<number>('ollamaContextLength', 0) || getModelLimits('ollama', this.model).contextWindow;
+        this.keepAlive = config.get<string>('ollamaKeepAlive') || DEFAULT_KEEP_ALIVE;
+        this.temperature = getConfiguredTemperature(config) ?? DEFAULT_TEMPERATURE;
         this.logger = logger;
+        this.retryPolicy = retryPolicy ?? RetryPolicy.fromConfiguration(config, logger);
         this.logger.info('OllamaProvider initialized', LogCategory.PROVIDER);
-        this.logger.debug(`Ollama API URL: ${this.apiUrl}`, LogCategory.PROVIDER);
-        this.logger.debug(`Ollama Model: ${this.model}`, LogCategory.PROVIDER);
+        this.logger.debug(`Ollama server: ${this.baseUrl}`, LogCategory.PROVIDER);
+        this.logger.debug(`Ollama Model: ${this.model}, num_ctx: ${this.numCtx}, keep_alive: ${this.keepAlive}`, LogCategory.PROVIDER);
+    }
+
+    setMissingModelHandler(handler: MissingModelHandler): void {
+        this.missingModelHandler = handler;
     }
 
-    async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    async translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting translation to ${targetLang}`);
         this.logger.logProvider(`Input content structure: ${Object.keys(content).length} keys`);
         this.logger.logProvider(`Input content keys: ${Object.keys(content).slice(0, 5).join(', ')}${Object.keys(content).length > 5 ? '...' : ''}`);
         
-        const prompt = this.generatePrompt(content, targetLang);
+        const prompt = this.generatePrompt(content, targetLang, hints);
         
         try {
-            const result = await this.callAPI(prompt);
+            const result = await this.callAPI(prompt, buildTranslationSchema(content));
             this.logger.logProvider(`Raw response length: ${result.content.length} characters`);
             this.logger.logProvider(`Raw response preview: ${result.content.substring(0, 200)}...`);
             
-            const parsedResponse = this.parseResponse(result.content);
+            const parsedResponse = parseStructuredResponse(result.content);
             this.logger.logProvider(`Parsed response structure: ${Object.keys(parsedResponse).length} keys`);
             this.logger.logTranslation(`Translation to ${targetLang} completed successfully`);
             
@@ -45,6 +122,31 @@ export class OllamaProvider implements ILLMProvider {
         }
     }
 
+    async *translateStream(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<CompletionDelta> {
+        this.logger.logTranslation(`Starting streamed translation to ${targetLang}`);
+        const stream = await this.openStream(this.generatePrompt(content, targetLang, hints), buildTranslationSchema(content));
+        const tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const line of readLines(stream)) {
+            if (!line.trim()) {
+                continue;
+            }
+            const chunk = JSON.parse(line);
+            if (chunk.error) {
+                throw new Error(`Ollama stream failed: ${chunk.error}`);
+            }
+            if (chunk.message?.content) {
+                yield { text: chunk.message.content };
+            }
+            // The last line carries the counts
+            if (chunk.done) {
+                tokensUsed.inputTokens = chunk.prompt_eval_count || 0;
+                tokensUsed.outputTokens = chunk.eval_count || 0;
+            }
+        }
+        this.logger.logTranslation(`Streamed translation to ${targetLang} completed`);
+        yield { text: '', tokensUsed };
+    }
+
     async compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting compare and update for ${targetLang}`);
         const prompt = this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang);
@@ -85,7 +187,7 @@ export class OllamaProvider implements ILLMProvider {
         return 'Ollama';
     }
 
-    private generatePrompt(content: any, targetLang: string): string {
+    private generatePrompt(content: any, targetLang: string, hints?: TranslationHints): string {
         return `You are a professional translator. Your task is to translate JSON content to ${targetLang}.
 
 CRITICAL INSTRUCTIONS:
@@ -93,7 +195,7 @@ CRITICAL INSTRUCTIONS:
 2. Only translate the string values, keep all keys unchanged
 3. Return ONLY valid JSON, no explanations, no additional text
 4. Do not add any comments or descriptions
-5. The response must be parseable JSON
+5. The response must be parseable JSON${renderTranslationHints(hints)}
 
 INPUT JSON:
 ${JSON.stringify(content, null, 2)}
@@ -136,26 +238,23 @@ Translated content:
 ${JSON.stringify(translatedContent, null, 2)}`;
     }
 
-    private async callAPI(prompt: string): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    /**
+     * Calls the native `/api/chat`. With a schema, `format` constrains the output to exactly the
+     * chunk's keys. A model that is not installed is offered for pulling, then the call is retried once.
+     */
+    private async callAPI(prompt: string, schema?: JsonSchema, pulled = false): Promise<{ content: string; tokensUsed: TokenUsage }> {
+        const apiUrl = `${this.baseUrl}/api/chat`;
         this.logger.logApi('Calling API');
         this.logger.logApi(`Prompt: ${prompt}`);
-        this.logger.logApi(`API URL: ${this.apiUrl}`);
+        this.logger.logApi(`API URL: ${apiUrl}`);
         this.logger.logApi(`Model: ${this.model}`);
     
         try {
-            const requestBody = {
-                model: this.model,
-                messages: [{ role: "user", content: prompt }],
-                stream: false,
-                options: {
-                    temperature: 0.1, // Lower temperature for more consistent translations
-                    top_p: 0.9
-                }
-            };
+            const requestBody = this.buildRequestBody(prompt, schema, false);
             this.logger.logApi(`Request Body: ${JSON.stringify(requestBody, null, 2)}`);
     
-            const response = await axios.post(
-                this.apiUrl,
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(
+                apiUrl,
                 requestBody,
                 {
                     headers: {
@@ -163,16 +262,16 @@ ${JSON.stringify(translatedContent, null, 2)}`;
                     },
                     timeout: 300000 // 5 minutes timeout for local models to handle larger chunks
                 }
-            );
+            ));
     
             this.logger.logApi('API call successful');
             this.logger.logApi(`Response Status: ${response.status}`);
             this.logger.logApi(`Response Data: ${JSON.stringify(response.data, null, 2)}`);
     
-            const content = response.data.choices[0].message.content;
+            const content = response.data.message?.content || '';
             const tokensUsed: TokenUsage = {
-                inputTokens: response.data.usage?.prompt_tokens || 0,
-                outputTokens: response.data.usage?.completion_tokens || 0
+                inputTokens: response.data.prompt_eval_count || 0,
+                outputTokens: response.data.eval_count || 0
             };
     
             this.logger.logApi(`Extracted Content: ${content}`);
@@ -180,6 +279,12 @@ ${JSON.stringify(translatedContent, null, 2)}`;
     
             return { content, tokensUsed };
         } catch (error) {
+            if (isModelNotFound(error) && !pulled) {
+                if (await this.offerModelPull()) {
+                    return this.callAPI(prompt, schema, true);
+                }
+                throw new Error(`Model ${this.model} is not installed on the Ollama server ${this.baseUrl}. Run "ollama pull ${this.model}" there.`);
+            }
             this.logger.error('API call failed', error, LogCategory.API_LOGS);
             if (axios.isAxiosError(error)) {
                 this.logger.error(`Error Response: ${JSON.stringify(error.response?.data, null, 2)}`, undefined, LogCategory.API_LOGS);
@@ -192,6 +297,77 @@ ${JSON.stringify(translatedContent, null, 2)}`;
         }
     }
 
+    /**
+     * Opens a streamed chat, one JSON object per line (NDJSON).
+     */
+    private async openStream(prompt: string, schema?: JsonSchema, pulled = false): Promise<AsyncIterable<Buffer>> {
+        const apiUrl = `${this.baseUrl}/api/chat`;
+        this.logger.logApi(`Opening stream: ${apiUrl}, model ${this.model}`);
+        this.logger.logApi(`Prompt: ${prompt}`);
+        try {
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(
+                apiUrl,
+                this.buildRequestBody(prompt, schema, true),
+                {
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    responseType: 'stream',
+                    // Loading a large model can take a while before the first token
+                    timeout: 300000
+                }
+            ).catch(async error => {
+                await readStreamedErrorBody(error);
+                throw error;
+            }));
+            return response.data;
+        } catch (error) {
+            if (isModelNotFound(error) && !pulled) {
+                if (await this.offerModelPull()) {
+                    return this.openStream(prompt, schema, true);
+                }
+                throw new Error(`Model ${this.model} is not installed on the Ollama server ${this.baseUrl}. Run "ollama pull ${this.model}" there.`);
+            }
+            this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            if (axios.isAxiosError(error)) {
+                this.logger.error(`Error Response: ${JSON.stringify(error.response?.data, null, 2)}`, undefined, LogCategory.API_LOGS);
+                this.logger.error(`Error Status: ${error.response?.status}`, undefined, LogCategory.API_LOGS);
+            }
+            throw error;
+        }
+    }
+
+    private buildRequestBody(prompt: string, schema: JsonSchema | undefined, stream: boolean): Record<string, any> {
+        return {
+            model: this.model,
+            messages: [{ role: "user", content: prompt }],
+            stream,
+            ...(schema ? { format: schema } : {}),
+            keep_alive: this.keepAlive,
+            options: {
+                temperature: this.temperature,
+                top_p: 0.9,
+                num_ctx: this.numCtx
+            }
+        };
+    }
+
+    private async offerModelPull(): Promise<boolean> {
+        if (!this.missingModelHandler) {
+            return false;
+        }
+        if (!this.modelPull) {
+            const handler = this.missingModelHandler;
+            this.logger.warn(`Model ${this.model} is not installed on ${this.baseUrl}`, LogCategory.PROVIDER);
+            this.modelPull = handler(this.model, onProgress => pullOllamaModel(this.baseUrl, this.model, onProgress))
+                .catch(error => {
+                    this.logger.error(`Pulling ${this.model} failed`, error, LogCategory.PROVIDER);
+                    return false;
+                });
+        }
+        return this.modelPull;
+    }
+
     private parseResponse(response: string): any {
         this.logger.logApi('Parsing response');
         this.logger.logApi(`Response starts with: ${response.substring(0, 100)}...`);
@@ -227,7 +403,7 @@ ${JSON.stringify(translatedContent, null, 2)}`;
                 }
             }
             
-            throw new Error("Failed to parse Ollama response as JSON");
+            throw new ResponseParseError("Failed to parse Ollama response as JSON");
         }
     }
 
@@ -1,29 +1,45 @@
-import * as vscode from 'vscode';
 import axios from 'axios';
-import { ILLMProvider, TranslationResult, ValidationResult, TokenUsage } from '../llm-provider.interface';
+import { CompletionDelta, ILLMProvider, ProviderConfiguration, TranslationResult, ValidationResult, TokenUsage, TranslationHints } from '../llm-provider.interface';
 import { Logger, LogCategory } from '../logger';
+import { renderTranslationHints } from './prompt-hints';
+import {
+    JsonSchema,
+    TRANSLATION_SCHEMA_NAME,
+    buildTranslationSchema,
+    ResponseParseError,
+    isStructuredOutputUnsupported,
+    parseStructuredResponse
+} from './response-schema';
+import { RetryPolicy } from './retry-policy';
+import { readServerSentEvents, readStreamedErrorBody } from './stream-lines';
+import { getConfiguredTemperature } from '../provider-config';
 
 export class OpenAICompatibleProvider implements ILLMProvider {
     private apiKey: string = '';
     private apiUrl: string = '';
     private model: string = '';
+    private temperature?: number;
     private logger!: Logger;
+    private structuredOutput = true;
+    private retryPolicy!: RetryPolicy;
 
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void {
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void {
         this.apiKey = config.get('llmApiKey') || '';
         this.apiUrl = config.get('llmApiUrl') || 'https://api.openai.com/v1/responses';
         this.model = config.get('llmModel') || 'gpt-4o';
+        this.temperature = getConfiguredTemperature(config);
         this.logger = logger;
+        this.retryPolicy = retryPolicy ?? RetryPolicy.fromConfiguration(config, logger);
         this.logger.info('OpenAICompatibleProvider initialized', LogCategory.PROVIDER);
     }
 
-    async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    async translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting translation to ${targetLang}`);
-        const prompt = this.generatePrompt(content, targetLang);
+        const prompt = this.generatePrompt(content, targetLang, hints);
         
         try {
-            const result = await this.callAPI(prompt);
-            const parsedResponse = this.parseResponse(result.content);
+            const result = await this.callAPI(prompt, buildTranslationSchema(content));
+            const parsedResponse = result.structured ? parseStructuredResponse(result.content) : this.parseResponse(result.content);
             this.logger.logTranslation(`Translation to ${targetLang} completed`);
             return {
                 translatedContent: parsedResponse,
@@ -35,6 +51,25 @@ export class OpenAICompatibleProvider implements ILLMProvider {
         }
     }
 
+    async *translateStream(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<CompletionDelta> {
+        this.logger.logTranslation(`Starting streamed translation to ${targetLang}`);
+        const stream = await this.openStream(this.generatePrompt(content, targetLang, hints), buildTranslationSchema(content));
+        const tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const data of readServerSentEvents(stream)) {
+            const chunk = JSON.parse(data);
+            const text = chunk.choices?.[0]?.delta?.content;
+            if (text) {
+                yield { text };
+            }
+            if (chunk.usage) {
+                tokensUsed.inputTokens = chunk.usage.prompt_tokens || 0;
+                tokensUsed.outputTokens = chunk.usage.completion_tokens || 0;
+            }
+        }
+        this.logger.logTranslation(`Streamed translation to ${targetLang} completed`);
+        yield { text: '', tokensUsed };
+    }
+
     async compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting compare and update for ${targetLang}`);
         const prompt = this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang);
@@ -75,8 +110,8 @@ export class OpenAICompatibleProvider implements ILLMProvider {
         return 'OpenAICompatible';
     }
 
-    private generatePrompt(content: any, targetLang: string): string {
-        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language:\n\n${JSON.stringify(content, null, 2)}`;
+    private generatePrompt(content: any, targetLang: string, hints?: TranslationHints): string {
+        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language.${renderTranslationHints(hints)}\n\n${JSON.stringify(content, null, 2)}`;
     }
 
     private generateCompareAndUpdatePrompt(oldContent: any, newContent: any, targetLang: string): string {
@@ -87,30 +122,29 @@ export class OpenAICompatibleProvider implements ILLMProvider {
         return `Validate the following translation from the original language to ${targetLang}. Check if the translation maintains the correct meaning, is culturally appropriate, and uses common expressions in the target language. Respond with 'true' if the translation is correct, or 'false' if there are any issues.\n\nOriginal content:\n${JSON.stringify(originalContent, null, 2)}\n\nTranslated content:\n${JSON.stringify(translatedContent, null, 2)}`;
     }
 
-    private async callAPI(prompt: string): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    /**
+     * With a schema, asks for `json_schema` structured output. Servers that reject
+     * `response_format` are remembered and served by the prompt-only path from then on.
+     */
+    private async callAPI(prompt: string, schema?: JsonSchema): Promise<{ content: string; tokensUsed: TokenUsage; structured: boolean }> {
         this.logger.logApi('Calling API');
         this.logger.logApi(`Prompt: ${prompt}`);
         this.logger.logApi(`API URL: ${this.apiUrl}`);
         this.logger.logApi(`Model: ${this.model}`);
         //this.logger.logApi(`Key: ${this.apiKey}`);
     
+        const structured = schema !== undefined && this.structuredOutput;
         try {
-            const requestBody = {
-                model: this.model,
-                messages: [{ role: "user", content: prompt }]
-            };
+            const requestBody = this.buildRequestBody(prompt, structured ? schema : undefined);
             this.logger.logApi(`Request Body: ${JSON.stringify(requestBody, null, 2)}`);
     
-            const response = await axios.post(
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(
                 this.apiUrl,
                 requestBody,
                 {
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Authorization': `Bearer ${this.apiKey}`
-                    }
+                    headers: this.getHeaders()
                 }
-            );
+            ));
     
             this.logger.logApi('API call successful');
             this.logger.logApi(`Response Status: ${response.status}`);
@@ -126,8 +160,13 @@ export class OpenAICompatibleProvider implements ILLMProvider {
             this.logger.logApi(`Extracted Content: ${content}`);
             this.logger.logApi(`Tokens Used: Input: ${tokensUsed.inputTokens}, Output: ${tokensUsed.outputTokens}`);
     
-            return { content, tokensUsed };
+            return { content, tokensUsed, structured };
         } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn(`${this.apiUrl} does not support structured output, falling back to plain JSON prompts`, LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.callAPI(prompt);
+            }
             this.logger.error('API call failed', error, LogCategory.API_LOGS);
             if (axios.isAxiosError(error)) {
                 this.logger.error(`Error Response: ${JSON.stringify(error.response?.data, null, 2)}`, undefined, LogCategory.API_LOGS);
@@ -140,6 +179,64 @@ export class OpenAICompatibleProvider implements ILLMProvider {
         }
     }
 
+    /**
+     * Opens a streamed completion; the chunks arrive as server-sent events.
+     */
+    private async openStream(prompt: string, schema?: JsonSchema): Promise<AsyncIterable<Buffer>> {
+        this.logger.logApi(`Opening stream: ${this.apiUrl}, model ${this.model}`);
+        this.logger.logApi(`Prompt: ${prompt}`);
+        const structured = schema !== undefined && this.structuredOutput;
+        const requestBody = {
+            ...this.buildRequestBody(prompt, structured ? schema : undefined),
+            stream: true,
+            stream_options: { include_usage: true }
+        };
+        try {
+            const response = await this.retryPolicy.execute(this.getProviderName(), () => axios.post(
+                this.apiUrl,
+                requestBody,
+                { headers: this.getHeaders(), responseType: 'stream' }
+            ).catch(async error => {
+                await readStreamedErrorBody(error);
+                throw error;
+            }));
+            return response.data;
+        } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn(`${this.apiUrl} does not support structured output, falling back to plain JSON prompts`, LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.openStream(prompt);
+            }
+            this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            if (axios.isAxiosError(error)) {
+                this.logger.error(`Error Response: ${JSON.stringify(error.response?.data, null, 2)}`, undefined, LogCategory.API_LOGS);
+                this.logger.error(`Error Status: ${error.response?.status}`, undefined, LogCategory.API_LOGS);
+            }
+            throw error;
+        }
+    }
+
+    private buildRequestBody(prompt: string, schema?: JsonSchema): Record<string, any> {
+        return {
+            model: this.model,
+            messages: [{ role: "user", content: prompt }],
+            temperature: this.temperature,
+            ...(schema ? {
+                response_format: {
+                    type: 'json_schema',
+                    json_schema: { name: TRANSLATION_SCHEMA_NAME, strict: true, schema }
+                }
+            } : {})
+        };
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${this.apiKey}`
+        };
+    }
+
     private parseResponse(response: string): any {
         this.logger.logApi('Parsing response');
         try {
@@ -152,7 +249,7 @@ export class OpenAICompatibleProvider implements ILLMProvider {
             }
         } catch (error) {
             this.logger.error('Failed to parse response as JSON', error, LogCategory.API_LOGS);
-            throw new Error("Failed to parse OpenAICompatible response as JSON");
+            throw new ResponseParseError("Failed to parse OpenAICompatible response as JSON");
         }
     }
 
@@ -1,26 +1,40 @@
-import * as vscode from 'vscode';
 import OpenAI from 'openai';
-import { ILLMProvider, TranslationResult, ValidationResult, TokenUsage } from '../llm-provider.interface';
+import { CompletionDelta, ILLMProvider, ProviderConfiguration, TranslationResult, ValidationResult, TokenUsage, TranslationHints } from '../llm-provider.interface';
 import { Logger, LogCategory } from '../logger';
-import { getProviderDefaultApiUrl, getProviderDefaultModel } from '../provider-config';
+import { renderTranslationHints } from './prompt-hints';
+import {
+    JsonSchema,
+    TRANSLATION_SCHEMA_NAME,
+    buildTranslationSchema,
+    ResponseParseError,
+    isStructuredOutputUnsupported,
+    parseStructuredResponse
+} from './response-schema';
+import { RetryPolicy } from './retry-policy';
+import { getConfiguredTemperature, getProviderDefaultApiUrl, getProviderDefaultModel } from '../provider-config';
 
 export class OpenAIProvider implements ILLMProvider {
     private client!: OpenAI;
     private logger!: Logger;
     private llmModel!: string;
-    
+    private temperature?: number;
+    private structuredOutput = true;
+    private retryPolicy!: RetryPolicy;
 
-    initialize(config: vscode.WorkspaceConfiguration, logger: Logger): void {
+    initialize(config: ProviderConfiguration, logger: Logger, retryPolicy?: RetryPolicy): void {
         const apiKey = config.get('llmApiKey');
         const apiUrl = config.get('llmApiUrl') || getProviderDefaultApiUrl('openai');
         this.llmModel = config.get('llmModel') || getProviderDefaultModel('openai');
+        this.temperature = getConfiguredTemperature(config);
         this.logger = logger || { log: console.log, error: console.error };
 
         if (typeof apiKey !== 'string' || apiKey.trim() === '') {
             throw new Error('Invalid or missing OpenAI API key');
         }
 
-        this.client = new OpenAI({ apiKey });
+        // Retries go through the shared policy instead of the SDK's own
+        this.client = new OpenAI({ apiKey, maxRetries: 0 });
+        this.retryPolicy = retryPolicy ?? RetryPolicy.fromConfiguration(config, this.logger);
         
         // Use the configured API URL or default
         if (typeof apiUrl === 'string' && apiUrl.trim() !== '') {
@@ -33,13 +47,13 @@ export class OpenAIProvider implements ILLMProvider {
         this.logger.info('OpenAIProvider initialized', LogCategory.PROVIDER);
     }
 
-    async translate(content: any, targetLang: string): Promise<TranslationResult> {
+    async translate(content: any, targetLang: string, hints?: TranslationHints): Promise<TranslationResult> {
         this.logger.logTranslation(`Starting translation to ${targetLang}`);
-        const prompt = this.generatePrompt(content, targetLang);
+        const prompt = this.generatePrompt(content, targetLang, hints);
         
         try {
-            const result = await this.callAPI(prompt);
-            const parsedResponse = this.parseResponse(result.content);
+            const result = await this.callAPI(prompt, buildTranslationSchema(content));
+            const parsedResponse = result.structured ? parseStructuredResponse(result.content) : this.parseResponse(result.content);
             this.logger.logTranslation(`Translation to ${targetLang} completed`);
             return {
                 translatedContent: parsedResponse,
@@ -51,6 +65,25 @@ export class OpenAIProvider implements ILLMProvider {
         }
     }
 
+    async *translateStream(content: any, targetLang: string, hints?: TranslationHints): AsyncGenerator<CompletionDelta> {
+        this.logger.logTranslation(`Starting streamed translation to ${targetLang}`);
+        const stream = await this.openStream(this.generatePrompt(content, targetLang, hints), buildTranslationSchema(content));
+        const tokensUsed: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const chunk of stream) {
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) {
+                yield { text };
+            }
+            // Sent on a last chunk without choices, requested through `include_usage`
+            if (chunk.usage) {
+                tokensUsed.inputTokens = chunk.usage.prompt_tokens;
+                tokensUsed.outputTokens = chunk.usage.completion_tokens;
+            }
+        }
+        this.logger.logTranslation(`Streamed translation to ${targetLang} completed`);
+        yield { text: '', tokensUsed };
+    }
+
     async compareAndUpdate(oldContent: any, newContent: any, targetLang: string): Promise<any> {
         this.logger.logTranslation(`Starting compare and update for ${targetLang}`);
         const prompt = this.generateCompareAndUpdatePrompt(oldContent, newContent, targetLang);
@@ -88,8 +121,8 @@ export class OpenAIProvider implements ILLMProvider {
         return 'OpenAI';
     }
 
-    private generatePrompt(content: any, targetLang: string): string {
-        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language:\n\n${JSON.stringify(content, null, 2)}`;
+    private generatePrompt(content: any, targetLang: string, hints?: TranslationHints): string {
+        return `Translate the following JSON content to ${targetLang}. Maintain the JSON structure and keys. Only translate the values. Ensure the translation is culturally appropriate and uses common expressions in the target language.${renderTranslationHints(hints)}\n\n${JSON.stringify(content, null, 2)}`;
     }
 
     private generateCompareAndUpdatePrompt(oldContent: any, newContent: any, targetLang: string): string {
@@ -101,14 +134,21 @@ export class OpenAIProvider implements ILLMProvider {
     }
 
 
-    private async callAPI(prompt: string): Promise<{ content: string; tokensUsed: TokenUsage }> {
+    /**
+     * With a schema, asks for `json_schema` structured output; models that reject it are
+     * remembered and served by the prompt-only path from then on.
+     */
+    private async callAPI(prompt: string, schema?: JsonSchema): Promise<{ content: string; tokensUsed: TokenUsage; structured: boolean }> {
         this.logger.logApi('Calling API');
         this.logger.logApi(`user prompt: ${prompt}`);
+        const structured = schema !== undefined && this.structuredOutput;
         try {
-            const completion = await this.client.chat.completions.create({
+            const completion = await this.retryPolicy.execute(this.getProviderName(), () => this.client.chat.completions.create({
                 messages: [{ role: 'user', content: prompt }],
                 model: this.llmModel,
-            });
+                temperature: this.temperature,
+                ...(structured ? this.getResponseFormat(schema!) : {})
+            }));
             const result = completion.choices[0].message.content || '';
             this.logger.logApi(`llm result: ${result}`);
             const tokensUsed: TokenUsage = {
@@ -116,13 +156,54 @@ export class OpenAIProvider implements ILLMProvider {
                 outputTokens: completion.usage?.completion_tokens || 0
             };
             this.logger.logApi('API call successful');
-            return { content: result, tokensUsed };
+            return { content: result, tokensUsed, structured };
         } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn(`${this.llmModel} does not support structured output, falling back to plain JSON prompts`, LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.callAPI(prompt);
+            }
             this.logger.error('API call failed', error, LogCategory.API_LOGS);
             throw error;
         }
     }
 
+    /**
+     * Opens a streamed completion through the SDK, asking for the usage in a final chunk.
+     */
+    private async openStream(prompt: string, schema?: JsonSchema): Promise<AsyncIterable<OpenAI.ChatCompletionChunk>> {
+        this.logger.logApi('Opening stream');
+        this.logger.logApi(`user prompt: ${prompt}`);
+        const structured = schema !== undefined && this.structuredOutput;
+        try {
+            return await this.retryPolicy.execute(this.getProviderName(), () => this.client.chat.completions.create({
+                messages: [{ role: 'user', content: prompt }],
+                model: this.llmModel,
+                temperature: this.temperature,
+                stream: true,
+                stream_options: { include_usage: true },
+                ...(structured ? this.getResponseFormat(schema!) : {})
+            }));
+        } catch (error) {
+            if (structured && isStructuredOutputUnsupported(error)) {
+                this.logger.warn(`${this.llmModel} does not support structured output, falling back to plain JSON prompts`, LogCategory.PROVIDER);
+                this.structuredOutput = false;
+                return this.openStream(prompt);
+            }
+            this.logger.error('API call failed', error, LogCategory.API_LOGS);
+            throw error;
+        }
+    }
+
+    private getResponseFormat(schema: JsonSchema) {
+        return {
+            response_format: {
+                type: 'json_schema' as const,
+                json_schema: { name: TRANSLATION_SCHEMA_NAME, strict: true, schema }
+            }
+        };
+    }
+
     private parseResponse(response: string): any {
         this.logger.logApi('Parsing response');
         try {
@@ -135,7 +216,7 @@ export class OpenAIProvider implements ILLMProvider {
             }
         } catch (error) {
             this.logger.error('Failed to parse response as JSON', error, LogCategory.API_LOGS);
-            throw new Error("Failed to parse OpenAI response as JSON");
+            throw new ResponseParseError("Failed to parse OpenAI response as JSON");
         }
     }
 
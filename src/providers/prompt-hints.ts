@@ -0,0 +1,33 @@
+import { TranslationHints } from '../llm-provider.interface';
+
+/**
+ * Renders request hints as a prompt section; empty when there is nothing to add.
+ */
+export function renderTranslationHints(hints?: TranslationHints): string {
+    const sections: string[] = [];
+    if (hints?.instructions?.length) {
+        sections.push(`ADDITIONAL RULES:\n${hints.instructions.map(rule => `- ${rule}`).join('\n')}`);
+    }
+    if (hints?.glossary?.length) {
+        const terms = hints.glossary.map(({ term, translation }) =>
+            translation === term ? `- "${term}" → keep as "${term}" (do not translate)` : `- "${term}" → "${translation}"`
+        );
+        sections.push(`GLOSSARY (always use these translations):\n${terms.join('\n')}`);
+    }
+    const references = Object.entries(hints?.references || {}).filter(([, matches]) => matches.length > 0);
+    if (references.length > 0) {
+        const lines = references.flatMap(([key, matches]) => matches.map(match =>
+            `- "${key}": ${JSON.stringify(match.source)} → ${JSON.stringify(match.translation)} (${Math.round(match.similarity * 100)}% similar)`
+        ));
+        sections.push(`REFERENCE TRANSLATIONS (earlier translations of similar text; reuse their wording where it fits):\n${lines.join('\n')}`);
+    }
+    const notes = Object.entries(hints?.keyNotes || {}).filter(([, keyNotes]) => keyNotes.length > 0);
+    if (notes.length > 0) {
+        sections.push(`TRANSLATOR NOTES (context only, never include them in the output):\n${notes.map(([key, keyNotes]) => `- "${key}": ${keyNotes.join(' ')}`).join('\n')}`);
+    }
+    const keyRules = Object.entries(hints?.keyInstructions || {}).filter(([, rules]) => rules.length > 0);
+    if (keyRules.length > 0) {
+        sections.push(`KEY-SPECIFIC RULES:\n${keyRules.map(([key, rules]) => `- "${key}": ${rules.join(' ')}`).join('\n')}`);
+    }
+    return sections.length > 0 ? `\n\n${sections.join('\n\n')}` : '';
+}
@@ -0,0 +1,86 @@
+/**
+ * Structured-output helpers shared by the providers. The schema is built from the exact keys
+ * of a chunk, so a schema-constrained response can only contain those keys.
+ */
+
+export type JsonSchema = {
+    type: 'object' | 'string' | 'number' | 'boolean' | 'array' | 'null';
+    properties?: Record<string, JsonSchema>;
+    items?: JsonSchema;
+    required?: string[];
+    additionalProperties?: boolean;
+};
+
+/** Name used for the OpenAI `json_schema` format and the Anthropic tool */
+export const TRANSLATION_SCHEMA_NAME = 'translations';
+
+function schemaForValue(value: unknown): JsonSchema {
+    if (value === null) {
+        return { type: 'null' };
+    }
+    if (Array.isArray(value)) {
+        return { type: 'array', items: schemaForValue(value[0] ?? '') };
+    }
+    switch (typeof value) {
+        case 'number':
+            return { type: 'number' };
+        case 'boolean':
+            return { type: 'boolean' };
+        default:
+            return { type: 'string' };
+    }
+}
+
+export function buildTranslationSchema(content: Record<string, any>): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(content)) {
+        properties[key] = schemaForValue(value);
+    }
+    return {
+        type: 'object',
+        properties,
+        required: Object.keys(properties),
+        additionalProperties: false
+    };
+}
+
+/**
+ * The model answered, but not with the JSON object that was asked for. Another provider or
+ * model may well do better, so `LLMService` fails over on it.
+ */
+export class ResponseParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ResponseParseError';
+    }
+}
+
+/**
+ * Parses a schema-constrained response. Unlike the regex fallback, anything but a bare
+ * JSON object is an error.
+ */
+export function parseStructuredResponse(response: string): Record<string, any> {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(response.trim());
+    } catch (error) {
+        throw new ResponseParseError(`Structured response is not valid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new ResponseParseError('Structured response is not a JSON object');
+    }
+    return parsed;
+}
+
+/**
+ * True when an API rejected the structured-output parameters themselves (older models
+ * or OpenAI-compatible servers without `response_format`), so the call can be retried without them.
+ */
+export function isStructuredOutputUnsupported(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    if (status !== 400 && status !== 422) {
+        return false;
+    }
+    const message = JSON.stringify(error?.response?.data ?? error?.error ?? error?.message ?? '');
+    return /response_format|json_schema|responseMimeType|responseSchema|response_schema|tool_choice|tools/i.test(message);
+}
@@ -0,0 +1,185 @@
+import { Logger, LogCategory } from '../logger';
+import { ProviderConfiguration } from '../llm-provider.interface';
+
+export interface RetryOptions {
+    /** Retries after the first attempt; 0 disables retrying */
+    maxRetries: number;
+    /** Delay before the first retry; doubled on every further retry */
+    baseDelayMs: number;
+    /** Upper bound for the computed backoff */
+    maxDelayMs: number;
+}
+
+export interface RetryNotice {
+    provider: string;
+    /** 1-based number of the retry about to happen */
+    attempt: number;
+    maxRetries: number;
+    delayMs: number;
+    reason: string;
+}
+
+export type RetryListener = (notice: RetryNotice) => void;
+
+export interface ErrorClassification {
+    retryable: boolean;
+    reason: string;
+    /** Wait requested by the server through `Retry-After` or a rate-limit reset header */
+    retryAfterMs?: number;
+}
+
+const DEFAULT_OPTIONS: RetryOptions = { maxRetries: 4, baseDelayMs: 1000, maxDelayMs: 60000 };
+
+/** Waits announced by the server beyond this (e.g. an exhausted daily quota) are not worth retrying */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'ERR_NETWORK'];
+
+/** Quota errors share status 429 with rate limits but won't clear up by waiting */
+const FATAL_RATE_LIMIT_CODES = /insufficient_quota|billing_hard_limit_reached/i;
+
+function getStatus(error: any): number | undefined {
+    const status = error?.status ?? error?.response?.status;
+    return typeof status === 'number' ? status : undefined;
+}
+
+function getHeader(error: any, name: string): string | undefined {
+    const headers = error?.headers ?? error?.response?.headers;
+    if (!headers) {
+        return undefined;
+    }
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+    return value === null || value === undefined ? undefined : String(value);
+}
+
+/** Parses `20ms`, `1.5s`, `6m0s` or `1h2m3s` as used by OpenAI's `x-ratelimit-reset-*` headers and Gemini's `RetryInfo`. */
+function parseDuration(value: string): number | undefined {
+    const parts = value.trim().match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+    if (!parts || !parts.slice(1).some(Boolean)) {
+        return undefined;
+    }
+    const [hours, minutes, seconds, millis] = parts.slice(1).map(part => Number(part ?? 0));
+    return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000 + millis);
+}
+
+/** `Retry-After` holds either seconds or an HTTP date; Anthropic's reset headers hold RFC 3339 timestamps. */
+function parseDelayHeader(value: string, now: number): number | undefined {
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+        return Math.round(Number(value) * 1000);
+    }
+    const duration = parseDuration(value);
+    if (duration !== undefined) {
+        return duration;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Reset headers come with every response, so they only say how long to wait on a 429 */
+const RATE_LIMIT_RESET_HEADERS = ['x-ratelimit-reset-requests', 'x-ratelimit-reset-tokens', 'anthropic-ratelimit-requests-reset', 'anthropic-ratelimit-tokens-reset'];
+
+function getRetryAfterMs(error: any, rateLimited: boolean, now: number): number | undefined {
+    const retryAfterMs = getHeader(error, 'retry-after-ms');
+    if (retryAfterMs && /^\d+$/.test(retryAfterMs)) {
+        return Number(retryAfterMs);
+    }
+    for (const name of ['retry-after', ...(rateLimited ? RATE_LIMIT_RESET_HEADERS : [])]) {
+        const value = getHeader(error, name);
+        const delay = value ? parseDelayHeader(value, now) : undefined;
+        if (delay !== undefined) {
+            return delay;
+        }
+    }
+    // Gemini reports the wait as a google.rpc.RetryInfo error detail
+    const retryInfo = (error?.errorDetails || []).find((detail: any) => typeof detail?.retryDelay === 'string');
+    return retryInfo ? parseDuration(retryInfo.retryDelay) : undefined;
+}
+
+function describeError(error: any): string {
+    const body = error?.response?.data ?? error?.error;
+    const message = typeof body === 'string' ? body : body?.error?.message ?? body?.message;
+    return String(message || error?.message || error);
+}
+
+/**
+ * Decides whether a failed provider call may succeed when repeated: rate limits, timeouts,
+ * server errors and dropped connections are retried; bad requests, invalid keys,
+ * unknown models and exhausted quotas are not.
+ */
+export function classifyError(error: any, now: number = Date.now()): ErrorClassification {
+    const status = getStatus(error);
+    const reason = status ? `HTTP ${status}: ${describeError(error)}` : describeError(error);
+    if (status === undefined) {
+        const code = error?.code ?? error?.cause?.code;
+        // The OpenAI SDK reports network failures as APIConnectionError without a status
+        const retryable = RETRYABLE_NETWORK_CODES.includes(code) || error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError';
+        return { retryable, reason };
+    }
+    if (status === 429 && FATAL_RATE_LIMIT_CODES.test(JSON.stringify(error?.response?.data ?? error?.error ?? error?.message ?? ''))) {
+        return { retryable: false, reason };
+    }
+    const retryable = status === 408 || status === 409 || status === 429 || status >= 500;
+    return { retryable, reason, retryAfterMs: retryable ? getRetryAfterMs(error, status === 429, now) : undefined };
+}
+
+/**
+ * Shared retry policy for provider API calls: exponential backoff with jitter,
+ * stretched to whatever the server asks for through `Retry-After` or rate-limit headers.
+ */
+export class RetryPolicy {
+    private options: RetryOptions;
+    private logger: Logger;
+    private listeners: RetryListener[] = [];
+
+    constructor(logger: Logger, options: Partial<RetryOptions> = {}) {
+        this.logger = logger;
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.options.maxRetries = Math.max(0, this.options.maxRetries);
+    }
+
+    public static fromConfiguration(config: ProviderConfiguration, logger: Logger): RetryPolicy {
+        return new RetryPolicy(logger, {
+            maxRetries: config.get<number>('apiMaxRetries', DEFAULT_OPTIONS.maxRetries),
+            baseDelayMs: config.get<number>('apiRetryBaseDelay', DEFAULT_OPTIONS.baseDelayMs)
+        });
+    }
+
+    /** Registers a listener for upcoming retries; returns a function that removes it. */
+    public onRetry(listener: RetryListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(existing => existing !== listener);
+        };
+    }
+
+    public async execute<T>(provider: string, operation: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await operation();
+            } catch (error) {
+                const classification = classifyError(error);
+                if (!classification.retryable || attempt >= this.options.maxRetries) {
+                    throw error;
+                }
+                if (classification.retryAfterMs !== undefined && classification.retryAfterMs > MAX_RETRY_AFTER_MS) {
+                    this.logger.warn(`${provider} asked to wait ${Math.round(classification.retryAfterMs / 1000)}s, giving up instead`, LogCategory.API_LOGS);
+                    throw error;
+                }
+                const delayMs = this.getDelay(attempt, classification.retryAfterMs);
+                const notice: RetryNotice = { provider, attempt: attempt + 1, maxRetries: this.options.maxRetries, delayMs, reason: classification.reason };
+                this.logger.warn(
+                    `${provider} request failed (${classification.reason}), retry ${notice.attempt}/${notice.maxRetries} in ${Math.round(delayMs / 100) / 10}s`,
+                    LogCategory.API_LOGS
+                );
+                this.listeners.forEach(listener => listener(notice));
+                await new Promise(resolve => setTimeout(resolve, delayMs));
+            }
+        }
+    }
+
+    private getDelay(attempt: number, retryAfterMs?: number): number {
+        const backoff = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        const jittered = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * Line readers for streamed HTTP bodies (axios `responseType: 'stream'`), shared by the
+ * providers that stream NDJSON or server-sent events.
+ */
+
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    // Decoding in stream mode keeps multi-byte characters split across chunks intact
+    const decoder = new TextDecoder();
+    let buffered = '';
+    for await (const chunk of stream) {
+        buffered += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        yield* lines;
+    }
+    buffered += decoder.decode();
+    if (buffered) {
+        yield buffered;
+    }
+}
+
+/** The `data:` payloads of a server-sent event stream, up to OpenAI's `[DONE]` marker. */
+export async function* readServerSentEvents(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+    for await (const line of readLines(stream)) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) {
+            continue;
+        }
+        const data = trimmed.slice('data:'.length).trim();
+        if (data === '[DONE]') {
+            return;
+        }
+        yield data;
+    }
+}
+
+/**
+ * With `responseType: 'stream'` the body of an error response is a stream as well. Reads it into
+ * `error.response.data`, parsed when it is JSON, so the error can be classified and logged.
+ */
+export async function readStreamedErrorBody(error: any): Promise<void> {
+    const data = error?.response?.data;
+    if (!data || typeof data[Symbol.asyncIterator] !== 'function') {
+        return;
+    }
+    const lines: string[] = [];
+    for await (const line of readLines(data)) {
+        lines.push(line);
+    }
+    const text = lines.join('\n').trim();
+    try {
+        error.response.data = JSON.parse(text);
+    } catch {
+        error.response.data = text;
+    }
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { Logger, LogCategory } from './logger';
+
+/**
+ * `i18n-nexus.lock.json` records, per target language and dotted key, a hash of the base value
+ * the current translation was made from. A base value whose hash no longer matches is stale.
+ * The file is meant to be committed next to the locale files.
+ */
+export const LOCK_FILE_NAME = 'i18n-nexus.lock.json';
+
+interface LockFile {
+    version: 1;
+    locales: Record<string, Record<string, string>>;
+}
+
+export function hashSourceValue(value: unknown): string {
+    return createHash('sha256').update(JSON.stringify(value)).digest('hex').slice(0, 16);
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+    return Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+}
+
+export class SourceLock {
+    private filePath: string;
+    private logger: Logger;
+    private locales: Record<string, Record<string, string>> = {};
+
+    constructor(filePath: string, logger: Logger) {
+        this.filePath = filePath;
+        this.logger = logger;
+        this.load();
+    }
+
+    public getHashes(lang: string): Record<string, string> {
+        return this.locales[lang] || {};
+    }
+
+    /** Replaces everything recorded for `lang`. */
+    public setHashes(lang: string, hashes: Record<string, string>): void {
+        this.locales[lang] = sortKeys(hashes);
+    }
+
+    public save(): void {
+        try {
+            const content: LockFile = { version: 1, locales: sortKeys(this.locales) };
+            fs.writeFileSync(this.filePath, `${JSON.stringify(content, null, 2)}\n`);
+        } catch (error) {
+            this.logger.error(`Failed to save ${this.filePath}`, error, LogCategory.TRANSLATION);
+        }
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+            if (data?.version === 1 && data.locales && typeof data.locales === 'object') {
+                this.locales = data.locales;
+            }
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable ${this.filePath}, every translated key counts as up to date: ${error}`, LogCategory.TRANSLATION);
+        }
+    }
+}
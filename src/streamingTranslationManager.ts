@@ -3,20 +3,111 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { LLMService } from './llmService';
+import { RetryNotice } from './providers/retry-policy';
 import { Logger, LogCategory } from './logger';
 import { ChunkDiffViewer, ChunkDiffResult } from './chunkDiffViewer';
 import { getProviderConfig } from './provider-config';
-
-interface StreamingTranslationResult {
-  chunkId: string;
-  originalContent: Record<string, any>;
-  translatedContent: Record<string, any>;
-  tokensUsed: { inputTokens: number; outputTokens: number };
+import { offerModelPull } from './modelConfigurator';
+import { ChunkTranslationResult, ChunkTranslator, describeKeyProviders } from './chunkTranslator';
+import { DEFAULT_GLOSSARY_FILE, Glossary, loadGlossary } from './glossary';
+import { TRANSLATION_MEMORY_FILE, TranslationMemory } from './translationMemory';
+import { KeyNotes, getKeyNotes } from './keyNotes';
+import {
+  SessionChunk,
+  TranslationSession,
+  TranslationSessionStore,
+  createSession,
+  getRemainingChunks,
+  hashFile
+} from './translationSession';
+import {
+  ChunkingStrategy,
+  findOrphanedKeys,
+  flattenNestedContent,
+  getNestedValue,
+  getOriginalBaseContent,
+  listLocaleFiles,
+  loadJsonFile,
+  prepareTranslationContent,
+  splitIntoChunks,
+  SourceReference,
+  collectSourceHashes,
+  removeKeys,
+  unflattenContent
+} from './translationCore';
+import { LOCK_FILE_NAME, SourceLock, hashSourceValue } from './sourceLock';
+import { BaseChanges, getBaseChangesSince, prepareChangedContent } from './gitChanges';
+import { ReviewItem, TranslationReviewPanel, applyReviewDecisions, buildReviewItems } from './translationReviewPanel';
+
+interface StreamingTranslationResult extends ChunkTranslationResult {
   startLine: number;
   endLine: number;
   applied: boolean;
 }
 
+interface ChunkQueueOptions {
+  progressOffset: number;
+  progressTotal: number;
+  showDiffs: boolean;
+}
+
+interface ChunkQueueOutcome {
+  results: StreamingTranslationResult[];
+  totalTokens: { inputTokens: number; outputTokens: number };
+  acceptedChunks: number;
+  rejectedChunks: number;
+  failedChunks: number;
+  memoryHits: number;
+  tokensSaved: number;
+  failedKeys: string[];
+  keyProviders: Record<string, string>;
+  fallbackKeys: string[];
+}
+
+interface LanguageTranslationSummary {
+  lang: string;
+  filePath: string;
+  keysToTranslate: number;
+  totalChunks: number;
+  acceptedChunks: number;
+  rejectedChunks: number;
+  failedChunks: number;
+  tokensUsed: { inputTokens: number; outputTokens: number };
+  memoryHits: number;
+  tokensSaved: number;
+  /** Keys left untranslated because they broke ICU syntax or never came back from the model */
+  failedKeys: string[];
+  /** Orphaned keys the user chose to delete */
+  removedKeys: string[];
+  /** See `ChunkTranslationResult.keyProviders` */
+  keyProviders: Record<string, string>;
+  fallbackKeys: string[];
+  status: 'translated' | 'pruned' | 'up-to-date' | 'failed' | 'cancelled';
+}
+
+/** Keys of one locale file that are no longer in the base language file */
+interface OrphanedKeys {
+  lang: string;
+  content: Record<string, any>;
+  keys: string[];
+}
+
+/** Keys of a chunk that arrived from a streamed response before the chunk finished */
+interface StreamedChunk {
+  totalKeys: number;
+  keys: Record<string, any>;
+}
+
+/** Streamed keys are shown at most this often, so fast streams don't rewrite the diff per token */
+const LIVE_PREVIEW_INTERVAL_MS = 250;
+
+interface PendingTranslation {
+  originalFilePath: string;
+  tempFilePath: string;
+  /** See `StreamingTranslationManager.sourceHashes` */
+  sourceHashes: Record<string, string>;
+}
+
 interface TranslationProgress {
   currentChunk: number;
   totalChunks: number;
@@ -28,6 +119,7 @@ interface TranslationProgress {
 
 export class StreamingTranslationManager {
   private llmService: LLMService;
+  private chunkTranslator: ChunkTranslator;
   private logger: Logger;
   private outputChannel: vscode.OutputChannel;
   private chunkSize: number;
@@ -37,64 +129,60 @@ export class StreamingTranslationManager {
   private progressBar: vscode.Progress<{ message?: string; increment?: number }> | null = null;
   private statusBarItem: vscode.StatusBarItem | null = null;
   private acceptAllItem: vscode.StatusBarItem | null = null;
+  private reviewItem: vscode.StatusBarItem | null = null;
   private cancelItem: vscode.StatusBarItem | null = null;
   private tempFilePath: string | null = null;
   private originalFilePath: string | null = null;
   private progressBarResolve: (() => void) | null = null;
   private diffViewer: ChunkDiffViewer;
   private allChangesFlat: Record<string, string | null> = {};
+  /** Hash of the base value behind every translation applied in the current run, by key */
+  private sourceHashes: Record<string, string> = {};
   private diffTempFiles: string[] = [];
+  private pendingTranslations: PendingTranslation[] = [];
+  private storagePath: string | undefined;
+  private translationMemory: TranslationMemory | null = null;
+  private keyNotes: KeyNotes = {};
+  private sessionStore: TranslationSessionStore;
+  /** Session of the locale file currently being translated */
+  private session: TranslationSession | null = null;
+  /** Streamed keys of the chunks in flight, by chunk id */
+  private streamedKeys = new Map<string, StreamedChunk>();
+  /** The chunk whose streamed keys are shown: the next one to be applied */
+  private liveChunk: { id: string; showDiff: boolean } | null = null;
+  private livePreviewTimer: NodeJS.Timeout | null = null;
 
-  constructor(logger: Logger, channel: vscode.OutputChannel) {
-    this.llmService = new LLMService(logger, channel);
+  /**
+   * @param storagePath the extension's global storage folder; the translation memory is disabled without it
+   */
+  constructor(logger: Logger, channel: vscode.OutputChannel, storagePath?: string) {
+    this.llmService = new LLMService(logger, () => vscode.workspace.getConfiguration('i18nNexus'));
+    this.llmService.onRetry(notice => this.reportRetry(notice));
+    this.llmService.setMissingModelHandler(offerModelPull);
+    const translatorConfig = vscode.workspace.getConfiguration('i18nNexus');
+    this.chunkTranslator = new ChunkTranslator(this.llmService, logger, {
+      validationRetries: translatorConfig.get<number>('icuValidationRetries', 2),
+      missingKeyRetries: translatorConfig.get<number>('missingKeyRetries', 2),
+      fuzzyMatchThreshold: translatorConfig.get<number>('fuzzyMatchThreshold', 0.8)
+    });
     this.logger = logger;
     this.outputChannel = channel;
+    this.storagePath = storagePath;
     this.diffViewer = ChunkDiffViewer.getInstance();
+    this.sessionStore = new TranslationSessionStore(
+      storagePath ? path.join(storagePath, 'sessions') : path.join(os.tmpdir(), 'i18n-nexus-streaming', 'sessions'),
+      logger
+    );
 
     const config = vscode.workspace.getConfiguration('i18nNexus');
-    this.chunkSize = config.get<number>('chunkSize', 15000); // Increased from 3000 to 15000 for better efficiency
+    this.chunkSize = config.get<number>('chunkSize', 50);
     this.autoSaveInterval = config.get<number>('autoSaveInterval', 100);
   }
 
-  private logTranslationStructures(
-    chunkId: string,
-    inputToLLM: any,
-    llmResponse: any,
-    finalStructure: any
-  ): void {
-    const separator = '='.repeat(80);
-    const sectionSeparator = '-'.repeat(60);
-
-    this.logger.logStructures(separator);
-    this.logger.logStructures(`🔄 TRANSLATION STRUCTURES FOR ${chunkId.toUpperCase()}`);
-    this.logger.logStructures(separator);
-
-    this.logger.logStructures(`📤 INPUT TO LLM (${Object.keys(inputToLLM).length} keys):`);
-    this.logger.logStructures(sectionSeparator);
-    this.logger.logStructures(JSON.stringify(inputToLLM, null, 2));
-    this.logger.logStructures('');
-
-    this.logger.logStructures(`📥 LLM RESPONSE (${Object.keys(llmResponse).length} keys):`);
-    this.logger.logStructures(sectionSeparator);
-    this.logger.logStructures(JSON.stringify(llmResponse, null, 2));
-    this.logger.logStructures('');
-
-    this.logger.logStructures(`📋 FINAL EXTRACTED STRUCTURE (${Object.keys(finalStructure).length} keys):`);
-    this.logger.logStructures(sectionSeparator);
-    this.logger.logStructures(JSON.stringify(finalStructure, null, 2));
-    this.logger.logStructures('');
-
-    this.logger.logStructures(`📊 STRUCTURE COMPARISON SUMMARY:`);
-    this.logger.logStructures(sectionSeparator);
-    this.logger.logStructures(`Input keys: ${Object.keys(inputToLLM).join(', ')}`);
-    this.logger.logStructures(`Response keys: ${Object.keys(llmResponse).join(', ')}`);
-    this.logger.logStructures(`Final keys: ${Object.keys(finalStructure).join(', ')}`);
-
-    this.logger.logStructures(separator);
-    this.logger.logStructures('');
-  }
-
-  public async translateLargeFileStreaming(fileUri: vscode.Uri): Promise<void> {
+  /**
+   * @param resume continue a stored session of this file without asking
+   */
+  public async translateLargeFileStreaming(fileUri: vscode.Uri, resume: boolean = false): Promise<void> {
     if (this.isTranslationActive) {
       vscode.window.showWarningMessage('Translation is already in progress. Please wait for it to complete.');
       return;
@@ -145,68 +233,75 @@ export class StreamingTranslationManager {
         throw new Error(`Base language file not found: ${baseFilePath}`);
       }
 
+      this.loadGlossary(workspaceRoot);
+      this.prepareTranslationMemory(baseLanguage);
       const baseContent = this.loadJsonFile(baseFilePath);
+      const sourceHash = hashFile(baseFilePath);
       const targetContent = fs.existsSync(filePath) ? this.loadJsonFile(filePath) : {};
-      const originalBaseContent = this.getOriginalBaseContent(baseFilePath);
+      const orphaned: OrphanedKeys = { lang, content: targetContent, keys: findOrphanedKeys(baseContent, targetContent) };
+      let session: TranslationSession | undefined = (await this.findResumableSessions([filePath], sourceHash, resume))[0];
+      if (!session) {
+        const reference: SourceReference = {
+          hashes: this.loadSourceLock(workspaceRoot).getHashes(lang),
+          original: this.getOriginalBaseContent(baseFilePath)
+        };
+
+        const toTranslate = this.prepareTranslationContent(baseContent, targetContent, reference);
+        if (Object.keys(toTranslate).length === 0 && orphaned.keys.length === 0) {
+          vscode.window.showInformationMessage('No changes detected, no translation needed.');
+          return;
+        }
+        if (Object.keys(toTranslate).length === 0) {
+          // Nothing to translate, only orphaned keys to review; no session is needed for that
+          this.tempFilePath = this.createTempFile(filePath, targetContent);
+          this.allChangesFlat = this.flattenNestedContent(targetContent);
+          this.sourceHashes = {};
+          const removed = await this.removeOrphanedKeysFromTempFile(orphaned);
+          if (removed === 0) {
+            this.cleanup();
+            return;
+          }
+          await this.showDiffViewWithControls(this.unflattenContent(this.allChangesFlat), 'orphaned');
+          this.showAcceptAllButtonAtEnd();
+          vscode.window.showInformationMessage(`${removed} orphaned keys will be removed from ${fileName}. Use Accept All Changes to apply.`);
+          return;
+        }
 
-      const toTranslate = this.prepareTranslationContent(baseContent, targetContent, originalBaseContent);
-      if (Object.keys(toTranslate).length === 0) {
-        vscode.window.showInformationMessage('No changes detected, no translation needed.');
-        return;
+        const chunks = this.splitIntoChunks(toTranslate, lang).map((content, i) => ({ id: `chunk_${i + 1}`, content }));
+        this.logger.logTranslation(`Split content into ${chunks.length} chunks from ${Object.keys(toTranslate).length} total keys`);
+        session = createSession(filePath, lang, sourceHash, chunks, this.flattenNestedContent(targetContent));
+        this.sessionStore.save(session);
       }
 
-      const chunks = this.splitIntoChunks(toTranslate, this.chunkSize);
-      this.logger.logTranslation(`Split content into ${chunks.length} chunks from ${Object.keys(toTranslate).length} total keys`);
-
-      this.tempFilePath = this.createTempFile(filePath, targetContent);
-      this.allChangesFlat = this.flattenNestedContent(targetContent);
-
-      const results: StreamingTranslationResult[] = [];
-      let totalTokens = { inputTokens: 0, outputTokens: 0 };
-      let acceptedChunks = 0;
-      let rejectedChunks = 0;
+      this.keyNotes = getKeyNotes(fullBasePath, baseLanguage, lang, baseContent);
+      const chunks = getRemainingChunks(session);
+      this.session = session;
+      this.tempFilePath = this.createTempFile(filePath, this.unflattenContent(session.mergedContent));
+      this.allChangesFlat = { ...session.mergedContent };
+      this.sourceHashes = { ...session.sourceHashes };
+
+      if (chunks.length === 0) {
+        await this.removeOrphanedKeysFromTempFile(orphaned);
+        this.showAcceptAllButtonAtEnd();
+        vscode.window.showInformationMessage('Every chunk of this translation was already done. Review the file, then use Accept All Changes.');
+        return;
+      }
 
       this.logger.logTranslation(`Starting translation loop for ${chunks.length} chunks`);
       this.showProgressBar(chunks.length).catch(error => {
         this.logger.error(`Error in progress bar: ${error}`, error, LogCategory.UI);
       });
 
-      for (let i = 0; i < chunks.length; i++) {
-        if (this.translationCancelled) {
-          this.logger.warn('Translation cancelled by user', LogCategory.TRANSLATION);
-          break;
-        }
-
-        const chunk = chunks[i];
-        const chunkId = `chunk_${i + 1}`;
-        this.logger.logTranslation(`Processing chunk ${chunkId} (${i + 1}/${chunks.length})`);
-        try {
-          this.updateProgress(i + 1, chunks.length, chunkId, totalTokens, acceptedChunks, rejectedChunks);
-
-          const result = await this.translateChunk(chunk, lang, chunkId, i + 1, chunks.length);
-          const applied = await this.applyChunkToFile(result);
-
-          if (applied) {
-            acceptedChunks++;
-            totalTokens.inputTokens += result.tokensUsed.inputTokens;
-            totalTokens.outputTokens += result.tokensUsed.outputTokens;
-            this.logger.logTranslation(`Chunk ${chunkId} applied successfully`);
-          } else {
-            rejectedChunks++;
-            this.logger.warn(`Chunk ${chunkId} rejected by user`, LogCategory.TRANSLATION);
-          }
-
-          results.push({ ...result, applied });
-          await this.delay(this.autoSaveInterval);
-        } catch (error) {
-          this.logger.error(`Error translating chunk ${chunkId}: ${error}`, LogCategory.TRANSLATION);
-          vscode.window.showWarningMessage(`Error translating chunk ${chunkId}. Skipping to next chunk.`);
-        }
-      }
+      const { results, totalTokens, acceptedChunks, rejectedChunks } = await this.runChunkQueue(chunks, lang, {
+        progressOffset: 0,
+        progressTotal: chunks.length,
+        showDiffs: true
+      });
 
       if (!this.translationCancelled && results.length > 0) {
         this.logger.logTranslation(`Translation loop completed. Processed ${results.length} chunks, ${acceptedChunks} accepted, ${rejectedChunks} rejected.`);
         if (acceptedChunks > 0) {
+          await this.removeOrphanedKeysFromTempFile(orphaned);
           await this.showFinalSummary(results, totalTokens, acceptedChunks, rejectedChunks);
           vscode.window.showInformationMessage(
             `Translation completed! ${acceptedChunks} chunks processed successfully, ${rejectedChunks} failed. Use Accept All or Reject All buttons in status bar.`
@@ -220,7 +315,7 @@ export class StreamingTranslationManager {
         }
       } else if (this.translationCancelled) {
         this.logger.warn('Translation was cancelled by user', LogCategory.TRANSLATION);
-        vscode.window.showInformationMessage('Translation was cancelled by user.');
+        vscode.window.showInformationMessage('Translation was cancelled by user. Run "Resume Translation" to continue where it stopped.');
         this.cleanup();
       } else {
         this.logger.warn('No results to process', LogCategory.TRANSLATION);
@@ -230,11 +325,509 @@ export class StreamingTranslationManager {
       this.logger.error(`Error during streaming translation: ${error}`, LogCategory.TRANSLATION);
       vscode.window.showErrorMessage(`Translation failed: ${error}`);
     } finally {
+      this.translationMemory?.save();
+      this.session = null;
+      this.isTranslationActive = false;
+      this.hideProgressBar();
+    }
+  }
+
+  /**
+   * Continues an interrupted translation, asking which one when several are stored.
+   */
+  public async resumeTranslation(): Promise<void> {
+    const sessions = this.sessionStore.list();
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('There is no interrupted translation to resume.');
+      return;
+    }
+    const session = sessions.length === 1 ? sessions[0] : (await vscode.window.showQuickPick(
+      sessions.map(s => ({
+        label: path.basename(s.filePath),
+        description: `${s.completedChunks.length}/${s.chunks.length} chunks done`,
+        detail: s.filePath,
+        session: s
+      })),
+      { placeHolder: 'Select the translation to resume' }
+    ))?.session;
+    if (session) {
+      await this.translateLargeFileStreaming(vscode.Uri.file(session.filePath), true);
+    }
+  }
+
+  /**
+   * Stored sessions of `filePaths` that were built from the current base file. Sessions of a
+   * changed base are discarded; unless `resume` is set, the user decides whether to continue.
+   */
+  private async findResumableSessions(filePaths: string[], sourceHash: string, resume: boolean): Promise<TranslationSession[]> {
+    const sessions: TranslationSession[] = [];
+    for (const filePath of filePaths) {
+      const session = this.sessionStore.load(filePath);
+      if (session && session.sourceHash !== sourceHash) {
+        this.logger.warn(`Discarding the interrupted translation of ${filePath}: the base language file changed since`, LogCategory.TRANSLATION);
+        this.sessionStore.delete(filePath);
+      } else if (session) {
+        sessions.push(session);
+      }
+    }
+    if (sessions.length === 0) {
+      if (resume) {
+        vscode.window.showWarningMessage('The base language file changed since the translation was interrupted, starting over.');
+      }
+      return [];
+    }
+    if (resume) {
+      return sessions;
+    }
+    const done = sessions.reduce((sum, s) => sum + s.completedChunks.length, 0);
+    const total = sessions.reduce((sum, s) => sum + s.chunks.length, 0);
+    const choice = await vscode.window.showInformationMessage(
+      `An interrupted translation of ${sessions.map(s => path.basename(s.filePath)).join(', ')} was found (${done}/${total} chunks done). Resume it?`,
+      'Resume',
+      'Start Over'
+    );
+    return choice === 'Resume' ? sessions : [];
+  }
+
+  /**
+   * Asks for a branch, tag or commit and translates, for every target language, only the base
+   * keys that were added or changed since then.
+   */
+  public async translateChangedSince(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('i18nNexus');
+    const revision = await vscode.window.showInputBox({
+      prompt: 'Translate base language keys changed since this git branch, tag or commit',
+      value: config.get<string>('gitBaseRef', 'main'),
+      validateInput: value => value.trim() ? undefined : 'Enter a git revision'
+    });
+    if (revision) {
+      await this.translateAllLanguages(revision.trim());
+    }
+  }
+
+  /**
+   * Translates every enabled target language under basePath as a single queue.
+   * Missing locale files are created, and all results stay pending until Accept All.
+   * @param sinceRevision translate exactly the base keys changed since this git revision
+   *   instead of comparing each target with the base file
+   */
+  public async translateAllLanguages(sinceRevision?: string): Promise<void> {
+    if (this.isTranslationActive) {
+      vscode.window.showWarningMessage('Translation is already in progress. Please wait for it to complete.');
+      return;
+    }
+
+    this.cleanup();
+    this.isTranslationActive = true;
+    this.translationCancelled = false;
+
+    try {
+      const config = vscode.workspace.getConfiguration('i18nNexus');
+      const basePath = config.get<string>('basePath');
+      const baseLanguage = config.get<string>('baseLanguage');
+      const llmProvider = config.get<string>('llmProvider');
+      const llmApiKey = config.get<string>('llmApiKey');
+
+      if (!basePath || !baseLanguage) {
+        throw new Error('Base path or base language not configured.');
+      }
+      if (!llmProvider) {
+        throw new Error('LLM provider not configured.');
+      }
+
+      const providerConfig = getProviderConfig(llmProvider);
+      if (providerConfig && providerConfig.requiresApiKey && !llmApiKey) {
+        throw new Error('API key not configured for this provider.');
+      }
+
+      const targetLanguages = this.getEnabledTargetLanguages(config.get<Record<string, boolean>>('targetLanguages'), baseLanguage);
+      if (targetLanguages.length === 0) {
+        vscode.window.showWarningMessage('No target languages are enabled. Select languages in the i18nNexus.targetLanguages setting.');
+        return;
+      }
+
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+      const fullBasePath = path.join(workspaceRoot, basePath);
+      const baseFilePath = path.join(fullBasePath, `${baseLanguage}.json`);
+      if (!fs.existsSync(baseFilePath)) {
+        throw new Error(`Base language file not found: ${baseFilePath}`);
+      }
+
+      this.loadGlossary(workspaceRoot);
+      this.prepareTranslationMemory(baseLanguage);
+      const baseContent = this.loadJsonFile(baseFilePath);
+      const originalBaseContent = this.getOriginalBaseContent(baseFilePath);
+      const sourceLock = this.loadSourceLock(workspaceRoot);
+      let changes: BaseChanges | null = null;
+      if (sinceRevision) {
+        changes = await getBaseChangesSince(baseFilePath, baseContent, sinceRevision);
+        this.logger.logTranslation(
+          `${baseLanguage}.json since ${sinceRevision}: ${changes.added.length} added, ${changes.modified.length} modified, ${changes.removed.length} removed keys`
+        );
+        if (changes.added.length + changes.modified.length + changes.removed.length === 0) {
+          vscode.window.showInformationMessage(`No keys of ${baseLanguage}.json changed since ${sinceRevision}, no translation needed.`);
+          return;
+        }
+      }
+      const sourceHash = hashFile(baseFilePath);
+      const resumed = await this.findResumableSessions(
+        targetLanguages.map(lang => path.join(fullBasePath, `${lang}.json`)),
+        sourceHash,
+        false
+      );
+
+      // Plan every language up front so the progress notification covers the whole queue
+      const plans = targetLanguages.map(lang => {
+        const filePath = path.join(fullBasePath, `${lang}.json`);
+        const stored = resumed.find(session => session.filePath === filePath);
+        if (!fs.existsSync(filePath)) {
+          fs.writeFileSync(filePath, JSON.stringify({}, null, 2));
+          this.logger.logTranslation(`Created missing locale file: ${filePath}`);
+        }
+        const targetContent = this.loadJsonFile(filePath);
+        const orphaned: OrphanedKeys = { lang, content: targetContent, keys: findOrphanedKeys(baseContent, targetContent) };
+        if (stored) {
+          const chunks = getRemainingChunks(stored);
+          const keyCount = chunks.reduce((sum, chunk) => sum + Object.keys(chunk.content).length, 0);
+          this.logger.logTranslation(`${lang}: resuming with ${chunks.length} of ${stored.chunks.length} chunks left`);
+          return { lang, filePath, keyCount, chunks, session: stored, orphaned };
+        }
+        const toTranslate = changes
+          ? prepareChangedContent(baseContent, changes)
+          : this.prepareTranslationContent(baseContent, targetContent, {
+            hashes: sourceLock.getHashes(lang),
+            original: originalBaseContent
+          });
+        const keyCount = Object.keys(toTranslate).length;
+        const chunks: SessionChunk[] = keyCount > 0
+          ? this.splitIntoChunks(toTranslate, lang).map((content, i) => ({ id: `${lang}/chunk_${i + 1}`, content }))
+          : [];
+        this.logger.logTranslation(`${lang}: ${keyCount} keys to translate in ${chunks.length} chunks`);
+        const session = chunks.length > 0 ? createSession(filePath, lang, sourceHash, chunks, this.flattenNestedContent(targetContent)) : null;
+        if (session) {
+          this.sessionStore.save(session);
+        }
+        return { lang, filePath, keyCount, chunks, session, orphaned };
+      });
+
+      const totalChunks = plans.reduce((sum, plan) => sum + plan.chunks.length, 0);
+      if (totalChunks === 0 && resumed.length === 0 && plans.every(plan => plan.orphaned.keys.length === 0)) {
+        vscode.window.showInformationMessage('All target languages are up to date, no translation needed.');
+        return;
+      }
+
+      this.logger.logTranslation(`Starting translation queue for ${plans.length} languages (${totalChunks} chunks)`);
+      this.showProgressBar(totalChunks).catch(error => {
+        this.logger.error(`Error in progress bar: ${error}`, error, LogCategory.UI);
+      });
+
+      const summaries: LanguageTranslationSummary[] = [];
+      let progressOffset = 0;
+
+      for (const plan of plans) {
+        const summary: LanguageTranslationSummary = {
+          lang: plan.lang,
+          filePath: plan.filePath,
+          keysToTranslate: plan.keyCount,
+          totalChunks: plan.chunks.length,
+          acceptedChunks: 0,
+          rejectedChunks: 0,
+          failedChunks: 0,
+          tokensUsed: { inputTokens: 0, outputTokens: 0 },
+          memoryHits: 0,
+          tokensSaved: 0,
+          failedKeys: [],
+          removedKeys: [],
+          keyProviders: {},
+          fallbackKeys: [],
+          status: 'up-to-date'
+        };
+        summaries.push(summary);
+
+        if (this.translationCancelled) {
+          summary.status = 'cancelled';
+          continue;
+        }
+        if (!plan.session) {
+          continue;
+        }
+
+        // Chunks finished before an interruption are already part of the merged content
+        const resumedChunks = plan.session.completedChunks.length;
+        this.session = plan.session;
+        this.originalFilePath = plan.filePath;
+        this.tempFilePath = this.createTempFile(plan.filePath, this.unflattenContent(plan.session.mergedContent));
+        this.allChangesFlat = { ...plan.session.mergedContent };
+        this.sourceHashes = { ...plan.session.sourceHashes };
+        this.keyNotes = getKeyNotes(fullBasePath, baseLanguage, plan.lang, baseContent);
+
+        const outcome = await this.runChunkQueue(plan.chunks, plan.lang, {
+          progressOffset,
+          progressTotal: totalChunks,
+          showDiffs: false
+        });
+        progressOffset += plan.chunks.length;
+
+        summary.acceptedChunks = outcome.acceptedChunks;
+        summary.rejectedChunks = outcome.rejectedChunks;
+        summary.failedChunks = outcome.failedChunks;
+        summary.tokensUsed = outcome.totalTokens;
+        summary.memoryHits = outcome.memoryHits;
+        summary.tokensSaved = outcome.tokensSaved;
+        summary.failedKeys = outcome.failedKeys;
+        summary.keyProviders = outcome.keyProviders;
+        summary.fallbackKeys = outcome.fallbackKeys;
+
+        if (outcome.acceptedChunks > 0 || resumedChunks > 0) {
+          summary.status = this.translationCancelled ? 'cancelled' : 'translated';
+          this.pendingTranslations.push({ originalFilePath: plan.filePath, tempFilePath: this.tempFilePath, sourceHashes: this.sourceHashes });
+        } else {
+          summary.status = this.translationCancelled ? 'cancelled' : 'failed';
+          try { fs.unlinkSync(this.tempFilePath); } catch {}
+        }
+        this.tempFilePath = this.originalFilePath = null;
+        this.session = null;
+        this.allChangesFlat = {};
+        this.sourceHashes = {};
+        this.keyNotes = {};
+      }
+
+      if (!this.translationCancelled) {
+        await this.removeOrphanedKeysFromPendingFiles(plans.map(plan => plan.orphaned), summaries);
+      }
+      this.showLanguageSummary(summaries);
+      this.resolveProgressBar();
+
+      const translatedCount = summaries.filter(s => s.status === 'translated').length;
+      if (this.pendingTranslations.length > 0) {
+        this.showAcceptAllButtonAtEnd();
+        vscode.window.showInformationMessage(
+          `🎉 Translation queue finished! ${translatedCount} of ${targetLanguages.length} languages translated. Review the summary in the output channel, then use Accept All Changes.`
+        );
+      } else if (this.translationCancelled) {
+        vscode.window.showInformationMessage('Translation was cancelled by user.');
+      } else if (summaries.every(s => s.status === 'up-to-date')) {
+        vscode.window.showInformationMessage('All target languages are up to date, no translation needed.');
+      } else {
+        vscode.window.showWarningMessage('Translation failed for every language. Please check the logs for details.');
+      }
+    } catch (error) {
+      this.logger.error(`Error during multi-language translation: ${error}`, LogCategory.TRANSLATION);
+      vscode.window.showErrorMessage(`Translation failed: ${error}`);
+      this.resolveProgressBar();
+    } finally {
+      this.translationMemory?.save();
       this.isTranslationActive = false;
       this.hideProgressBar();
     }
   }
 
+  /**
+   * Deletes keys that are no longer in the base language file from every locale file under
+   * basePath, after the user reviews them. Their hashes are dropped from the lock file.
+   */
+  public async pruneOrphanedKeys(): Promise<void> {
+    if (this.isTranslationActive) {
+      vscode.window.showWarningMessage('Translation is already in progress. Please wait for it to complete.');
+      return;
+    }
+    try {
+      const config = vscode.workspace.getConfiguration('i18nNexus');
+      const basePath = config.get<string>('basePath');
+      const baseLanguage = config.get<string>('baseLanguage');
+      if (!basePath || !baseLanguage) {
+        throw new Error('Base path or base language not configured.');
+      }
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+      const fullBasePath = path.join(workspaceRoot, basePath);
+      const baseFilePath = path.join(fullBasePath, `${baseLanguage}.json`);
+      if (!fs.existsSync(baseFilePath)) {
+        throw new Error(`Base language file not found: ${baseFilePath}`);
+      }
+
+      const baseContent = this.loadJsonFile(baseFilePath);
+      const locales: Array<OrphanedKeys & { filePath: string }> = [];
+      for (const { lang, filePath } of listLocaleFiles(fullBasePath, baseLanguage)) {
+        try {
+          const content = this.loadJsonFile(filePath);
+          locales.push({ lang, filePath, content, keys: findOrphanedKeys(baseContent, content) });
+        } catch (error) {
+          this.logger.warn(`Skipping ${filePath}, it is not valid JSON: ${error}`, LogCategory.TRANSLATION);
+        }
+      }
+      if (locales.every(locale => locale.keys.length === 0)) {
+        vscode.window.showInformationMessage('No orphaned keys found, every locale file matches the base language file.');
+        return;
+      }
+
+      const accepted = await this.reviewOrphanedKeys(locales);
+      const sourceLock = this.loadSourceLock(workspaceRoot);
+      let removed = 0;
+      for (const { lang, filePath, content } of locales) {
+        const keys = accepted[lang] || [];
+        if (keys.length === 0) {
+          continue;
+        }
+        fs.writeFileSync(filePath, JSON.stringify(removeKeys(content, keys), null, 2));
+        const hashes = Object.entries(sourceLock.getHashes(lang))
+          .filter(([key]) => !keys.some(removedKey => key === removedKey || key.startsWith(`${removedKey}.`)));
+        sourceLock.setHashes(lang, Object.fromEntries(hashes));
+        removed += keys.length;
+        this.logger.logTranslation(`Removed ${keys.length} orphaned keys from ${filePath}: ${keys.join(', ')}`);
+      }
+      if (removed > 0) {
+        sourceLock.save();
+        vscode.window.showInformationMessage(`Removed ${removed} orphaned keys from ${Object.keys(accepted).length} locale files.`);
+      }
+    } catch (error) {
+      this.logger.error('Failed to prune orphaned keys', error, LogCategory.TRANSLATION);
+      vscode.window.showErrorMessage(`Pruning orphaned keys failed: ${error}`);
+    }
+  }
+
+  private getEnabledTargetLanguages(targetLanguages: Record<string, boolean> | undefined, baseLanguage: string): string[] {
+    return Object.entries(targetLanguages || {})
+      .filter(([lang, enabled]) => enabled && lang !== baseLanguage)
+      .map(([lang]) => lang);
+  }
+
+  private async runChunkQueue(
+    chunks: SessionChunk[],
+    lang: string,
+    options: ChunkQueueOptions
+  ): Promise<ChunkQueueOutcome> {
+    const results: StreamingTranslationResult[] = [];
+    const totalTokens = { inputTokens: 0, outputTokens: 0 };
+    let acceptedChunks = 0;
+    let rejectedChunks = 0;
+    let failedChunks = 0;
+    let memoryHits = 0;
+    let tokensSaved = 0;
+    const failedKeys: string[] = [];
+    const keyProviders: Record<string, string> = {};
+    const fallbackKeys: string[] = [];
+
+    // Up to `concurrency` chunks are translated ahead, but results are applied strictly in chunk order
+    const concurrency = this.getChunkConcurrency(lang);
+    const translations = new Map<number, Promise<StreamingTranslationResult>>();
+    const startTranslation = (index: number) => {
+      if (index >= chunks.length || this.translationCancelled) {
+        return;
+      }
+      const chunk = chunks[index];
+      this.logger.logTranslation(`Processing chunk ${chunk.id} (${index + 1}/${chunks.length})`);
+      const translation = this.translateChunk(chunk.content, lang, chunk.id, index + 1, chunks.length);
+      // Rejections are handled when the chunk's turn comes; this only silences chunks dropped by a cancel
+      translation.catch(() => undefined);
+      translations.set(index, translation);
+    };
+    for (let i = 0; i < concurrency; i++) {
+      startTranslation(i);
+    }
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (this.translationCancelled) {
+        this.logger.warn('Translation cancelled by user', LogCategory.TRANSLATION);
+        break;
+      }
+
+      const chunkId = chunks[i].id;
+      try {
+        this.updateProgress(options.progressOffset + i + 1, options.progressTotal, chunkId, totalTokens, acceptedChunks, rejectedChunks);
+
+        this.liveChunk = { id: chunkId, showDiff: options.showDiffs };
+        if (this.streamedKeys.has(chunkId)) {
+          this.scheduleLivePreview();
+        }
+        const result = await translations.get(i)!;
+        this.liveChunk = null;
+        const applied = await this.applyChunkToFile(result, options.showDiffs);
+
+        if (applied) {
+          acceptedChunks++;
+          totalTokens.inputTokens += result.tokensUsed.inputTokens;
+          totalTokens.outputTokens += result.tokensUsed.outputTokens;
+          memoryHits += result.memoryHits;
+          tokensSaved += result.tokensSaved;
+          failedKeys.push(...result.failedKeys, ...result.missingKeys);
+          Object.assign(keyProviders, result.keyProviders);
+          fallbackKeys.push(...result.fallbackKeys);
+          this.logger.logTranslation(`Chunk ${chunkId} applied successfully`);
+        } else {
+          rejectedChunks++;
+          this.logger.warn(`Chunk ${chunkId} rejected by user`, LogCategory.TRANSLATION);
+        }
+
+        results.push({ ...result, applied });
+        this.recordCompletedChunk(chunkId);
+        await this.delay(this.autoSaveInterval);
+      } catch (error) {
+        failedChunks++;
+        this.logger.error(`Error translating chunk ${chunkId}: ${error}`, LogCategory.TRANSLATION);
+        vscode.window.showWarningMessage(`Error translating chunk ${chunkId}. Skipping to next chunk.`);
+      } finally {
+        this.liveChunk = null;
+        this.streamedKeys.delete(chunkId);
+        translations.delete(i);
+        startTranslation(i + concurrency);
+      }
+    }
+
+    return { results, totalTokens, acceptedChunks, rejectedChunks, failedChunks, memoryHits, tokensSaved, failedKeys, keyProviders, fallbackKeys };
+  }
+
+  /**
+   * How many chunks may be in flight at once: `chunkConcurrency` when set, otherwise the
+   * deprecated `parallelBatchCount` when raised above 1, otherwise the lowest default among the
+   * provider `lang` is routed to and its fallbacks, since chunks may all fail over to the same one
+   * (1 for Ollama, which serves one request at a time).
+   */
+  private getChunkConcurrency(lang: string): number {
+    const config = vscode.workspace.getConfiguration('i18nNexus');
+    const configured = config.get<number>('chunkConcurrency', 0);
+    if (configured && configured > 0) {
+      return Math.floor(configured);
+    }
+    const legacy = config.get<number>('parallelBatchCount', 1);
+    if (legacy && legacy > 1) {
+      return Math.floor(legacy);
+    }
+    return Math.min(...this.llmService.getProviderNames(lang).map(provider => getProviderConfig(provider)?.maxConcurrency ?? 1));
+  }
+
+  /** Persists the chunk and the merged content so far, so an interrupted run can continue after it. */
+  private recordCompletedChunk(chunkId: string): void {
+    if (!this.session) {
+      return;
+    }
+    this.session.completedChunks.push(chunkId);
+    this.session.mergedContent = this.allChangesFlat;
+    this.session.sourceHashes = this.sourceHashes;
+    this.sessionStore.save(this.session);
+  }
+
+  private showLanguageSummary(summaries: LanguageTranslationSummary[]): void {
+    const lines = summaries.map(s => {
+      switch (s.status) {
+        case 'up-to-date':
+          return `- ${s.lang}: up to date`;
+        case 'cancelled':
+          return `- ${s.lang}: cancelled (${s.acceptedChunks}/${s.totalChunks} chunks done)`;
+        case 'pruned':
+          return `- ${s.lang}: up to date, ${s.removedKeys.length} orphaned keys removed: ${s.removedKeys.join(', ')}`;
+        default:
+          return `- ${s.lang}: ${s.status}, ${s.keysToTranslate} keys, ${s.acceptedChunks}/${s.totalChunks} chunks accepted, ` +
+            `${s.rejectedChunks} rejected, ${s.failedChunks} failed, tokens: Input: ${s.tokensUsed.inputTokens}, Output: ${s.tokensUsed.outputTokens}, ` +
+            `translation memory: ${s.memoryHits} keys (~${s.tokensSaved} tokens saved)` +
+            (s.failedKeys.length > 0 ? `, untranslated keys: ${s.failedKeys.join(', ')}` : '') +
+            (Object.keys(s.keyProviders).length > 0 ? `, providers: ${describeKeyProviders(s.keyProviders, s.fallbackKeys)}` : '') +
+            (s.removedKeys.length > 0 ? `, orphaned keys removed: ${s.removedKeys.join(', ')}` : '');
+      }
+    });
+    this.outputChannel.appendLine(['Translation Summary (all languages):', ...lines].join('\n'));
+    this.outputChannel.show();
+  }
+
   private isValidTranslationFile(filePath: string): boolean {
     if (filePath.includes('extension-output') || filePath.includes('i18n Nexus')) return false;
     if (!filePath.endsWith('.json')) return false;
@@ -262,7 +855,7 @@ export class StreamingTranslationManager {
     return tempFilePath;
   }
 
-  private async applyChunkToFile(result: StreamingTranslationResult): Promise<boolean> {
+  private async applyChunkToFile(result: StreamingTranslationResult, showDiff: boolean = true): Promise<boolean> {
     if (!this.tempFilePath) {
       this.logger.error('Temp file path not found');
       return false;
@@ -273,20 +866,33 @@ export class StreamingTranslationManager {
         return false;
       }
 
+      // Keys that ignore the glossary are only merged after the user reviews them
+      const accepted = { ...result.translatedContent };
+      const flaggedKeys = Object.keys(result.glossaryViolations || {}).filter(key => key in accepted);
+      flaggedKeys.forEach(key => delete accepted[key]);
+      if (flaggedKeys.length > 0 && await this.reviewGlossaryViolations(result, flaggedKeys)) {
+        flaggedKeys.forEach(key => accepted[key] = result.translatedContent[key]);
+      }
+
       // Merge flat LLM response with overall state
       this.allChangesFlat = {
         ...this.allChangesFlat,
-        ...result.translatedContent
+        ...accepted
       };
+      for (const key of Object.keys(accepted)) {
+        this.sourceHashes[key] = hashSourceValue(result.originalContent[key]);
+      }
 
       // Rebuild nested JSON and write to temp file
       const mergedContent = this.unflattenContent(this.allChangesFlat);
       fs.writeFileSync(this.tempFilePath, JSON.stringify(mergedContent, null, 2));
 
       // Show diff view
-      this.showDiffViewWithControls(mergedContent, result.chunkId).catch(err =>
-        this.logger.error(`Error showing diff for ${result.chunkId}: ${err}`)
-      );
+      if (showDiff) {
+        this.showDiffViewWithControls(mergedContent, result.chunkId).catch(err =>
+          this.logger.error(`Error showing diff for ${result.chunkId}: ${err}`)
+        );
+      }
       return true;
     } catch (error) {
       this.logger.error(`Error applying chunk to file: ${error}`);
@@ -317,6 +923,117 @@ export class StreamingTranslationManager {
     }
   }
 
+  private async reviewGlossaryViolations(result: StreamingTranslationResult, keys: string[]): Promise<boolean> {
+    const lines = keys.map(key =>
+      `- ${key}: ${result.glossaryViolations[key].map(v => `"${v.term}" should be "${v.expected}"`).join(', ')}`
+    );
+    this.outputChannel.appendLine([`Glossary check flagged ${keys.length} keys in ${result.chunkId}:`, ...lines].join('\n'));
+    this.outputChannel.show();
+
+    const pick = (content: Record<string, any>) => Object.fromEntries(keys.map(key => [key, content[key]]));
+    const accepted = await this.diffViewer.showChunkDiff({
+      chunkId: `${result.chunkId.replace(/[\\/]/g, '_')}_glossary`,
+      originalContent: pick(result.originalContent),
+      translatedContent: pick(result.translatedContent),
+      startLine: result.startLine,
+      endLine: result.endLine,
+      reviewReason: `${keys.length} keys do not follow the glossary`
+    }, vscode.Uri.file(this.originalFilePath || ''));
+    this.logger.logTranslation(`Glossary review for ${result.chunkId}: ${accepted ? 'accepted' : 'rejected'} ${keys.join(', ')}`);
+    return accepted;
+  }
+
+  /**
+   * Lists keys that are no longer in the base language file, all preselected, in one picker
+   * apart from the translation diffs. Returns the keys the user accepted for removal, by language.
+   */
+  private async reviewOrphanedKeys(locales: OrphanedKeys[]): Promise<Record<string, string[]>> {
+    const items = locales.flatMap(({ lang, content, keys }) => keys.map(key => ({
+      label: key,
+      description: `${lang}.json`,
+      detail: JSON.stringify(getNestedValue(content, key)).slice(0, 120),
+      picked: true,
+      lang
+    })));
+    if (items.length === 0) {
+      return {};
+    }
+    const picked = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      placeHolder: `${items.length} keys are no longer in the base language file. Select the ones to delete`
+    }) || [];
+    const accepted: Record<string, string[]> = {};
+    for (const item of picked) {
+      accepted[item.lang] = [...(accepted[item.lang] || []), item.label];
+    }
+    this.logger.logTranslation(`Orphaned keys: ${picked.length} of ${items.length} accepted for removal`);
+    return accepted;
+  }
+
+  /** Reviews the orphaned keys of the file being translated and deletes the accepted ones from its temp file. */
+  private async removeOrphanedKeysFromTempFile(orphaned: OrphanedKeys): Promise<number> {
+    const accepted = (await this.reviewOrphanedKeys([orphaned]))[orphaned.lang] || [];
+    if (accepted.length === 0 || !this.tempFilePath) {
+      return 0;
+    }
+    const content = removeKeys(this.unflattenContent(this.allChangesFlat), accepted);
+    this.allChangesFlat = this.flattenNestedContent(content);
+    fs.writeFileSync(this.tempFilePath, JSON.stringify(content, null, 2));
+    return accepted.length;
+  }
+
+  /**
+   * Reviews the orphaned keys of every language of a queue at once. Accepted removals go into the
+   * pending temp file of the language, which is created for languages that had nothing to translate.
+   */
+  private async removeOrphanedKeysFromPendingFiles(locales: OrphanedKeys[], summaries: LanguageTranslationSummary[]): Promise<void> {
+    const accepted = await this.reviewOrphanedKeys(locales);
+    for (const summary of summaries) {
+      const keys = accepted[summary.lang] || [];
+      if (keys.length === 0) {
+        continue;
+      }
+      const pending = this.pendingTranslations.find(translation => translation.originalFilePath === summary.filePath);
+      if (pending) {
+        fs.writeFileSync(pending.tempFilePath, JSON.stringify(removeKeys(this.loadJsonFile(pending.tempFilePath), keys), null, 2));
+      } else {
+        const content = removeKeys(this.loadJsonFile(summary.filePath), keys);
+        this.pendingTranslations.push({ originalFilePath: summary.filePath, tempFilePath: this.createTempFile(summary.filePath, content), sourceHashes: {} });
+      }
+      summary.removedKeys = keys;
+      if (summary.status === 'up-to-date') {
+        summary.status = 'pruned';
+      }
+    }
+  }
+
+  private prepareTranslationMemory(baseLanguage: string): void {
+    const enabled = vscode.workspace.getConfiguration('i18nNexus').get<boolean>('enableTranslationMemory', true);
+    if (!enabled || !this.storagePath) {
+      this.translationMemory = null;
+    } else if (!this.translationMemory) {
+      this.translationMemory = new TranslationMemory(path.join(this.storagePath, TRANSLATION_MEMORY_FILE), this.logger);
+    }
+    this.chunkTranslator.setTranslationMemory(this.translationMemory, { sourceLang: baseLanguage });
+  }
+
+  private loadGlossary(workspaceRoot: string): void {
+    const config = vscode.workspace.getConfiguration('i18nNexus');
+    const glossaryPath = path.join(workspaceRoot, config.get<string>('glossaryPath') || DEFAULT_GLOSSARY_FILE);
+    let glossary: Glossary | null = null;
+    if (fs.existsSync(glossaryPath)) {
+      try {
+        glossary = loadGlossary(glossaryPath);
+        this.logger.logTranslation(`Loaded glossary from ${glossaryPath}`);
+      } catch (error) {
+        this.logger.error('Failed to load glossary', error, LogCategory.TRANSLATION);
+        vscode.window.showWarningMessage(`Glossary ignored: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    this.chunkTranslator.setGlossary(glossary);
+  }
+
   private async showDiffViewWithControls(mergedContent: any, chunkId: string): Promise<void> {
     try {
       this.logger.log(`=== Showing diff view for chunk ${chunkId} ===`);
@@ -324,9 +1041,11 @@ export class StreamingTranslationManager {
         this.logger.error('Original file path not found for diff view');
         return;
       }
-      const tempDiffPath = path.join(os.tmpdir(), `i18n-nexus-diff-${chunkId}.json`);
+      const tempDiffPath = this.getDiffPath(chunkId);
       fs.writeFileSync(tempDiffPath, JSON.stringify(mergedContent, null, 2));
-      this.diffTempFiles.push(tempDiffPath);
+      if (!this.diffTempFiles.includes(tempDiffPath)) {
+        this.diffTempFiles.push(tempDiffPath);
+      }
 
       const originalUri = vscode.Uri.file(this.originalFilePath);
       const diffUri = vscode.Uri.file(tempDiffPath);
@@ -348,6 +1067,55 @@ export class StreamingTranslationManager {
     }
   }
 
+  private getDiffPath(chunkId: string): string {
+    return path.join(os.tmpdir(), `i18n-nexus-diff-${chunkId}.json`);
+  }
+
+  private onKeyStreamed(chunkId: string, totalKeys: number, key: string, value: any): void {
+    const streamed = this.streamedKeys.get(chunkId) ?? { totalKeys, keys: {} };
+    streamed.keys[key] = value;
+    this.streamedKeys.set(chunkId, streamed);
+    if (this.liveChunk?.id === chunkId) {
+      this.scheduleLivePreview();
+    }
+  }
+
+  private scheduleLivePreview(): void {
+    if (this.livePreviewTimer) {
+      return;
+    }
+    this.livePreviewTimer = setTimeout(() => {
+      this.livePreviewTimer = null;
+      this.showLivePreview();
+    }, LIVE_PREVIEW_INTERVAL_MS);
+  }
+
+  /**
+   * Reports how many keys of the live chunk arrived and shows them in its diff before the chunk
+   * is applied. The diff is opened once; later updates only rewrite its file.
+   */
+  private showLivePreview(): void {
+    const live = this.liveChunk;
+    const streamed = live ? this.streamedKeys.get(live.id) : undefined;
+    if (!live || !streamed || this.translationCancelled) {
+      return;
+    }
+    const msg = `Translating ${live.id} - ${Object.keys(streamed.keys).length}/${streamed.totalKeys} keys received`;
+    this.progressBar?.report({ message: msg, increment: 0 });
+    if (!live.showDiff || !this.originalFilePath) {
+      return;
+    }
+    const preview = this.unflattenContent({ ...this.allChangesFlat, ...streamed.keys });
+    const diffPath = this.getDiffPath(live.id);
+    if (this.diffTempFiles.includes(diffPath)) {
+      fs.writeFileSync(diffPath, JSON.stringify(preview, null, 2));
+    } else {
+      this.showDiffViewWithControls(preview, live.id).catch(err =>
+        this.logger.error(`Error showing live diff for ${live.id}: ${err}`)
+      );
+    }
+  }
+
   private findKeyRange(document: vscode.TextDocument, key: string): vscode.Range | null {
     const text = document.getText();
     const lastKey = key.split('.').pop()!;
@@ -389,33 +1157,103 @@ export class StreamingTranslationManager {
     acceptedChunks: number,
     rejectedChunks: number
   ): Promise<void> {
+    const invalidKeys = results.flatMap(result => result.failedKeys);
+    const missingKeys = results.flatMap(result => result.missingKeys);
+    const applied = results.filter(result => result.applied);
+    const memoryHits = applied.reduce((sum, result) => sum + result.memoryHits, 0);
+    const tokensSaved = applied.reduce((sum, result) => sum + result.tokensSaved, 0);
+    const keyProviders = Object.assign({}, ...applied.map(result => result.keyProviders));
+    const fallbackKeys = applied.flatMap(result => result.fallbackKeys);
     const summary = `
 Translation Summary:
 - Total chunks: ${results.length}
 - Accepted chunks: ${acceptedChunks}
 - Rejected chunks: ${rejectedChunks}
+- Keys skipped (broken ICU syntax): ${invalidKeys.length}
+- Keys missing from the responses: ${missingKeys.length}
+- Translation memory hits: ${memoryHits} keys (~${tokensSaved} tokens saved)
 - Total tokens used: Input: ${totalTokens.inputTokens}, Output: ${totalTokens.outputTokens}
     `.trim();
     this.outputChannel.appendLine(summary);
-    if (this.progressBarResolve) {
-      this.progressBarResolve();
-      this.progressBarResolve = null;
+    if (invalidKeys.length > 0) {
+      this.outputChannel.appendLine(`Skipped keys: ${invalidKeys.join(', ')}`);
+    }
+    if (missingKeys.length > 0) {
+      this.outputChannel.appendLine(`Missing keys: ${missingKeys.join(', ')}`);
+    }
+    if (Object.keys(keyProviders).length > 0) {
+      this.outputChannel.appendLine(`Providers: ${describeKeyProviders(keyProviders, fallbackKeys)}`);
     }
+    if (fallbackKeys.length > 0) {
+      vscode.window.showWarningMessage(`${fallbackKeys.length} keys were translated by a fallback provider. Review them before accepting; see the output channel.`);
+    }
+    this.resolveProgressBar();
     vscode.window.showInformationMessage(`🎉 Translation completed! ${acceptedChunks} keys updated.`);
     this.showAcceptAllButtonAtEnd();
   }
 
-  private async applyFinalChanges(): Promise<void> {
+  /**
+   * @param reviewed decisions from the review panel; only their accepted keys are written
+   */
+  private async applyFinalChanges(reviewed?: ReviewItem[]): Promise<void> {
     this.logger.log(`Applying final changes...`);
-    if (!this.tempFilePath || !this.originalFilePath) {
+    const translations = this.getPendingTranslations();
+    if (translations.length === 0) {
       throw new Error('Temp/original file path missing');
     }
-    if (!fs.existsSync(this.tempFilePath)) {
-      throw new Error(`Temp file does not exist: ${this.tempFilePath}`);
+    const config = vscode.workspace.getConfiguration('i18nNexus');
+    const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+    const baseFilePath = path.join(workspaceRoot, config.get<string>('basePath') || '', `${config.get<string>('baseLanguage')}.json`);
+    const sourceLock = this.loadSourceLock(workspaceRoot);
+    for (const { tempFilePath, originalFilePath, sourceHashes } of translations) {
+      if (!fs.existsSync(tempFilePath)) {
+        throw new Error(`Temp file does not exist: ${tempFilePath}`);
+      }
+      let content = fs.readFileSync(tempFilePath, 'utf8');
+      let translated = sourceHashes;
+      if (reviewed) {
+        const items = reviewed.filter(item => item.filePath === originalFilePath);
+        const current = fs.existsSync(originalFilePath) ? this.loadJsonFile(originalFilePath) : {};
+        content = JSON.stringify(applyReviewDecisions(current, items), null, 2);
+        // Rejected keys keep the hash of the translation that is still on disk
+        const acceptedKeys = new Set(items.filter(item => item.accepted).map(item => item.key));
+        translated = Object.fromEntries(Object.entries(sourceHashes).filter(([key]) => acceptedKeys.has(key)));
+      }
+      fs.writeFileSync(originalFilePath, content);
+      this.sessionStore.delete(originalFilePath);
+      this.logger.log(`Final changes applied to ${originalFilePath}`);
+      this.recordSourceHashes(sourceLock, baseFilePath, originalFilePath, JSON.parse(content), translated);
     }
-    const content = fs.readFileSync(this.tempFilePath, 'utf8');
-    fs.writeFileSync(this.originalFilePath, content);
-    this.logger.log(`Final changes applied to ${this.originalFilePath}`);
+    sourceLock.save();
+  }
+
+  private loadSourceLock(workspaceRoot: string): SourceLock {
+    return new SourceLock(path.join(workspaceRoot, LOCK_FILE_NAME), this.logger);
+  }
+
+  /** Records in the lock file which base values the written translations of `filePath` were made from. */
+  private recordSourceHashes(
+    sourceLock: SourceLock,
+    baseFilePath: string,
+    filePath: string,
+    content: Record<string, any>,
+    translated: Record<string, string>
+  ): void {
+    if (!fs.existsSync(baseFilePath)) {
+      this.logger.warn(`Base language file not found, ${LOCK_FILE_NAME} is not updated: ${baseFilePath}`, LogCategory.TRANSLATION);
+      return;
+    }
+    const lang = path.parse(filePath).name;
+    const reference: SourceReference = { hashes: sourceLock.getHashes(lang), original: this.getOriginalBaseContent(baseFilePath) };
+    sourceLock.setHashes(lang, collectSourceHashes(this.loadJsonFile(baseFilePath), content, reference, translated));
+  }
+
+  private getPendingTranslations(): PendingTranslation[] {
+    const translations = [...this.pendingTranslations];
+    if (this.tempFilePath && this.originalFilePath) {
+      translations.push({ tempFilePath: this.tempFilePath, originalFilePath: this.originalFilePath, sourceHashes: this.sourceHashes });
+    }
+    return translations;
   }
 
   private async updateProgress(
@@ -435,6 +1273,12 @@ Translation Summary:
     this.outputChannel.appendLine(msg);
   }
 
+  private reportRetry(notice: RetryNotice): void {
+    const msg = `${notice.provider} is rate limited or unavailable, retry ${notice.attempt}/${notice.maxRetries} in ${Math.ceil(notice.delayMs / 1000)}s`;
+    this.progressBar?.report({ message: msg, increment: 0 });
+    this.outputChannel.appendLine(`${msg} (${notice.reason})`);
+  }
+
   private async showProgressBar(totalChunks: number): Promise<void> {
     return vscode.window.withProgress({
       location: vscode.ProgressLocation.Notification,
@@ -463,7 +1307,7 @@ Translation Summary:
   }
 
   private showControlButtonsInStatusBar(): void {
-    if (this.isTranslationActive) {
+    if (this.isTranslationActive && !this.cancelItem) {
       const cancelItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 99);
       cancelItem.text = "🛑 Cancel Translation";
       cancelItem.tooltip = "Cancel the current translation process";
@@ -480,6 +1324,20 @@ Translation Summary:
     acceptAllItem.command = 'i18n-nexus.acceptAllChanges';
     acceptAllItem.show();
     this.acceptAllItem = acceptAllItem;
+    if (!this.reviewItem) {
+      this.reviewItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 97);
+      this.reviewItem.text = "$(checklist) Review Changes";
+      this.reviewItem.tooltip = "Accept, reject or edit the translated changes key by key";
+      this.reviewItem.command = 'i18n-nexus.reviewChanges';
+    }
+    this.reviewItem.show();
+  }
+
+  private resolveProgressBar(): void {
+    if (this.progressBarResolve) {
+      this.progressBarResolve();
+      this.progressBarResolve = null;
+    }
   }
 
   private hideProgressBar(): void {
@@ -489,88 +1347,42 @@ Translation Summary:
   private hideStatusBar(): void {
     this.statusBarItem?.dispose();
     this.acceptAllItem?.dispose();
+    this.reviewItem?.dispose();
     this.cancelItem?.dispose();
-    this.statusBarItem = this.acceptAllItem = this.cancelItem = null;
+    this.statusBarItem = this.acceptAllItem = this.reviewItem = this.cancelItem = null;
   }
 
   private cleanup(): void {
     if (this.tempFilePath && fs.existsSync(this.tempFilePath)) {
       try { fs.unlinkSync(this.tempFilePath); } catch {}
     }
+    for (const pending of this.pendingTranslations) {
+      if (fs.existsSync(pending.tempFilePath)) {
+        try { fs.unlinkSync(pending.tempFilePath); } catch {}
+      }
+    }
+    this.pendingTranslations = [];
     for (const diffPath of this.diffTempFiles) {
       if (fs.existsSync(diffPath)) {
         try { fs.unlinkSync(diffPath); } catch {}
       }
     }
     this.diffTempFiles = [];
+    if (this.livePreviewTimer) {
+      clearTimeout(this.livePreviewTimer);
+      this.livePreviewTimer = null;
+    }
+    this.streamedKeys.clear();
     this.diffViewer.cleanup();
     this.tempFilePath = this.originalFilePath = null;
     this.allChangesFlat = {};
+    this.sourceHashes = {};
   }
 
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  /**
-   * Optimizes chunking strategy based on content characteristics and LLM provider
-   * This helps reduce the number of API calls for large files while considering provider limitations
-   */
-  private optimizeChunkingStrategy(obj: Record<string, any>): { chunkSize: number; maxKeysPerChunk: number } {
-    const keys = Object.keys(obj);
-    const totalKeys = keys.length;
-    const totalSize = JSON.stringify(obj, null, 2).length;
-    
-    // Get current LLM provider to adjust strategy
-    const config = vscode.workspace.getConfiguration('i18nNexus');
-    const llmProvider = config.get<string>('llmProvider', 'openai');
-    
-    // Provider-specific optimization strategies
-    switch (llmProvider) {
-      case 'ollama':
-        // Ollama: Conservative chunking for local processing
-        if (totalKeys > 1000) return { chunkSize: 8000, maxKeysPerChunk: 50 };
-        if (totalKeys > 500) return { chunkSize: 6000, maxKeysPerChunk: 40 };
-        if (totalKeys > 100) return { chunkSize: 5000, maxKeysPerChunk: 30 };
-        return { chunkSize: 4000, maxKeysPerChunk: 20 };
-        
-      case 'openai':
-        // OpenAI: Balanced chunking for cloud processing
-        if (totalKeys > 1000) return { chunkSize: 12000, maxKeysPerChunk: 80 };
-        if (totalKeys > 500) return { chunkSize: 10000, maxKeysPerChunk: 60 };
-        if (totalKeys > 100) return { chunkSize: 8000, maxKeysPerChunk: 40 };
-        return { chunkSize: 6000, maxKeysPerChunk: 25 };
-        
-      case 'claude':
-        // Claude: Moderate chunking for cloud processing
-        if (totalKeys > 1000) return { chunkSize: 15000, maxKeysPerChunk: 100 };
-        if (totalKeys > 500) return { chunkSize: 12000, maxKeysPerChunk: 70 };
-        if (totalKeys > 100) return { chunkSize: 10000, maxKeysPerChunk: 50 };
-        return { chunkSize: 8000, maxKeysPerChunk: 30 };
-        
-      case 'gemini':
-        // Gemini: Conservative chunking due to rate limits
-        if (totalKeys > 1000) return { chunkSize: 10000, maxKeysPerChunk: 60 };
-        if (totalKeys > 500) return { chunkSize: 8000, maxKeysPerChunk: 45 };
-        if (totalKeys > 100) return { chunkSize: 6000, maxKeysPerChunk: 35 };
-        return { chunkSize: 5000, maxKeysPerChunk: 20 };
-        
-      case 'openai-compatible':
-        // OpenAI-compatible: Balanced chunking
-        if (totalKeys > 1000) return { chunkSize: 12000, maxKeysPerChunk: 80 };
-        if (totalKeys > 500) return { chunkSize: 10000, maxKeysPerChunk: 60 };
-        if (totalKeys > 100) return { chunkSize: 8000, maxKeysPerChunk: 40 };
-        return { chunkSize: 6000, maxKeysPerChunk: 25 };
-        
-      default:
-        // Default: Conservative chunking for unknown providers
-        if (totalKeys > 1000) return { chunkSize: 10000, maxKeysPerChunk: 60 };
-        if (totalKeys > 500) return { chunkSize: 8000, maxKeysPerChunk: 45 };
-        if (totalKeys > 100) return { chunkSize: 6000, maxKeysPerChunk: 35 };
-        return { chunkSize: 5000, maxKeysPerChunk: 20 };
-    }
-  }
-
   private async translateChunk(
     chunk: Record<string, any>,
     lang: string,
@@ -580,242 +1392,55 @@ Translation Summary:
   ): Promise<StreamingTranslationResult> {
     const startLine = (chunkNumber - 1) * this.chunkSize;
     const endLine = startLine + Object.keys(chunk).length;
-    const result = await this.llmService.translate(chunk, lang);
-    this.logTranslationStructures(
-      chunkId,
+    const totalKeys = Object.keys(chunk).length;
+    const result = await this.chunkTranslator.translateChunk(
       chunk,
-      result.translatedContent,
-      this.unflattenContent(result.translatedContent)
+      lang,
+      chunkId,
+      this.keyNotes,
+      (key, value) => this.onKeyStreamed(chunkId, totalKeys, key, value)
     );
     return {
-      chunkId,
-      originalContent: chunk,
-      translatedContent: result.translatedContent,
-      tokensUsed: result.tokensUsed,
+      ...result,
       startLine,
       endLine,
       applied: false
     };
   }
 
-  private splitIntoChunks(obj: Record<string, any>, chunkSize: number): Record<string, any>[] {
-    const chunks: Record<string, any>[] = [];
-    const keys = Object.keys(obj);
-    
-    // If we have very few keys, just return one chunk
-    if (keys.length <= 10) {
-      return [obj];
-    }
-    
-    // Get optimized chunking strategy based on content size and provider
-    const strategy = this.optimizeChunkingStrategy(obj);
-    const optimalChunkSize = Math.max(chunkSize, strategy.chunkSize);
-    const maxKeysPerChunk = strategy.maxKeysPerChunk;
-    
-    // Get current LLM provider for additional optimizations
+  private splitIntoChunks(obj: Record<string, any>, targetLang: string): Record<string, any>[] {
     const config = vscode.workspace.getConfiguration('i18nNexus');
-    const llmProvider = config.get<string>('llmProvider', 'openai');
-    
-    // Provider-specific optimizations
-    const isOllama = llmProvider === 'ollama';
-    const isLocalProvider = llmProvider === 'ollama';
-    const isRateLimitedProvider = llmProvider === 'gemini';
-    
-    // Calculate total content size for logging
-    const totalContentSize = JSON.stringify(obj, null, 2).length;
-    
-    let currentChunk: Record<string, any> = {};
-    let currentSize = 0;
-    let keysInCurrentChunk = 0;
-    
-    // Sorting strategy based on provider
-    let sortedKeys: string[];
-    if (isLocalProvider) {
-      // For local providers, use simpler sorting to avoid complex processing
-      sortedKeys = keys;
-    } else if (isRateLimitedProvider) {
-      // For rate-limited providers, sort by size to better distribute load
-      sortedKeys = keys.sort((a, b) => {
-        const aSize = JSON.stringify(obj[a]).length;
-        const bSize = JSON.stringify(obj[b]).length;
-        return bSize - aSize; // Sort by descending size
-      });
-    } else {
-      // For cloud providers, use balanced sorting
-      sortedKeys = keys.sort((a, b) => {
-        const aSize = JSON.stringify(obj[a]).length;
-        const bSize = JSON.stringify(obj[b]).length;
-        return bSize - aSize; // Sort by descending size
-      });
-    }
-    
-    for (const key of sortedKeys) {
-      const value = obj[key];
-      const keyValuePair = { [key]: value };
-      const pairSize = JSON.stringify(keyValuePair, null, 2).length;
-      
-      // Provider-specific thresholds
-      let sizeThreshold: number;
-      let keyThreshold: number;
-      
-      if (isLocalProvider) {
-        // Local providers: more conservative
-        sizeThreshold = optimalChunkSize * 0.7;
-        keyThreshold = Math.min(maxKeysPerChunk, 25);
-      } else if (isRateLimitedProvider) {
-        // Rate-limited providers: very conservative
-        sizeThreshold = optimalChunkSize * 0.6;
-        keyThreshold = Math.min(maxKeysPerChunk, 20);
-      } else {
-        // Cloud providers: balanced
-        sizeThreshold = optimalChunkSize * 0.8;
-        keyThreshold = maxKeysPerChunk;
-      }
-      
-      // Start a new chunk if:
-      // 1. Current chunk is getting too large, OR
-      // 2. We have too many keys in current chunk, OR
-      // 3. Current chunk is already substantial and adding this would make it too large
-      const shouldStartNewChunk = (currentSize + pairSize > sizeThreshold && keysInCurrentChunk > 0) || 
-                                  keysInCurrentChunk >= keyThreshold ||
-                                  (isLocalProvider && currentSize > sizeThreshold * 0.6 && pairSize > sizeThreshold * 0.3) ||
-                                  (isRateLimitedProvider && currentSize > sizeThreshold * 0.5 && pairSize > sizeThreshold * 0.2);
-      
-      if (shouldStartNewChunk) {
-        chunks.push(currentChunk);
-        currentChunk = { [key]: value };
-        currentSize = pairSize;
-        keysInCurrentChunk = 1;
-      } else {
-        currentChunk[key] = value;
-        currentSize += pairSize;
-        keysInCurrentChunk++;
-      }
-    }
-    
-    // Add the last chunk if it has content
-    if (Object.keys(currentChunk).length > 0) {
-      chunks.push(currentChunk);
-    }
-    
-    // Log chunking statistics for debugging
-    const avgKeysPerChunk = Math.round(keys.length / chunks.length);
-    const avgSizePerChunk = Math.round(totalContentSize / chunks.length);
-    
-    // Provider-specific logging
-    let providerInfo = '';
-    if (isLocalProvider) {
-      providerInfo = ' (Local provider optimized)';
-    } else if (isRateLimitedProvider) {
-      providerInfo = ' (Rate-limited provider optimized)';
-    } else {
-      providerInfo = ' (Cloud provider optimized)';
-    }
-    
-    this.logger.log(`Chunking optimization: ${keys.length} keys split into ${chunks.length} chunks (avg ${avgKeysPerChunk} keys, ${avgSizePerChunk} chars per chunk, max ${maxKeysPerChunk} keys per chunk)${providerInfo}`);
-    
-    return chunks;
+    return splitIntoChunks(obj, {
+      // Sized for the model the language is routed to
+      ...this.llmService.getLanguageModel(targetLang),
+      targetLang,
+      maxKeysPerChunk: this.chunkSize,
+      strategy: config.get<ChunkingStrategy>('chunkingStrategy', 'size')
+    }, this.logger);
   }
 
   private loadJsonFile(filePath: string): any {
-    return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    return loadJsonFile(filePath);
   }
 
-  private getOriginalBaseContent(filePath: string): any {
-    try {
-      const snap = `${filePath}.original`;
-      if (fs.existsSync(snap)) {
-        return this.loadJsonFile(snap);
-      }
-      return this.loadJsonFile(filePath);
-    } catch (e) {
-      this.logger.warn(`Could not get original content: ${e}`);
-      return this.loadJsonFile(filePath);
-    }
+  private getOriginalBaseContent(filePath: string): Record<string, any> | undefined {
+    return getOriginalBaseContent(filePath, this.logger);
   }
 
   private prepareTranslationContent(
     baseContent: Record<string, any>,
     targetContent: Record<string, any>,
-    originalBaseContent: Record<string, any>
+    reference: SourceReference
   ): Record<string, any> {
-    const nestedDiff: Record<string, any> = {};
-    this.deepCompare(baseContent, targetContent, originalBaseContent, nestedDiff);
-    return this.flattenNestedContent(nestedDiff);
+    return prepareTranslationContent(baseContent, targetContent, reference);
   }
 
-  private deepCompare(
-    base: Record<string, any>,
-    target: Record<string, any>,
-    original: Record<string, any>,
-    result: Record<string, any>,
-    currentPath: string = ''
-  ): void {
-    for (const key in base) {
-      const newPath = currentPath ? `${currentPath}.${key}` : key;
-      const bVal = base[key];
-      const tVal = target[key];
-      const oVal = this.getNestedValue(original, newPath);
-
-      if (bVal !== null && typeof bVal === 'object' && !Array.isArray(bVal)) {
-        this.deepCompare(
-          bVal,
-          (typeof tVal === 'object' && tVal) || {},
-          (typeof oVal === 'object' && oVal) || {},
-          result,
-          newPath
-        );
-      } else {
-        const needs = !(key in target) ||
-          tVal === '' ||
-          (original && oVal !== bVal) ||
-          (key in target && tVal !== bVal);
-        if (needs) {
-          result[newPath] = bVal;
-        }
-      }
-    }
-    for (const key in target) {
-      if (!(key in base)) {
-        const newPath = currentPath ? `${currentPath}.${key}` : key;
-        result[newPath] = null;
-      }
-    }
-  }
-
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((o, i) => (o ? o[i] : undefined), obj);
-  }
-
-  private flattenNestedContent(obj: Record<string, any>, parentKey = ''): Record<string, any> {
-    const out: Record<string, any> = {};
-    for (const key of Object.keys(obj)) {
-      const dotted = parentKey ? `${parentKey}.${key}` : key;
-      const val = obj[key];
-      if (val !== null && typeof val === 'object' && !Array.isArray(val)) {
-        Object.assign(out, this.flattenNestedContent(val, dotted));
-      } else {
-        out[dotted] = val;
-      }
-    }
-    return out;
+  private flattenNestedContent(obj: Record<string, any>): Record<string, any> {
+    return flattenNestedContent(obj);
   }
 
   private unflattenContent(flat: Record<string, any>): Record<string, any> {
-    const result: Record<string, any> = {};
-    for (const dotted of Object.keys(flat)) {
-      const parts = dotted.split('.');
-      let cursor: Record<string, any> = result;
-      for (let i = 0; i < parts.length - 1; i++) {
-        const part = parts[i];
-        if (!cursor[part] || typeof cursor[part] !== 'object') {
-          cursor[part] = {};
-        }
-        cursor = cursor[part];
-      }
-      cursor[parts[parts.length - 1]] = flat[dotted];
-    }
-    return result;
+    return unflattenContent(flat);
   }
 
   private convertLLMResponseToOriginalStructureNew(
@@ -852,10 +1477,7 @@ Translation Summary:
     this.logger.log('Translation cancelled by user');
     this.translationCancelled = true;
     this.isTranslationActive = false;
-    if (this.progressBarResolve) {
-      this.progressBarResolve();
-      this.progressBarResolve = null;
-    }
+    this.resolveProgressBar();
     if (this.cancelItem) {
       this.cancelItem.dispose();
       this.cancelItem = null;
@@ -863,6 +1485,54 @@ Translation Summary:
     this.showAcceptAllButtonAtEnd();
   }
 
+  /**
+   * Opens the review panel for everything pending and writes only the accepted keys on Apply.
+   */
+  public async reviewChanges(): Promise<void> {
+    const translations = this.getPendingTranslations();
+    if (translations.length === 0 || !translations.every(t => fs.existsSync(t.tempFilePath))) {
+      vscode.window.showErrorMessage('No changes to review. Please start a translation first.');
+      return;
+    }
+    try {
+      const config = vscode.workspace.getConfiguration('i18nNexus');
+      const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+      const baseFilePath = path.join(workspaceRoot, config.get<string>('basePath') || '', `${config.get<string>('baseLanguage')}.json`);
+      const baseContent = fs.existsSync(baseFilePath) ? this.loadJsonFile(baseFilePath) : {};
+      const items = buildReviewItems(baseContent, translations.map(({ originalFilePath, tempFilePath }) => ({
+        lang: path.parse(originalFilePath).name,
+        filePath: originalFilePath,
+        current: fs.existsSync(originalFilePath) ? this.loadJsonFile(originalFilePath) : {},
+        proposed: this.loadJsonFile(tempFilePath)
+      })));
+      if (items.length === 0) {
+        vscode.window.showInformationMessage('The translated files do not change any key.');
+        return;
+      }
+
+      const reviewed = await TranslationReviewPanel.show(items);
+      if (!reviewed) {
+        this.logger.log('Review closed without applying, changes stay pending');
+        return;
+      }
+      const accepted = reviewed.filter(item => item.accepted).length;
+      await this.applyFinalChanges(reviewed);
+      this.logger.logTranslation(`Review applied: ${accepted} of ${reviewed.length} changes accepted`);
+      vscode.window.showInformationMessage(`✅ ${accepted} of ${reviewed.length} changes applied.`);
+      this.hideAcceptButtons();
+      this.cleanup();
+    } catch (error) {
+      this.logger.error('Error applying reviewed changes', error, LogCategory.TRANSLATION);
+      vscode.window.showErrorMessage(`Error applying changes: ${error}`);
+    }
+  }
+
+  private hideAcceptButtons(): void {
+    this.acceptAllItem?.dispose();
+    this.reviewItem?.dispose();
+    this.acceptAllItem = this.reviewItem = null;
+  }
+
   public isActive(): boolean {
     return this.isTranslationActive;
   }
@@ -870,15 +1540,17 @@ Translation Summary:
   public acceptAllChanges(): void {
     try {
       this.logger.log('Accept all changes triggered');
-      if (this.tempFilePath && this.originalFilePath) {
-        if (fs.existsSync(this.tempFilePath)) {
+      const translations = this.getPendingTranslations();
+      if (translations.length > 0) {
+        if (translations.every(t => fs.existsSync(t.tempFilePath))) {
           this.applyFinalChanges().then(() => {
             this.logger.log('All changes applied to original file');
-            vscode.window.showInformationMessage('✅ All changes applied to original file!');
-            if (this.acceptAllItem) {
-              this.acceptAllItem.dispose();
-              this.acceptAllItem = null;
-            }
+            vscode.window.showInformationMessage(
+              translations.length > 1
+                ? `✅ All changes applied to ${translations.length} locale files!`
+                : '✅ All changes applied to original file!'
+            );
+            this.hideAcceptButtons();
             this.cleanup();
           }).catch(error => {
             this.logger.error(`Error applying final changes: ${error}`);
@@ -0,0 +1,90 @@
+import type { Tiktoken } from 'js-tiktoken/lite' with { 'resolution-mode': 'import' };
+
+/**
+ * Token counting for chunk budgets. OpenAI models get the exact BPE of their encoding;
+ * providers without a public tokenizer (Gemini, Claude, local models) get a
+ * script-aware estimate that errs on the high side.
+ */
+
+export type TokenizerKind = 'o200k_base' | 'cl100k_base' | 'estimate';
+
+export interface Tokenizer {
+    readonly kind: TokenizerKind;
+    count(text: string): number;
+}
+
+type TiktokenLite = typeof import('js-tiktoken/lite', { with: { 'resolution-mode': 'import' } });
+
+/**
+ * js-tiktoken is an ES module with a CommonJS build, so it is loaded through `require`;
+ * the rank tables are several megabytes and only loaded when an OpenAI model is used.
+ */
+function loadEncoding(kind: 'o200k_base' | 'cl100k_base'): Tiktoken {
+    const { Tiktoken: TiktokenClass }: TiktokenLite = require('js-tiktoken/lite');
+    return new TiktokenClass(require(`js-tiktoken/ranks/${kind}`));
+}
+
+class BpeTokenizer implements Tokenizer {
+    private encoding: Tiktoken | undefined;
+
+    constructor(public readonly kind: 'o200k_base' | 'cl100k_base') {}
+
+    public count(text: string): number {
+        this.encoding ??= loadEncoding(this.kind);
+        return this.encoding.encode(text).length;
+    }
+}
+
+/** Approximate tokens per character by script, taken from typical BPE vocabularies */
+const SCRIPT_COSTS: Array<{ pattern: RegExp; cost: number }> = [
+    { pattern: /[\x00-\x7f]/, cost: 0.25 },
+    // Accented Latin, Greek, Cyrillic, Armenian, Hebrew and Arabic
+    { pattern: /[\u0080-\u06ff\u0750-\u077f\u1e00-\u1fff\ufb1d-\ufdff\ufe70-\ufeff]/, cost: 0.5 }
+];
+
+/** CJK, kana, Hangul, Thai, Indic scripts and emoji take about a token per character */
+function characterCost(char: string): number {
+    return SCRIPT_COSTS.find(({ pattern }) => pattern.test(char))?.cost ?? 1;
+}
+
+class EstimatingTokenizer implements Tokenizer {
+    public readonly kind = 'estimate';
+
+    public count(text: string): number {
+        let tokens = 0;
+        for (const char of text) {
+            tokens += characterCost(char);
+        }
+        return Math.ceil(tokens);
+    }
+}
+
+const tokenizers = new Map<TokenizerKind, Tokenizer>();
+
+export function getTokenizer(kind: TokenizerKind): Tokenizer {
+    let tokenizer = tokenizers.get(kind);
+    if (!tokenizer) {
+        tokenizer = kind === 'estimate' ? new EstimatingTokenizer() : new BpeTokenizer(kind);
+        tokenizers.set(kind, tokenizer);
+    }
+    return tokenizer;
+}
+
+/**
+ * How many tokens the translation of one source token takes. Tokenizers are trained mostly
+ * on English, so scripts far from Latin need noticeably more tokens for the same text.
+ */
+const OUTPUT_EXPANSION: Array<{ languages: string[]; factor: number }> = [
+    { languages: ['th', 'hi', 'bn', 'ta', 'te', 'mr', 'gu', 'kn', 'ml', 'pa', 'si', 'my', 'km', 'lo', 'am', 'ne'], factor: 2.5 },
+    { languages: ['ar', 'fa', 'he', 'ur', 'ps', 'yi'], factor: 2 },
+    { languages: ['ru', 'uk', 'bg', 'sr', 'mk', 'be', 'kk', 'el', 'hy', 'ka', 'mn'], factor: 1.8 },
+    { languages: ['zh', 'ja', 'ko'], factor: 1.5 },
+    { languages: ['de', 'fr', 'es', 'it', 'pt', 'nl', 'pl', 'cs', 'sk', 'hu', 'ro', 'fi', 'tr', 'vi'], factor: 1.4 }
+];
+
+const DEFAULT_OUTPUT_EXPANSION = 1.3;
+
+export function getOutputExpansion(targetLang: string): number {
+    const language = targetLang.toLowerCase().split(/[-_]/)[0];
+    return OUTPUT_EXPANSION.find(({ languages }) => languages.includes(language))?.factor ?? DEFAULT_OUTPUT_EXPANSION;
+}
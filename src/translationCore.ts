@@ -0,0 +1,451 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { isMetadataKey } from './keyNotes';
+import { hashSourceValue } from './sourceLock';
+import { getModelLimits } from './provider-config';
+import { getOutputExpansion, getTokenizer } from './tokenizer';
+
+/**
+ * Editor-independent diff and chunking helpers shared by the VS Code extension and the CLI.
+ * Nothing in this module may depend on the `vscode` API at runtime.
+ */
+
+/**
+ * `namespace` keeps keys that share a dotted prefix in the same chunk so the model sees
+ * related strings together; `size` packs the largest strings first for evenly sized chunks.
+ */
+export type ChunkingStrategy = 'namespace' | 'size';
+
+export interface ChunkingOptions {
+  llmProvider: string;
+  llmModel?: string;
+  /** Context window the provider is asked for instead of the model's, e.g. Ollama's `num_ctx` */
+  contextWindow?: number;
+  targetLang: string;
+  /** Upper bound on keys per chunk (`i18nNexus.chunkSize`) on top of the token budget; 0 for none */
+  maxKeysPerChunk: number;
+  /** Defaults to `size` */
+  strategy?: ChunkingStrategy;
+}
+
+interface KeyCost {
+  key: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * What a target translation was made from, to tell which base values changed since.
+ */
+export interface SourceReference {
+  /** Hashes of the base values the translations were made from, by dotted key (see `SourceLock`) */
+  hashes: Record<string, string>;
+  /** Legacy `<base>.json.original` snapshot, only consulted for keys without a hash */
+  original?: Record<string, any>;
+}
+
+export function loadJsonFile(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+/**
+ * The legacy `<base>.json.original` snapshot, if there is one. It only decides staleness for keys
+ * that have no hash in the lock file yet.
+ */
+export function getOriginalBaseContent(filePath: string, logger: Logger): Record<string, any> | undefined {
+  const snap = `${filePath}.original`;
+  try {
+    return fs.existsSync(snap) ? loadJsonFile(snap) : undefined;
+  } catch (e) {
+    logger.warn(`Could not read ${snap}: ${e}`);
+    return undefined;
+  }
+}
+
+export function prepareTranslationContent(
+  baseContent: Record<string, any>,
+  targetContent: Record<string, any>,
+  reference: SourceReference
+): Record<string, any> {
+  const nestedDiff: Record<string, any> = {};
+  deepCompare(baseContent, targetContent, reference, nestedDiff);
+  return flattenNestedContent(nestedDiff);
+}
+
+/**
+ * - `missing`: in base, not in the target
+ * - `empty`: in the target as an empty string
+ * - `stale`: the base value changed since the translation was made
+ * - `orphaned`: in the target, no longer in base
+ * - `current`: none of the above
+ */
+export type KeyState = 'missing' | 'empty' | 'stale' | 'orphaned' | 'current';
+
+export interface LocaleStatus {
+  missing: string[];
+  empty: string[];
+  stale: string[];
+  orphaned: string[];
+}
+
+/**
+ * Walks base and target together and reports the state of every message key by dotted path.
+ */
+export function compareLocale(
+  base: Record<string, any>,
+  target: Record<string, any>,
+  reference: SourceReference,
+  visit: (path: string, state: KeyState, baseValue: any, targetValue: any) => void,
+  currentPath: string = ''
+): void {
+  for (const key in base) {
+    if (isMetadataKey(key)) {
+      continue;
+    }
+    const newPath = currentPath ? `${currentPath}.${key}` : key;
+    const bVal = base[key];
+    const tVal = target[key];
+
+    if (bVal !== null && typeof bVal === 'object' && !Array.isArray(bVal)) {
+      compareLocale(bVal, (typeof tVal === 'object' && tVal) || {}, reference, visit, newPath);
+    } else if (!(key in target)) {
+      visit(newPath, 'missing', bVal, undefined);
+    } else if (tVal === '') {
+      visit(newPath, 'empty', bVal, tVal);
+    } else if (isStale(newPath, bVal, reference)) {
+      visit(newPath, 'stale', bVal, tVal);
+    } else {
+      visit(newPath, 'current', bVal, tVal);
+    }
+  }
+  for (const key in target) {
+    if (!(key in base) && !isMetadataKey(key)) {
+      visit(currentPath ? `${currentPath}.${key}` : key, 'orphaned', undefined, target[key]);
+    }
+  }
+}
+
+function isStale(path: string, baseValue: any, reference: SourceReference): boolean {
+  const hash = reference.hashes[path];
+  if (hash !== undefined) {
+    return hash !== hashSourceValue(baseValue);
+  }
+  return !!reference.original && getNestedValue(reference.original, path) !== baseValue;
+}
+
+/**
+ * Collects the base values that need translating. Orphaned keys are not part of it; they are
+ * reviewed separately (`findOrphanedKeys`) and deleted with `removeKeys`.
+ */
+export function deepCompare(
+  base: Record<string, any>,
+  target: Record<string, any>,
+  reference: SourceReference,
+  result: Record<string, any>
+): void {
+  compareLocale(base, target, reference, (path, state, bVal) => {
+    if (state !== 'current' && state !== 'orphaned') {
+      result[path] = bVal;
+    }
+  });
+}
+
+/**
+ * Keys of the target that no longer exist in base. A whole removed namespace is reported once.
+ */
+export function findOrphanedKeys(base: Record<string, any>, target: Record<string, any>): string[] {
+  const orphaned: string[] = [];
+  compareLocale(base, target, { hashes: {} }, (path, state) => {
+    if (state === 'orphaned') {
+      orphaned.push(path);
+    }
+  });
+  return orphaned;
+}
+
+/**
+ * Copy of nested `content` without the given dotted keys. Parent objects left empty by a
+ * removal are removed as well; other empty objects are kept.
+ */
+export function removeKeys(content: Record<string, any>, keys: string[]): Record<string, any> {
+  const result = JSON.parse(JSON.stringify(content));
+  for (const key of keys) {
+    const parts = key.split('.');
+    const parents: Record<string, any>[] = [result];
+    for (const part of parts.slice(0, -1)) {
+      const next = parents[parents.length - 1][part];
+      if (!next || typeof next !== 'object' || Array.isArray(next)) {
+        break;
+      }
+      parents.push(next);
+    }
+    if (parents.length !== parts.length || !(parts[parts.length - 1] in parents[parents.length - 1])) {
+      continue;
+    }
+    delete parents[parents.length - 1][parts[parts.length - 1]];
+    for (let i = parents.length - 1; i > 0 && Object.keys(parents[i]).length === 0; i--) {
+      delete parents[i - 1][parts[i - 1]];
+    }
+  }
+  return result;
+}
+
+/**
+ * `<lang>.json` files next to the base language file, without the base itself and `<lang>.meta.json` notes.
+ */
+export function listLocaleFiles(localeDir: string, baseLanguage: string): Array<{ lang: string; filePath: string }> {
+  return fs.readdirSync(localeDir)
+    .filter(fileName => fileName.endsWith('.json') && !fileName.endsWith('.meta.json') && fileName !== `${baseLanguage}.json`)
+    .sort()
+    .map(fileName => ({ lang: path.basename(fileName, '.json'), filePath: path.join(localeDir, fileName) }));
+}
+
+/**
+ * Hashes to record for a target after it was written. Keys translated in this run get the hash
+ * of the value they were translated from; other up-to-date keys keep theirs, and keys that were
+ * never tracked adopt the current base value. Stale keys keep their old hash so they stay stale.
+ */
+export function collectSourceHashes(
+  base: Record<string, any>,
+  target: Record<string, any>,
+  reference: SourceReference,
+  translated: Record<string, string>
+): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  compareLocale(base, target, reference, (path, state, bVal) => {
+    if (path in translated) {
+      hashes[path] = translated[path];
+    } else if (state === 'current') {
+      hashes[path] = reference.hashes[path] ?? hashSourceValue(bVal);
+    } else if (state === 'stale' && reference.hashes[path]) {
+      hashes[path] = reference.hashes[path];
+    }
+  });
+  return hashes;
+}
+
+/**
+ * Counts of keys that need work in one locale, for the Translation Status view.
+ */
+export function getLocaleStatus(
+  base: Record<string, any>,
+  target: Record<string, any>,
+  reference: SourceReference
+): LocaleStatus {
+  const status: LocaleStatus = { missing: [], empty: [], stale: [], orphaned: [] };
+  compareLocale(base, target, reference, (path, state) => {
+    if (state !== 'current') {
+      status[state].push(path);
+    }
+  });
+  return status;
+}
+
+/**
+ * Offset of a dotted key's property name in a JSON document. Each segment is looked up after
+ * the previous one, which is enough to tell `home.title` from `about.title`. When a segment
+ * is not found the offset of its closest parent is returned, or -1 if there is none.
+ */
+export function findKeyOffset(text: string, dottedKey: string): number {
+  let offset = 0;
+  let found = -1;
+  for (const segment of dottedKey.split('.')) {
+    const match = new RegExp(`${escapeRegExp(JSON.stringify(segment))}\\s*:`).exec(text.slice(offset));
+    if (!match) {
+      return found;
+    }
+    found = offset + match.index;
+    offset = found + match[0].length;
+  }
+  return found;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((o, i) => (o ? o[i] : undefined), obj);
+}
+
+/** Sets a dotted key, creating (or replacing non-object) parents on the way. */
+export function setNestedValue(obj: Record<string, any>, path: string, value: any): void {
+  const parts = path.split('.');
+  let cursor = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (!cursor[part] || typeof cursor[part] !== 'object' || Array.isArray(cursor[part])) {
+      cursor[part] = {};
+    }
+    cursor = cursor[part];
+  }
+  cursor[parts[parts.length - 1]] = value;
+}
+
+export function flattenNestedContent(obj: Record<string, any>, parentKey = ''): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const key of Object.keys(obj)) {
+    const dotted = parentKey ? `${parentKey}.${key}` : key;
+    const val = obj[key];
+    if (val !== null && typeof val === 'object' && !Array.isArray(val)) {
+      Object.assign(out, flattenNestedContent(val, dotted));
+    } else {
+      out[dotted] = val;
+    }
+  }
+  return out;
+}
+
+export function unflattenContent(flat: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const dotted of Object.keys(flat)) {
+    const parts = dotted.split('.');
+    let cursor: Record<string, any> = result;
+    for (let i = 0; i < parts.length - 1; i++) {
+      const part = parts[i];
+      if (!cursor[part] || typeof cursor[part] !== 'object') {
+        cursor[part] = {};
+      }
+      cursor = cursor[part];
+    }
+    cursor[parts[parts.length - 1]] = flat[dotted];
+  }
+  return result;
+}
+
+/** Instructions, glossary entries, notes and the response schema sent with every chunk */
+const PROMPT_OVERHEAD_TOKENS = 1500;
+
+/** Room left for estimator error, retries with feedback and the model's JSON punctuation */
+const TOKEN_SAFETY_MARGIN = 0.85;
+
+/**
+ * Groups keys by their first `depth` dotted segments, keeping the order in which groups first appear.
+ */
+function groupByNamespace(costs: KeyCost[], depth: number): KeyCost[][] {
+  const groups = new Map<string, KeyCost[]>();
+  for (const cost of costs) {
+    const namespace = cost.key.split('.').slice(0, depth).join('.');
+    const group = groups.get(namespace);
+    if (group) {
+      group.push(cost);
+    } else {
+      groups.set(namespace, [cost]);
+    }
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Splits the keys to translate into chunks that fit the model: the prompt with its source
+ * strings plus the expected translation must fit the context window, and the translation
+ * alone must fit the output limit. Translations into scripts that tokenize poorly
+ * (Persian, Thai, Russian, ...) take more output tokens, so their chunks are smaller.
+ *
+ * With the `namespace` strategy a subtree such as `access-control.add-permission.*` only
+ * gets split across chunks when it doesn't fit into a chunk of its own.
+ */
+export function splitIntoChunks(
+  obj: Record<string, any>,
+  options: ChunkingOptions,
+  logger: Logger
+): Record<string, any>[] {
+  const keys = Object.keys(obj);
+  const modelLimits = getModelLimits(options.llmProvider, options.llmModel);
+  // The output limit keeps its share of a larger or smaller window
+  const limits = options.contextWindow ? {
+    ...modelLimits,
+    contextWindow: options.contextWindow,
+    maxOutputTokens: Math.round(modelLimits.maxOutputTokens * options.contextWindow / modelLimits.contextWindow)
+  } : modelLimits;
+  const tokenizer = getTokenizer(limits.tokenizer);
+  const expansion = getOutputExpansion(options.targetLang);
+  const contextBudget = limits.contextWindow * TOKEN_SAFETY_MARGIN - PROMPT_OVERHEAD_TOKENS;
+  const outputBudget = limits.maxOutputTokens * TOKEN_SAFETY_MARGIN;
+  const maxKeysPerChunk = options.maxKeysPerChunk > 0 ? options.maxKeysPerChunk : Infinity;
+  const strategy = options.strategy || 'size';
+
+  let totalTokens = 0;
+  const costs: KeyCost[] = keys.map(key => {
+    const keyTokens = tokenizer.count(JSON.stringify(key));
+    const valueTokens = tokenizer.count(JSON.stringify(obj[key]));
+    totalTokens += keyTokens + valueTokens;
+    // The key appears in the source JSON and again in the response schema
+    return { key, inputTokens: 2 * keyTokens + valueTokens + 2, outputTokens: keyTokens + Math.ceil(valueTokens * expansion) + 2 };
+  });
+
+  const chunks: KeyCost[][] = [];
+  let currentChunk: KeyCost[] = [];
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  const fits = (group: KeyCost[]) => {
+    const groupInput = group.reduce((sum, cost) => sum + cost.inputTokens, 0);
+    const groupOutput = group.reduce((sum, cost) => sum + cost.outputTokens, 0);
+    return currentChunk.length + group.length <= maxKeysPerChunk &&
+      inputTokens + groupInput + outputTokens + groupOutput <= contextBudget &&
+      outputTokens + groupOutput <= outputBudget;
+  };
+  const add = (group: KeyCost[]) => {
+    for (const cost of group) {
+      currentChunk.push(cost);
+      inputTokens += cost.inputTokens;
+      outputTokens += cost.outputTokens;
+    }
+  };
+  const startNewChunk = () => {
+    if (currentChunk.length > 0) {
+      chunks.push(currentChunk);
+      currentChunk = [];
+      inputTokens = 0;
+      outputTokens = 0;
+    }
+  };
+  const addKey = (cost: KeyCost) => {
+    if (!fits([cost])) {
+      startNewChunk();
+      if (!fits([cost])) {
+        logger.warn(`"${cost.key}" alone exceeds the token budget of ${options.llmModel || options.llmProvider}; sending it in its own chunk`);
+      }
+    }
+    add([cost]);
+  };
+  const addNamespace = (group: KeyCost[], depth: number) => {
+    if (group.length === 1) {
+      addKey(group[0]);
+      return;
+    }
+    if (!fits(group)) {
+      startNewChunk();
+    }
+    if (fits(group)) {
+      add(group);
+      return;
+    }
+    // Too large for any chunk: split it by the next segment of the keys
+    groupByNamespace(group, depth + 1).forEach(subgroup => addNamespace(subgroup, depth + 1));
+  };
+
+  if (strategy === 'namespace') {
+    groupByNamespace(costs, 1).forEach(group => addNamespace(group, 1));
+  } else if (options.llmProvider === 'ollama') {
+    // Local models keep the file order
+    costs.forEach(addKey);
+  } else {
+    // Cloud providers get the largest strings first to even out the chunks
+    costs
+      .map(cost => ({ cost, size: JSON.stringify(obj[cost.key]).length }))
+      .sort((a, b) => b.size - a.size)
+      .forEach(({ cost }) => addKey(cost));
+  }
+  startNewChunk();
+
+  const avgKeysPerChunk = chunks.length ? Math.round(keys.length / chunks.length) : 0;
+  const avgTokensPerChunk = chunks.length ? Math.round(totalTokens / chunks.length) : 0;
+  logger.log(
+    `Chunking (${strategy}): ${keys.length} keys split into ${chunks.length} chunks (avg ${avgKeysPerChunk} keys, ~${avgTokensPerChunk} source tokens per chunk, ` +
+    `${limits.contextWindow} token context, ${limits.maxOutputTokens} output tokens, ${options.targetLang} expansion ${expansion}x, ${tokenizer.kind} tokenizer)`
+  );
+
+  return chunks.map(chunk => Object.fromEntries(chunk.map(({ key }) => [key, obj[key]])));
+}
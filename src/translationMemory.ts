@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Logger, LogCategory } from './logger';
+
+export const TRANSLATION_MEMORY_FILE = 'translation-memory.json';
+
+export interface TranslationMemoryScope {
+    sourceLang: string;
+    targetLang: string;
+    /** Provider and model, e.g. `openai/gpt-4o-mini`; other models may word things differently */
+    provider: string;
+}
+
+export interface TranslationMemoryEntry {
+    source: string;
+    translation: string;
+    /** Estimated tokens the provider call spent on this value, reported as saved on a hit */
+    tokens: number;
+    /** `<sourceLang>><targetLang>:<provider>`, used to rebuild the similarity index */
+    scope: string;
+}
+
+export interface TranslationMemoryMatch {
+    source: string;
+    translation: string;
+    /** 0–1, based on the edit distance between the sources */
+    similarity: number;
+}
+
+/**
+ * Trigram postings for one scope; candidates that share enough trigrams with the query
+ * are ranked by edit distance.
+ */
+class SimilarityIndex {
+    private grams = new Map<string, Set<string>>();
+    private sources = new Map<string, { text: string; gramCount: number }>();
+
+    public add(key: string, source: string): void {
+        if (this.sources.has(key)) {
+            return;
+        }
+        const grams = getTrigrams(source);
+        this.sources.set(key, { text: source, gramCount: grams.size });
+        for (const gram of grams) {
+            let postings = this.grams.get(gram);
+            if (!postings) {
+                postings = new Set();
+                this.grams.set(gram, postings);
+            }
+            postings.add(key);
+        }
+    }
+
+    public find(source: string, limit: number, minSimilarity: number): Array<{ key: string; similarity: number }> {
+        const queryGrams = getTrigrams(source);
+        const shared = new Map<string, number>();
+        for (const gram of queryGrams) {
+            this.grams.get(gram)?.forEach(key => shared.set(key, (shared.get(key) ?? 0) + 1));
+        }
+        // Dice coefficient narrows the candidates before the more expensive edit distance
+        const candidates = [...shared.entries()]
+            .map(([key, count]) => ({ key, dice: (2 * count) / (queryGrams.size + this.sources.get(key)!.gramCount) }))
+            .sort((a, b) => b.dice - a.dice)
+            .slice(0, limit * 5);
+        return candidates
+            .map(({ key }) => ({ key, similarity: getSimilarity(source, this.sources.get(key)!.text) }))
+            .filter(match => match.similarity >= minSimilarity && match.similarity < 1)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, limit);
+    }
+}
+
+function getTrigrams(text: string): Set<string> {
+    const padded = `  ${text.toLowerCase()} `;
+    const grams = new Set<string>();
+    for (let i = 0; i < padded.length - 2; i++) {
+        grams.add(padded.slice(i, i + 3));
+    }
+    return grams;
+}
+
+/** 1 − Levenshtein distance / length of the longer text. */
+function getSimilarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    const longest = Math.max(a.length, b.length);
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return 1 - previous[b.length] / longest;
+}
+
+function getScopeKey(scope: TranslationMemoryScope): string {
+    return `${scope.sourceLang}>${scope.targetLang}:${scope.provider}`;
+}
+
+interface TranslationMemoryData {
+    version: 1;
+    entries: Record<string, TranslationMemoryEntry>;
+}
+
+/**
+ * Persistent cache of previous translations, shared across keys, files and runs.
+ * Entries are keyed by a hash of (source text, source language, target language, provider/model);
+ * `findSimilar` additionally returns near matches to use as reference translations.
+ */
+export class TranslationMemory {
+    private filePath: string;
+    private logger: Logger;
+    private entries: Record<string, TranslationMemoryEntry> = {};
+    private dirty = false;
+    private indexes = new Map<string, SimilarityIndex>();
+
+    constructor(filePath: string, logger: Logger) {
+        this.filePath = filePath;
+        this.logger = logger;
+        this.load();
+    }
+
+    public static getProviderKey(provider: string, model?: string): string {
+        return `${provider}/${model || 'default'}`;
+    }
+
+    public get size(): number {
+        return Object.keys(this.entries).length;
+    }
+
+    public lookup(source: string, scope: TranslationMemoryScope): TranslationMemoryEntry | undefined {
+        return this.entries[this.getKey(source, scope)];
+    }
+
+    public store(source: string, translation: string, tokens: number, scope: TranslationMemoryScope): void {
+        const key = this.getKey(source, scope);
+        const scopeKey = getScopeKey(scope);
+        this.entries[key] = { source, translation, tokens, scope: scopeKey };
+        this.indexes.get(scopeKey)?.add(key, source);
+        this.dirty = true;
+    }
+
+    /**
+     * Earlier translations of similar (but not identical) source text in the same scope, best first.
+     */
+    public findSimilar(source: string, scope: TranslationMemoryScope, limit = 3, minSimilarity = 0.8): TranslationMemoryMatch[] {
+        return this.getIndex(getScopeKey(scope))
+            .find(source, limit, minSimilarity)
+            .map(({ key, similarity }) => ({ source: this.entries[key].source, translation: this.entries[key].translation, similarity }));
+    }
+
+    public save(): void {
+        if (!this.dirty) {
+            return;
+        }
+        try {
+            fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+            const data: TranslationMemoryData = { version: 1, entries: this.entries };
+            fs.writeFileSync(this.filePath, JSON.stringify(data));
+            this.dirty = false;
+            this.logger.logTranslation(`Translation memory saved (${this.size} entries)`);
+        } catch (error) {
+            this.logger.error(`Failed to save translation memory to ${this.filePath}`, error, LogCategory.TRANSLATION);
+        }
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) {
+            return;
+        }
+        try {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as TranslationMemoryData;
+            if (data?.version === 1 && data.entries && typeof data.entries === 'object') {
+                this.entries = data.entries;
+            }
+            this.logger.logTranslation(`Translation memory loaded (${this.size} entries)`);
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable translation memory ${this.filePath}: ${error}`, LogCategory.TRANSLATION);
+        }
+    }
+
+    private getIndex(scopeKey: string): SimilarityIndex {
+        let index = this.indexes.get(scopeKey);
+        if (!index) {
+            index = new SimilarityIndex();
+            for (const [key, entry] of Object.entries(this.entries)) {
+                if (entry.scope === scopeKey && typeof entry.source === 'string') {
+                    index.add(key, entry.source);
+                }
+            }
+            this.indexes.set(scopeKey, index);
+        }
+        return index;
+    }
+
+    private getKey(source: string, scope: TranslationMemoryScope): string {
+        return createHash('sha256')
+            .update([scope.sourceLang, scope.targetLang, scope.provider, source].join('\u0000'))
+            .digest('hex');
+    }
+}
@@ -0,0 +1,309 @@
+import * as vscode from 'vscode';
+import { flattenNestedContent, getNestedValue, removeKeys, setNestedValue } from './translationCore';
+
+/**
+ * - `new`: not in the locale file yet
+ * - `changed`: the proposed value replaces an existing one
+ * - `deleted`: the key is removed from the locale file
+ */
+export type ReviewChangeKind = 'new' | 'changed' | 'deleted';
+
+export interface ReviewItem {
+    id: string;
+    lang: string;
+    filePath: string;
+    key: string;
+    /** Top-level segment of the key, the unit of the bulk actions */
+    namespace: string;
+    kind: ReviewChangeKind;
+    source: unknown;
+    oldValue: unknown;
+    newValue: unknown;
+    accepted: boolean;
+    edited: boolean;
+}
+
+export interface ReviewFile {
+    lang: string;
+    filePath: string;
+    /** The locale file as it is on disk */
+    current: Record<string, any>;
+    /** The locale file as it would be written by Accept All Changes */
+    proposed: Record<string, any>;
+}
+
+export type ReviewMessage =
+    | { type: 'ready' }
+    | { type: 'setAccepted'; ids: string[]; accepted: boolean }
+    | { type: 'edit'; id: string; value: string }
+    | { type: 'apply' }
+    | { type: 'cancel' };
+
+/**
+ * One item per key that differs between the current and the proposed content of each file,
+ * all accepted to start with.
+ */
+export function buildReviewItems(base: Record<string, any>, files: ReviewFile[]): ReviewItem[] {
+    const items: ReviewItem[] = [];
+    for (const { lang, filePath, current, proposed } of files) {
+        const before = flattenNestedContent(current);
+        const after = flattenNestedContent(proposed);
+        const add = (key: string, kind: ReviewChangeKind) => items.push({
+            id: `${lang}:${key}`,
+            lang,
+            filePath,
+            key,
+            namespace: key.split('.')[0],
+            kind,
+            source: getNestedValue(base, key),
+            oldValue: before[key],
+            newValue: after[key],
+            accepted: true,
+            edited: false
+        });
+        for (const key of Object.keys(after)) {
+            if (!(key in before)) {
+                add(key, 'new');
+            } else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+                add(key, 'changed');
+            }
+        }
+        for (const key of Object.keys(before)) {
+            if (!(key in after)) {
+                add(key, 'deleted');
+            }
+        }
+    }
+    return items;
+}
+
+/**
+ * Applies an accept, reject or edit from the panel. Editing a value accepts it; deletions cannot be edited.
+ */
+export function updateReviewItems(items: ReviewItem[], message: ReviewMessage): ReviewItem[] {
+    if (message.type === 'setAccepted') {
+        const ids = new Set(message.ids);
+        return items.map(item => ids.has(item.id) ? { ...item, accepted: message.accepted } : item);
+    }
+    if (message.type === 'edit') {
+        return items.map(item => item.id === message.id && item.kind !== 'deleted'
+            ? { ...item, newValue: message.value, accepted: true, edited: true }
+            : item);
+    }
+    return items;
+}
+
+/**
+ * `current` with the accepted items of its file applied; rejected items leave the key as it is on disk.
+ */
+export function applyReviewDecisions(current: Record<string, any>, items: ReviewItem[]): Record<string, any> {
+    const accepted = items.filter(item => item.accepted);
+    const content = JSON.parse(JSON.stringify(current));
+    for (const item of accepted) {
+        if (item.kind !== 'deleted') {
+            setNestedValue(content, item.key, item.newValue);
+        }
+    }
+    return removeKeys(content, accepted.filter(item => item.kind === 'deleted').map(item => item.key));
+}
+
+/**
+ * Webview listing every proposed change with its source, old and new value, for accepting,
+ * rejecting or editing single keys or whole namespaces before anything is written.
+ */
+export class TranslationReviewPanel {
+    private static current: TranslationReviewPanel | undefined;
+    private panel: vscode.WebviewPanel;
+    private items: ReviewItem[];
+    private resolve: (items: ReviewItem[] | undefined) => void;
+
+    private constructor(items: ReviewItem[], resolve: (items: ReviewItem[] | undefined) => void) {
+        this.items = items;
+        this.resolve = resolve;
+        this.panel = vscode.window.createWebviewPanel(
+            'i18nNexusReview',
+            'Review Translations',
+            vscode.ViewColumn.Active,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        this.panel.webview.html = getReviewHtml(this.panel.webview.cspSource, createNonce());
+        this.panel.webview.onDidReceiveMessage((message: ReviewMessage) => this.handleMessage(message));
+        this.panel.onDidDispose(() => this.finish(undefined));
+    }
+
+    /**
+     * Opens the panel; resolves with the reviewed items on Apply, or `undefined` when it is closed.
+     * An already open review is closed first.
+     */
+    public static show(items: ReviewItem[]): Promise<ReviewItem[] | undefined> {
+        TranslationReviewPanel.current?.panel.dispose();
+        return new Promise(resolve => {
+            TranslationReviewPanel.current = new TranslationReviewPanel(items, resolve);
+        });
+    }
+
+    private handleMessage(message: ReviewMessage): void {
+        if (message.type === 'apply') {
+            this.finish(this.items);
+            this.panel.dispose();
+            return;
+        }
+        if (message.type === 'cancel') {
+            this.panel.dispose();
+            return;
+        }
+        this.items = updateReviewItems(this.items, message);
+        this.panel.webview.postMessage({ type: 'items', items: this.items });
+    }
+
+    private finish(items: ReviewItem[] | undefined): void {
+        if (TranslationReviewPanel.current === this) {
+            TranslationReviewPanel.current = undefined;
+        }
+        this.resolve(items);
+        // Later calls (the dispose after Apply) are no-ops
+        this.resolve = () => undefined;
+    }
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: 32 }, () => chars.charAt(Math.floor(Math.random() * chars.length))).join('');
+}
+
+function getReviewHtml(cspSource: string, nonce: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<title>Review Translations</title>
+<style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    header { position: sticky; top: 0; background: var(--vscode-editor-background); padding: 8px 0; display: flex; gap: 16px; align-items: center; flex-wrap: wrap; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border-bottom: 1px solid var(--vscode-panel-border); padding: 4px 6px; text-align: left; vertical-align: top; }
+    tr.namespace td { background: var(--vscode-sideBar-background); font-weight: bold; }
+    tr.rejected td.value { opacity: 0.5; text-decoration: line-through; }
+    td.key { font-family: var(--vscode-editor-font-family); }
+    .kind { font-size: 0.85em; padding: 0 4px; border-radius: 3px; }
+    .kind.new { background: var(--vscode-diffEditor-insertedTextBackground); }
+    .kind.changed { background: var(--vscode-diffEditor-modifiedTextBackground, var(--vscode-editorWarning-background)); }
+    .kind.deleted { background: var(--vscode-diffEditor-removedTextBackground); }
+    textarea { width: 100%; font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); resize: vertical; }
+</style>
+</head>
+<body>
+<header>
+    <label><input type="checkbox" data-filter="new" checked> New</label>
+    <label><input type="checkbox" data-filter="changed" checked> Changed</label>
+    <label><input type="checkbox" data-filter="deleted" checked> Deleted</label>
+    <span id="summary"></span>
+    <button id="apply">Apply Accepted</button>
+    <button id="cancel" class="secondary">Cancel</button>
+</header>
+<table>
+    <thead><tr><th></th><th>Key</th><th>Source</th><th>Current</th><th>Proposed</th></tr></thead>
+    <tbody id="rows"></tbody>
+</table>
+<script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const filters = { new: true, changed: true, deleted: true };
+    let items = [];
+
+    const show = value => value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+    const cell = (text, className) => {
+        const td = document.createElement('td');
+        td.textContent = text;
+        if (className) { td.className = className; }
+        return td;
+    };
+    const button = (label, onClick) => {
+        const b = document.createElement('button');
+        b.textContent = label;
+        b.className = 'secondary';
+        b.addEventListener('click', onClick);
+        return b;
+    };
+
+    function render() {
+        const rows = document.getElementById('rows');
+        rows.replaceChildren();
+        const visible = items.filter(item => filters[item.kind]);
+        const groups = new Map();
+        for (const item of visible) {
+            const group = item.lang + ' / ' + item.namespace;
+            if (!groups.has(group)) { groups.set(group, []); }
+            groups.get(group).push(item);
+        }
+        for (const [group, groupItems] of groups) {
+            const header = document.createElement('tr');
+            header.className = 'namespace';
+            const td = document.createElement('td');
+            td.colSpan = 5;
+            td.append(group + ' (' + groupItems.length + ') ');
+            const ids = groupItems.map(item => item.id);
+            td.append(
+                button('Accept all', () => vscode.postMessage({ type: 'setAccepted', ids, accepted: true })),
+                ' ',
+                button('Reject all', () => vscode.postMessage({ type: 'setAccepted', ids, accepted: false }))
+            );
+            header.append(td);
+            rows.append(header);
+            for (const item of groupItems) {
+                const tr = document.createElement('tr');
+                tr.className = item.accepted ? 'accepted' : 'rejected';
+                const toggle = document.createElement('td');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = item.accepted;
+                checkbox.title = item.accepted ? 'Accepted' : 'Rejected';
+                checkbox.addEventListener('change', () => vscode.postMessage({ type: 'setAccepted', ids: [item.id], accepted: checkbox.checked }));
+                toggle.append(checkbox);
+                const key = cell(item.key + ' ', 'key');
+                const kind = document.createElement('span');
+                kind.className = 'kind ' + item.kind;
+                kind.textContent = item.edited ? item.kind + ', edited' : item.kind;
+                key.append(kind);
+                const proposed = document.createElement('td');
+                proposed.className = 'value';
+                if (item.kind === 'deleted') {
+                    proposed.textContent = '(removed)';
+                } else if (typeof item.newValue === 'string') {
+                    const editor = document.createElement('textarea');
+                    editor.rows = Math.min(6, Math.max(1, Math.ceil(item.newValue.length / 60)));
+                    editor.value = item.newValue;
+                    editor.addEventListener('change', () => vscode.postMessage({ type: 'edit', id: item.id, value: editor.value }));
+                    proposed.append(editor);
+                } else {
+                    proposed.textContent = show(item.newValue);
+                }
+                tr.append(toggle, key, cell(show(item.source)), cell(show(item.oldValue), 'value'), proposed);
+                rows.append(tr);
+            }
+        }
+        const accepted = items.filter(item => item.accepted).length;
+        document.getElementById('summary').textContent = accepted + ' of ' + items.length + ' changes accepted, ' + visible.length + ' shown';
+    }
+
+    for (const input of document.querySelectorAll('[data-filter]')) {
+        input.addEventListener('change', () => {
+            filters[input.dataset.filter] = input.checked;
+            render();
+        });
+    }
+    document.getElementById('apply').addEventListener('click', () => vscode.postMessage({ type: 'apply' }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+    window.addEventListener('message', event => {
+        if (event.data.type === 'items') {
+            items = event.data.items;
+            render();
+        }
+    });
+    vscode.postMessage({ type: 'ready' });
+</script>
+</body>
+</html>`;
+}
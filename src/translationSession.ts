@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Logger, LogCategory } from './logger';
+
+export interface SessionChunk {
+    id: string;
+    content: Record<string, any>;
+}
+
+/**
+ * Everything needed to continue a translation of one locale file after a reload, crash or cancel.
+ */
+export interface TranslationSession {
+    version: 1;
+    /** Target locale file the session writes to */
+    filePath: string;
+    lang: string;
+    /** Hash of the base language file the chunks were built from; a changed base invalidates the session */
+    sourceHash: string;
+    chunks: SessionChunk[];
+    /** Chunks that were applied or rejected; failed chunks are retried on resume */
+    completedChunks: string[];
+    /** Flat target content with every chunk applied so far */
+    mergedContent: Record<string, any>;
+    /** Hashes of the base values behind the applied translations, recorded in the lock file on accept */
+    sourceHashes: Record<string, string>;
+    updatedAt: string;
+}
+
+export function hashFile(filePath: string): string {
+    return createHash('sha256').update(fs.readFileSync(filePath, 'utf8')).digest('hex');
+}
+
+export function createSession(
+    filePath: string,
+    lang: string,
+    sourceHash: string,
+    chunks: SessionChunk[],
+    mergedContent: Record<string, any>
+): TranslationSession {
+    return { version: 1, filePath, lang, sourceHash, chunks, completedChunks: [], mergedContent, sourceHashes: {}, updatedAt: new Date().toISOString() };
+}
+
+export function getRemainingChunks(session: TranslationSession): SessionChunk[] {
+    return session.chunks.filter(chunk => !session.completedChunks.includes(chunk.id));
+}
+
+function isSession(data: any): data is TranslationSession {
+    return data?.version === 1 && typeof data.filePath === 'string' && typeof data.sourceHash === 'string' &&
+        Array.isArray(data.chunks) && Array.isArray(data.completedChunks) &&
+        !!data.mergedContent && typeof data.mergedContent === 'object' &&
+        !!data.sourceHashes && typeof data.sourceHashes === 'object';
+}
+
+/**
+ * Session manifests, one JSON file per target locale file, kept until the translation is accepted.
+ */
+export class TranslationSessionStore {
+    private directory: string;
+    private logger: Logger;
+
+    constructor(directory: string, logger: Logger) {
+        this.directory = directory;
+        this.logger = logger;
+    }
+
+    public load(filePath: string): TranslationSession | null {
+        return this.read(this.getSessionPath(filePath));
+    }
+
+    public save(session: TranslationSession): void {
+        try {
+            fs.mkdirSync(this.directory, { recursive: true });
+            session.updatedAt = new Date().toISOString();
+            fs.writeFileSync(this.getSessionPath(session.filePath), JSON.stringify(session));
+        } catch (error) {
+            this.logger.error(`Failed to save translation session for ${session.filePath}`, error, LogCategory.TRANSLATION);
+        }
+    }
+
+    public delete(filePath: string): void {
+        const sessionPath = this.getSessionPath(filePath);
+        if (fs.existsSync(sessionPath)) {
+            try { fs.unlinkSync(sessionPath); } catch {}
+        }
+    }
+
+    /** All stored sessions, most recently updated first. */
+    public list(): TranslationSession[] {
+        if (!fs.existsSync(this.directory)) {
+            return [];
+        }
+        return fs.readdirSync(this.directory)
+            .filter(name => name.endsWith('.json'))
+            .map(name => this.read(path.join(this.directory, name)))
+            .filter((session): session is TranslationSession => session !== null)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    }
+
+    private read(sessionPath: string): TranslationSession | null {
+        if (!fs.existsSync(sessionPath)) {
+            return null;
+        }
+        try {
+            const data = JSON.parse(fs.readFileSync(sessionPath, 'utf8'));
+            return isSession(data) ? data : null;
+        } catch (error) {
+            this.logger.warn(`Ignoring unreadable translation session ${sessionPath}: ${error}`, LogCategory.TRANSLATION);
+            return null;
+        }
+    }
+
+    private getSessionPath(filePath: string): string {
+        return path.join(this.directory, `${createHash('sha1').update(filePath).digest('hex')}.json`);
+    }
+}
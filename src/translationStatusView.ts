@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Logger, LogCategory } from './logger';
+import { LOCK_FILE_NAME, SourceLock } from './sourceLock';
+import { KeyState, LocaleStatus, findKeyOffset, getLocaleStatus, getOriginalBaseContent, listLocaleFiles, loadJsonFile } from './translationCore';
+
+type StatusCategory = Exclude<KeyState, 'current'>;
+
+const CATEGORIES: Array<{ state: StatusCategory; label: string; icon: string; tooltip: string }> = [
+    { state: 'missing', label: 'Missing', icon: 'circle-slash', tooltip: 'In the base language, not in this locale' },
+    { state: 'empty', label: 'Empty', icon: 'circle-large-outline', tooltip: 'Present with an empty string' },
+    { state: 'stale', label: 'Stale', icon: 'history', tooltip: 'The base value changed since it was translated' },
+    { state: 'orphaned', label: 'Orphaned', icon: 'trash', tooltip: 'No longer in the base language' }
+];
+
+export interface LocaleNode {
+    kind: 'locale';
+    lang: string;
+    filePath: string;
+    baseFilePath: string;
+    status: LocaleStatus;
+}
+
+export interface CategoryNode {
+    kind: 'category';
+    locale: LocaleNode;
+    state: StatusCategory;
+}
+
+export interface KeyNode {
+    kind: 'key';
+    locale: LocaleNode;
+    state: StatusCategory;
+    key: string;
+}
+
+export type StatusNode = LocaleNode | CategoryNode | KeyNode;
+
+/**
+ * Status of every locale file next to the base language file; `<lang>.meta.json` note files are skipped.
+ */
+export function loadLocaleStatuses(localeDir: string, baseLanguage: string, sourceLock: SourceLock, logger: Logger): LocaleNode[] {
+    const baseFilePath = path.join(localeDir, `${baseLanguage}.json`);
+    if (!fs.existsSync(baseFilePath)) {
+        return [];
+    }
+    const baseContent = loadJsonFile(baseFilePath);
+    const originalBaseContent = getOriginalBaseContent(baseFilePath, logger);
+    const nodes: LocaleNode[] = [];
+    for (const { lang, filePath } of listLocaleFiles(localeDir, baseLanguage)) {
+        try {
+            const reference = { hashes: sourceLock.getHashes(lang), original: originalBaseContent };
+            const status = getLocaleStatus(baseContent, loadJsonFile(filePath), reference);
+            nodes.push({ kind: 'locale', lang, filePath, baseFilePath, status });
+        } catch (error) {
+            logger.warn(`Skipping ${path.basename(filePath)} in the status view: ${error}`, LogCategory.TRANSLATION);
+        }
+    }
+    return nodes;
+}
+
+function describeStatus(status: LocaleStatus): string {
+    return CATEGORIES.map(({ state }) => `${status[state].length} ${state}`).join(' · ');
+}
+
+/**
+ * "Translation Status" tree: locales, then the keys that need work grouped by state.
+ */
+export class TranslationStatusProvider implements vscode.TreeDataProvider<StatusNode> {
+    private changeEmitter = new vscode.EventEmitter<StatusNode | undefined>();
+    public readonly onDidChangeTreeData = this.changeEmitter.event;
+    private logger: Logger;
+
+    constructor(logger: Logger) {
+        this.logger = logger;
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    public getTreeItem(node: StatusNode): vscode.TreeItem {
+        if (node.kind === 'locale') {
+            const complete = CATEGORIES.every(({ state }) => node.status[state].length === 0);
+            const item = new vscode.TreeItem(node.lang, vscode.TreeItemCollapsibleState.Collapsed);
+            item.description = complete ? 'up to date' : describeStatus(node.status);
+            item.tooltip = node.filePath;
+            item.iconPath = new vscode.ThemeIcon(complete ? 'pass' : 'warning');
+            item.contextValue = 'locale';
+            return item;
+        }
+        const category = CATEGORIES.find(({ state }) => state === node.state)!;
+        if (node.kind === 'category') {
+            const count = node.locale.status[node.state].length;
+            const item = new vscode.TreeItem(
+                category.label,
+                count > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+            );
+            item.description = String(count);
+            item.tooltip = category.tooltip;
+            item.iconPath = new vscode.ThemeIcon(category.icon);
+            return item;
+        }
+        // Missing keys only exist in the base file
+        const filePath = node.state === 'missing' ? node.locale.baseFilePath : node.locale.filePath;
+        const item = new vscode.TreeItem(node.key, vscode.TreeItemCollapsibleState.None);
+        item.tooltip = `${category.tooltip}: ${node.key}`;
+        item.command = { command: 'i18n-nexus.revealKey', title: 'Reveal Key', arguments: [filePath, node.key] };
+        return item;
+    }
+
+    public getChildren(node?: StatusNode): StatusNode[] {
+        if (!node) {
+            return this.getLocaleNodes();
+        }
+        if (node.kind === 'locale') {
+            return CATEGORIES.map(({ state }) => ({ kind: 'category', locale: node, state }));
+        }
+        if (node.kind === 'category') {
+            return node.locale.status[node.state].map(key => ({ kind: 'key', locale: node.locale, state: node.state, key }));
+        }
+        return [];
+    }
+
+    private getLocaleNodes(): LocaleNode[] {
+        const config = vscode.workspace.getConfiguration('i18nNexus');
+        const basePath = config.get<string>('basePath');
+        const baseLanguage = config.get<string>('baseLanguage');
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!basePath || !baseLanguage || !workspaceRoot) {
+            return [];
+        }
+        try {
+            const sourceLock = new SourceLock(path.join(workspaceRoot, LOCK_FILE_NAME), this.logger);
+            return loadLocaleStatuses(path.join(workspaceRoot, basePath), baseLanguage, sourceLock, this.logger);
+        } catch (error) {
+            this.logger.error('Failed to compute translation status', error, LogCategory.TRANSLATION);
+            return [];
+        }
+    }
+}
+
+/**
+ * Opens a locale file with the cursor on the given dotted key.
+ */
+export async function revealKey(filePath: string, key: string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(filePath);
+    const offset = findKeyOffset(document.getText(), key);
+    const position = document.positionAt(Math.max(0, offset));
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}